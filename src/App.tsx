@@ -1,13 +1,18 @@
 import React, { useState, Suspense, useEffect } from 'react';
 import useGameState from './hooks/useGameState';
+import useProfiles from './hooks/useProfiles';
+import * as engine from './engine';
 import { Combat } from './components/Combat';
 import { Shop } from './components/Shop';
 import { Inventory } from './components/Inventory';
 import { PlayerStats } from './components/PlayerStats';
 import { Mining } from './components/Mining';
+import { Research } from './components/Research';
 import { FloatingIcons } from './components/FloatingIcons';
 import { PWAInstallPrompt } from './components/PWAInstallPrompt';
-import { Shield, Package, User, Play, RotateCcw, Crown, Gift, Pickaxe, Menu, ArrowLeft } from 'lucide-react';
+import { ProfilePicker } from './components/ProfilePicker';
+import { UnlockToast } from './components/UnlockToast';
+import { Shield, Package, User, Play, RotateCcw, Crown, Gift, Pickaxe, FlaskConical, Menu, ArrowLeft, Users, AlertTriangle, X, MonitorSmartphone } from 'lucide-react';
 import { animateButtonClick, initGSAPAnimations } from './utils/gsapAnimations';
 
 // Lazy load heavy components
@@ -29,10 +34,13 @@ import {
   LazySkills,
   LazyYojefMarket,
   LazyProgressionPanel,
-  LazyAdventureSkillSelection
+  LazyAdventureSkillSelection,
+  LazySaveRepairReport,
+  LazyLootScreen,
+  LazyRunSummaryScreen
 } from './components/LazyComponents';
 
-type GameView = 'stats' | 'shop' | 'inventory' | 'mining' | 'menu';
+type GameView = 'stats' | 'shop' | 'inventory' | 'mining' | 'research' | 'menu';
 type ModalView = 'collection' | 'gameMode' | 'pokyegMarket' | 'tutorial' | 'cheats' | 'resetConfirm' | 'dailyRewards' | 'offlineProgress' | 'bulkActions' | null;
 
 // Loading component for Suspense fallback
@@ -46,9 +54,31 @@ const LoadingSpinner = () => (
 );
 
 function App() {
+  const {
+    profiles,
+    lastProfileId,
+    isLoading: profilesLoading,
+    activeProfileId,
+    createProfile,
+    renameProfile,
+    duplicateProfile,
+    deleteProfile,
+    selectProfile,
+    leaveProfile,
+  } = useProfiles();
+
   const {
     gameState,
     isLoading,
+    repairReport,
+    dismissRepairReport,
+    storageProblem,
+    dismissStorageProblem,
+    listSaveSnapshots,
+    isReadOnly,
+    takeOverTab,
+    unlockNotices,
+    dismissUnlockNotice,
     equipWeapon,
     equipArmor,
     upgradeWeapon,
@@ -64,9 +94,17 @@ function App() {
     toggleCheat,
     generateCheatItem,
     mineGem,
+    digNextLayer,
+    buyMiningTool,
+    buyDrone,
+    upgradeDrones,
+    collectDroneGems,
     exchangeShinyGems,
+    investInResearch,
+    chooseResearchBranch,
     discardItem,
     purchaseRelic,
+    buyYojefRefresh,
     upgradeRelic,
     equipRelic,
     unequipRelic,
@@ -79,16 +117,24 @@ function App() {
     bulkUpgrade,
     plantSeed,
     buyWater,
+    applyFertilizer,
+    harvestPlot,
     updateSettings,
     addCoins,
     addGems,
     teleportToZone,
     setExperience,
+    setRandomSeed,
+    importGameState,
     rollSkill,
     selectAdventureSkill,
     skipAdventureSkills,
     useSkipCard,
-  } = useGameState();
+    applyConsumable,
+    dismissLoot,
+    forgeRelic,
+    dismissRunSummary,
+  } = useGameState(activeProfileId);
 
   const [currentView, setCurrentView] = useState<GameView>('stats');
   const [currentModal, setCurrentModal] = useState<ModalView>(null);
@@ -135,6 +181,21 @@ function App() {
     return () => clearTimeout(timer);
   }, [currentView, currentModal, gameState?.inCombat, showWelcome, gsapInitialized]);
 
+  // Choose a save slot before anything else
+  if (!profilesLoading && !activeProfileId) {
+    return (
+      <ProfilePicker
+        profiles={profiles}
+        lastProfileId={lastProfileId}
+        onSelectProfile={selectProfile}
+        onCreateProfile={createProfile}
+        onRenameProfile={renameProfile}
+        onDuplicateProfile={duplicateProfile}
+        onDeleteProfile={deleteProfile}
+      />
+    );
+  }
+
   // Show loading screen while game state is loading
   if (isLoading || !gameState) {
     return (
@@ -243,12 +304,23 @@ function App() {
     setCurrentModal('resetConfirm');
   };
 
+  const handleSwitchProfile = () => {
+    setCurrentView('stats');
+    setCurrentModal(null);
+    setShowWelcome(true);
+    leaveProfile();
+  };
+
   const confirmReset = () => {
     resetGame();
     setCurrentModal(null);
   };
 
   const renderCurrentView = () => {
+    const skillEffects = engine.activeSkillEffects(gameState);
+    // A finished survival run leaves no lives, but the next run starts with a full set
+    const survivalOutOfLives = gameState.gameMode.current === 'survival' && gameState.gameMode.survivalLives <= 0 && gameState.currentRun !== null;
+
     if (gameState.inCombat && gameState.currentEnemy) {
       return (
         <Combat
@@ -261,6 +333,11 @@ function App() {
           hasUsedRevival={gameState.hasUsedRevival}
           adventureSkills={gameState.adventureSkills}
           onUseSkipCard={useSkipCard}
+          consumables={gameState.consumables}
+          onUseConsumable={applyConsumable}
+          playerStatusEffects={gameState.playerStatusEffects}
+          answerTimeMultiplier={skillEffects.answerTimeMultiplier * engine.adventureAnswerTimeMultiplier(gameState)}
+          removeWrongOption={skillEffects.removesWrongOption}
         />
       );
     }
@@ -273,6 +350,8 @@ function App() {
               gameState={gameState}
               onPlantSeed={plantSeed}
               onBuyWater={buyWater}
+              onApplyFertilizer={applyFertilizer}
+              onHarvestPlot={harvestPlot}
               onUpgradeSkill={upgradeSkill}
               onPrestige={prestige}
               onUpdateSettings={updateSettings}
@@ -280,8 +359,12 @@ function App() {
               onAddGems={addGems}
               onTeleportToZone={teleportToZone}
               onSetExperience={setExperience}
+              onSetRandomSeed={setRandomSeed}
+              onImportSave={importGameState}
+              onListSaveSnapshots={listSaveSnapshots}
               onRollSkill={rollSkill}
               onPurchaseRelic={purchaseRelic}
+              onBuyYojefRefresh={buyYojefRefresh}
               onBack={() => setCurrentView('stats')}
             />
           </Suspense>
@@ -310,7 +393,7 @@ function App() {
                 </div>
                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
                   <div className="text-center bg-black/20 p-3 rounded-lg">
-                    <p className="text-green-300 font-semibold text-sm">Growth</p>
+                    <p className="text-green-300 font-semibold text-sm">Tallest Plant</p>
                     <p className="text-white text-lg sm:text-xl font-bold">{gameState.gardenOfGrowth.growthCm.toFixed(1)}cm</p>
                   </div>
                   <div className="text-center bg-black/20 p-3 rounded-lg">
@@ -323,16 +406,25 @@ function App() {
                   </div>
                 </div>
                 
-                <div className="mt-4">
-                  <div className="w-full bg-gray-700 rounded-full h-3">
-                    <div 
-                      className="bg-gradient-to-r from-green-500 to-emerald-500 h-3 rounded-full transition-all duration-500"
-                      style={{ width: `${Math.min((gameState.gardenOfGrowth.growthCm / gameState.gardenOfGrowth.maxGrowthCm) * 100, 100)}%` }}
-                    />
-                  </div>
-                  <p className="text-center text-gray-300 text-xs sm:text-sm mt-2">
-                    Progress to maximum growth ({gameState.gardenOfGrowth.maxGrowthCm}cm)
-                  </p>
+                <div className="mt-4 space-y-2">
+                  {gameState.gardenOfGrowth.plots.map((plot, index) => {
+                    if (!plot.species) return null;
+                    const { name, maxGrowthCm } = engine.plantSpecies[plot.species];
+                    return (
+                      <div key={index}>
+                        <div className="flex justify-between text-gray-300 text-xs sm:text-sm mb-1">
+                          <span>{name}</span>
+                          <span>{plot.growthCm.toFixed(1)}cm / {maxGrowthCm}cm</span>
+                        </div>
+                        <div className="w-full bg-gray-700 rounded-full h-3">
+                          <div
+                            className="bg-gradient-to-r from-green-500 to-emerald-500 h-3 rounded-full transition-all duration-500"
+                            style={{ width: `${Math.min((plot.growthCm / maxGrowthCm) * 100, 100)}%` }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -358,9 +450,9 @@ function App() {
             <div className="text-center space-y-4 sm:space-y-6">
               <button
                 onClick={startCombat}
-                disabled={gameState.playerStats.hp <= 0 || (gameState.gameMode.current === 'survival' && gameState.gameMode.survivalLives <= 0)}
+                disabled={gameState.playerStats.hp <= 0 || survivalOutOfLives}
                 className={`w-full sm:w-auto px-6 sm:px-8 py-3 sm:py-4 rounded-xl font-bold text-white transition-all duration-300 transform flex items-center gap-3 justify-center text-base sm:text-lg shadow-lg ${
-                  gameState.playerStats.hp > 0 && (gameState.gameMode.current !== 'survival' || gameState.gameMode.survivalLives > 0)
+                  gameState.playerStats.hp > 0 && !survivalOutOfLives
                     ? 'bg-gradient-to-r from-green-600 to-green-500 hover:from-green-500 hover:to-green-400 hover:scale-105 shadow-green-500/25'
                     : 'bg-gray-600 cursor-not-allowed opacity-50'
                 }`}
@@ -368,15 +460,15 @@ function App() {
                 <Play className="w-5 h-5 sm:w-6 sm:h-6" />
                 {gameState.playerStats.hp <= 0 
                   ? 'You are defeated!' 
-                  : gameState.gameMode.current === 'survival' && gameState.gameMode.survivalLives <= 0
+                  : survivalOutOfLives
                     ? 'No lives remaining!'
                     : 'Start Adventure'}
               </button>
               
-              {(gameState.playerStats.hp <= 0 || (gameState.gameMode.current === 'survival' && gameState.gameMode.survivalLives <= 0)) && (
+              {(gameState.playerStats.hp <= 0 || survivalOutOfLives) && (
                 <div className="bg-red-900/30 p-4 rounded-lg border border-red-500/50">
                   <p className="text-red-400 text-sm">
-                    {gameState.gameMode.current === 'survival' && gameState.gameMode.survivalLives <= 0
+                    {survivalOutOfLives
                       ? 'Change game mode or reset to continue!'
                       : 'Visit the shop to get better equipment and try again!'}
                   </p>
@@ -414,6 +506,15 @@ function App() {
                   <span className="sm:hidden">Daily</span>
                 </button>
                 
+                <button
+                  onClick={handleSwitchProfile}
+                  className="px-3 sm:px-4 py-2 rounded-lg font-semibold text-white bg-gradient-to-r from-indigo-600 to-indigo-500 hover:from-indigo-500 hover:to-indigo-400 transition-all duration-200 flex items-center gap-2 text-xs sm:text-sm shadow-md"
+                >
+                  <Users className="w-3 h-3 sm:w-4 sm:h-4" />
+                  <span className="hidden sm:inline">Switch Profile</span>
+                  <span className="sm:hidden">Profile</span>
+                </button>
+                
                 <button
                   onClick={handleResetGame}
                   className="px-3 sm:px-4 py-2 rounded-lg font-semibold text-white bg-gradient-to-r from-red-600 to-red-500 hover:from-red-500 hover:to-red-400 transition-all duration-200 flex items-center gap-2 text-xs sm:text-sm shadow-md"
@@ -449,12 +550,29 @@ function App() {
         return (
           <Mining
             mining={gameState.mining}
+            droneProduction={engine.getDroneProduction(gameState)}
+            coins={gameState.coins}
             gems={gameState.gems}
             shinyGems={gameState.shinyGems}
             onMineGem={mineGem}
+            onDigNextLayer={digNextLayer}
+            onBuyMiningTool={buyMiningTool}
+            onBuyDrone={buyDrone}
+            onUpgradeDrones={upgradeDrones}
+            onCollectDroneGems={collectDroneGems}
             onExchangeShinyGems={exchangeShinyGems}
           />
         );
+      case 'research':
+        return (
+          <Research
+            research={gameState.research}
+            coins={gameState.coins}
+            costMultiplier={skillEffects.researchCostMultiplier}
+            onInvest={investInResearch}
+            onChooseBranch={chooseResearchBranch}
+          />
+        );
       default:
         return null;
     }
@@ -483,6 +601,7 @@ function App() {
           <Suspense fallback={<LoadingSpinner />}>
             <LazyEnhancedGameModes
               currentMode={gameState.gameMode}
+              bestRuns={gameState.bestRuns}
               onSelectMode={setGameMode}
               onClose={() => setCurrentModal(null)}
             />
@@ -601,6 +720,44 @@ function App() {
       {/* PWA Install Prompt */}
       <PWAInstallPrompt />
 
+      {/* Saves are failing: tell the player before they lose progress */}
+      {storageProblem && (
+        <div className="bg-red-900/90 border-b border-red-500/50 relative z-20">
+          <div className="container mx-auto px-4 py-2 flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-300 flex-shrink-0" />
+            <p className="text-red-100 text-xs sm:text-sm flex-1">
+              {storageProblem === 'quotaExceeded'
+                ? 'Browser storage is full, so your progress is not being saved. Export your save from Settings and free up some space.'
+                : 'Your progress could not be saved. Export your save from Settings to keep a copy.'}
+            </p>
+            <button
+              onClick={dismissStorageProblem}
+              className="text-red-300 hover:text-white transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Another tab holds the save lock: this one only mirrors it */}
+      {isReadOnly && (
+        <div className="bg-blue-900/90 border-b border-blue-500/50 sticky top-0 z-30">
+          <div className="container mx-auto px-4 py-2 flex items-center gap-3">
+            <MonitorSmartphone className="w-5 h-5 text-blue-300 flex-shrink-0" />
+            <p className="text-blue-100 text-xs sm:text-sm flex-1">
+              You're playing in another tab. This tab is read-only and follows along.
+            </p>
+            <button
+              onClick={takeOverTab}
+              className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors font-semibold text-xs sm:text-sm"
+            >
+              Play Here
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <div className="bg-gradient-to-r from-purple-800 via-violet-800 to-purple-800 shadow-2xl relative z-10 border-b border-purple-500/30">
         <div className="container mx-auto px-4 py-3 sm:py-4 md:py-6">
@@ -660,6 +817,7 @@ function App() {
                   { id: 'shop', label: 'Shop', icon: Package },
                   { id: 'inventory', label: 'Inventory', icon: Shield },
                   { id: 'mining', label: 'Mining', icon: Pickaxe },
+                  { id: 'research', label: 'Research', icon: FlaskConical },
                 ].map(({ id, label, icon: Icon }) => (
                   <button
                     key={id}
@@ -697,7 +855,7 @@ function App() {
       </div>
 
       {/* Main Content */}
-      <div className="container mx-auto px-4 py-4 sm:py-6 md:py-8 relative z-10">
+      <div className={`container mx-auto px-4 py-4 sm:py-6 md:py-8 relative z-10 ${isReadOnly ? 'pointer-events-none opacity-60' : ''}`}>
         <div className="max-w-6xl mx-auto">
           {renderCurrentView()}
         </div>
@@ -705,6 +863,45 @@ function App() {
 
       {/* Modals */}
       {renderModal()}
+
+      {/* Drops from the fight that just ended */}
+      {!gameState.inCombat && gameState.lastLoot.length > 0 && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <LazyLootScreen
+            loot={gameState.lastLoot}
+            relicFragments={gameState.relicFragments}
+            onForgeRelic={forgeRelic}
+            onClose={dismissLoot}
+          />
+        </Suspense>
+      )}
+
+      {/* Score card for the run that just ended */}
+      {!gameState.inCombat && gameState.lastLoot.length === 0 && gameState.lastRunSummary && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <LazyRunSummaryScreen
+            summary={gameState.lastRunSummary}
+            bestRuns={gameState.bestRuns[gameState.lastRunSummary.mode]}
+            onClose={dismissRunSummary}
+          />
+        </Suspense>
+      )}
+
+      {/* Report of anything repaired while loading the save, shown above other modals */}
+      {repairReport && (
+        <Suspense fallback={<LoadingSpinner />}>
+          <LazySaveRepairReport report={repairReport} onClose={dismissRepairReport} />
+        </Suspense>
+      )}
+
+      {/* Achievement and title unlocks, one at a time */}
+      {unlockNotices.length > 0 && (
+        <UnlockToast
+          key={`${unlockNotices[0].kind}-${unlockNotices[0].id}`}
+          notice={unlockNotices[0]}
+          onDismiss={dismissUnlockNotice}
+        />
+      )}
     </div>
   );
 }
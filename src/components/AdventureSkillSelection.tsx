@@ -1,5 +1,6 @@
 import React from 'react';
 import { AdventureSkill } from '../types/game';
+import { AdventureSkillRarity, adventureSkillRegistry } from '../engine';
 import { Zap, Shield, SkipForward, Heart, Eye, TrendingUp, Badge as Dodge, Sword, Droplets, Flame, Clock, Target, ShieldCheck, Skull, Sparkles, Swords, Wind, Moon, Leaf, Gem, Snowflake, Star, Waves, Sun, Mountain } from 'lucide-react';
 
 interface AdventureSkillSelectionProps {
@@ -8,6 +9,13 @@ interface AdventureSkillSelectionProps {
   onSkipSkills: () => void;
 }
 
+const rarityBadges: Record<AdventureSkillRarity, string> = {
+  common: 'bg-gray-600 text-gray-100',
+  rare: 'bg-blue-600 text-blue-100',
+  epic: 'bg-purple-600 text-purple-100',
+  legendary: 'bg-yellow-500 text-yellow-950'
+};
+
 export const AdventureSkillSelection: React.FC<AdventureSkillSelectionProps> = ({
   availableSkills,
   onSelectSkill,
@@ -85,25 +93,33 @@ export const AdventureSkillSelection: React.FC<AdventureSkillSelectionProps> = (
         <div className="text-center mb-6">
           <h2 className="text-white font-bold text-2xl mb-2">⚔️ Choose Your Adventure Skill</h2>
           <p className="text-purple-300">Select a skill to aid you in this adventure, or skip to continue without one</p>
-          <p className="text-gray-400 text-sm mt-2">25 unique adventure skills available - 3 randomly selected each adventure</p>
+          <p className="text-gray-400 text-sm mt-2">
+            {Object.keys(adventureSkillRegistry).length} unique adventure skills available - 3 offered each adventure, rarer skills less often
+          </p>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
-          {availableSkills.map((skill) => (
-            <button
-              key={skill.id}
-              onClick={() => onSelectSkill(skill)}
-              className={`p-4 rounded-lg border-2 bg-gradient-to-br ${getSkillColor(skill.type)} hover:scale-105 transition-all duration-200`}
-            >
-              <div className="text-center">
-                <div className="mb-3 flex justify-center">
-                  {getSkillIcon(skill.type)}
+          {availableSkills.map((skill) => {
+            const rarity = adventureSkillRegistry[skill.type]?.rarity ?? 'common';
+            return (
+              <button
+                key={skill.id}
+                onClick={() => onSelectSkill(skill)}
+                className={`p-4 rounded-lg border-2 bg-gradient-to-br ${getSkillColor(skill.type)} hover:scale-105 transition-all duration-200`}
+              >
+                <div className="text-center">
+                  <div className="mb-3 flex justify-center">
+                    {getSkillIcon(skill.type)}
+                  </div>
+                  <h3 className="text-white font-bold text-lg mb-1">{skill.name}</h3>
+                  <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold capitalize mb-2 ${rarityBadges[rarity]}`}>
+                    {rarity}
+                  </span>
+                  <p className="text-gray-300 text-sm">{skill.description}</p>
                 </div>
-                <h3 className="text-white font-bold text-lg mb-2">{skill.name}</h3>
-                <p className="text-gray-300 text-sm">{skill.description}</p>
-              </div>
-            </button>
-          ))}
+              </button>
+            );
+          })}
         </div>
 
         <div className="text-center">
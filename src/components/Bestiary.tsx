@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { BestiaryRecord } from '../types/game';
+import { PawPrint, Swords, Skull, Eye, X } from 'lucide-react';
+import { bestiaryDefinitions, BestiaryDefinition, getBestiaryStats } from '../utils/bestiary';
+import { statusRegistry } from '../engine';
+
+interface BestiaryProps {
+  bestiary: Record<string, BestiaryRecord>;
+  onClose: () => void;
+}
+
+// Portraits for the catalog's art keys
+const bestiaryArt: Record<string, string> = {
+  goblin: '👺',
+  wolf: '🐺',
+  golem: '🗿',
+  imp: '😈',
+  troll: '🧌',
+  mage: '🧙',
+  drake: '🐉',
+  wraith: '👻',
+  crystal: '💎',
+  dragon: '🐲',
+  chaos: '🌀',
+  nightmare: '👑',
+  abyss: '🦑',
+  cosmic: '👁️',
+  bender: '🎭',
+  dimension: '🌌',
+  guardian: '🛡️',
+  emperor: '🌑',
+  incarnate: '🔥',
+  destroyer: '💀'
+};
+
+const formatZones = (definition: BestiaryDefinition) =>
+  definition.maxZone === undefined ? `Zone ${definition.minZone}+` : `Zones ${definition.minZone}-${definition.maxZone}`;
+
+export const Bestiary: React.FC<BestiaryProps> = ({ bestiary, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const discovered = bestiaryDefinitions.filter(definition => (bestiary[definition.id]?.encountered || 0) > 0);
+  const totalDefeated = Object.values(bestiary).reduce((sum, record) => sum + record.defeated, 0);
+  const selected = bestiaryDefinitions.find(definition => definition.id === selectedId && bestiary[definition.id]);
+
+  const renderDetails = (definition: BestiaryDefinition) => {
+    const record = bestiary[definition.id];
+    const stats = getBestiaryStats(definition, definition.minZone);
+
+    return (
+      <div className="bg-black/40 p-4 rounded-lg border border-amber-500/30">
+        <div className="flex items-center gap-3 mb-3">
+          <span className="text-4xl">{bestiaryArt[definition.art] || '👾'}</span>
+          <div>
+            <h3 className="text-white font-bold text-lg">{definition.name}</h3>
+            <p className="text-amber-300 text-sm">{formatZones(definition)}</p>
+          </div>
+        </div>
+        <p className="text-gray-300 text-sm italic mb-4">{definition.lore}</p>
+
+        <div className="grid grid-cols-3 gap-2 mb-4 text-center text-sm">
+          <div className="bg-black/30 p-2 rounded-lg">
+            <p className="text-red-400 font-bold">{stats.hp}</p>
+            <p className="text-gray-400 text-xs">HP</p>
+          </div>
+          <div className="bg-black/30 p-2 rounded-lg">
+            <p className="text-orange-400 font-bold">{stats.atk}</p>
+            <p className="text-gray-400 text-xs">ATK</p>
+          </div>
+          <div className="bg-black/30 p-2 rounded-lg">
+            <p className="text-blue-400 font-bold">{stats.def}</p>
+            <p className="text-gray-400 text-xs">DEF</p>
+          </div>
+        </div>
+        <p className="text-gray-500 text-xs mb-4 text-center">Stats when first met in Zone {definition.minZone}</p>
+
+        <div className="space-y-2 text-sm">
+          <p className="text-gray-300">
+            <span className="text-yellow-300 font-semibold">Weak to: </span>
+            {definition.weaknesses.map(type => statusRegistry[type].name).join(', ')}
+          </p>
+          <p className="text-gray-300">
+            <span className="text-purple-300 font-semibold">Favourite topics: </span>
+            {definition.preferredCategories.join(', ')}
+          </p>
+        </div>
+
+        <div className="flex justify-around mt-4 text-sm">
+          <span className="text-gray-300 flex items-center gap-1">
+            <Eye className="w-4 h-4 text-blue-400" />
+            Encountered {record.encountered}
+          </span>
+          <span className="text-gray-300 flex items-center gap-1">
+            <Skull className="w-4 h-4 text-red-400" />
+            Defeated {record.defeated}
+          </span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-amber-900 to-stone-900 p-4 sm:p-6 rounded-lg border border-amber-500/50 max-w-6xl w-full max-h-[80vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <PawPrint className="w-6 h-6 sm:w-8 sm:h-8 text-amber-400" />
+            <div>
+              <h2 className="text-white font-bold text-lg sm:text-xl">Bestiary</h2>
+              <p className="text-amber-300 text-sm">
+                {discovered.length}/{bestiaryDefinitions.length} enemies discovered · {totalDefeated} defeated
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="lg:col-span-2 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+            {bestiaryDefinitions.map(definition => {
+              const record = bestiary[definition.id];
+              const known = !!record && record.encountered > 0;
+              return (
+                <button
+                  key={definition.id}
+                  onClick={() => known && setSelectedId(definition.id)}
+                  disabled={!known}
+                  className={`p-3 rounded-lg border-2 text-center transition-all ${
+                    selectedId === definition.id
+                      ? 'border-amber-400 bg-amber-900/40'
+                      : known
+                        ? 'border-amber-700/50 bg-black/40 hover:border-amber-500'
+                        : 'border-gray-700 bg-black/20 cursor-not-allowed'
+                  }`}
+                >
+                  <div className={`text-3xl mb-1 ${known ? '' : 'grayscale opacity-30'}`}>
+                    {bestiaryArt[definition.art] || '👾'}
+                  </div>
+                  <p className={`text-xs font-semibold ${known ? 'text-white' : 'text-gray-500'}`}>
+                    {known ? definition.name : '???'}
+                  </p>
+                  {known && (
+                    <p className="text-xs text-gray-400 flex items-center justify-center gap-1 mt-1">
+                      <Swords className="w-3 h-3" />
+                      {record.defeated}/{record.encountered}
+                    </p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <div>
+            {selected ? (
+              renderDetails(selected)
+            ) : (
+              <div className="text-center py-12 bg-black/30 rounded-lg">
+                <PawPrint className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+                <p className="text-gray-400 text-lg">Select an enemy</p>
+                <p className="text-gray-500 text-sm">Meet new foes in battle to fill the bestiary!</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
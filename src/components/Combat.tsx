@@ -1,7 +1,46 @@
-import React, { useState, useEffect } from 'react';
-import { Enemy } from '../types/game';
-import { Sword, Shield, Heart, Brain, Clock, Zap, Skull, Flame, RotateCcw, SkipForward } from 'lucide-react';
-import { TriviaQuestion, getQuestionByZone, checkAnswer } from '../utils/triviaQuestions';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { ConsumableType, Enemy, StatusEffect, StatusEffectType } from '../types/game';
+import { Sword, Shield, Heart, Brain, Clock, Zap, Skull, Flame, RotateCcw, SkipForward, Snowflake, Ban, ShieldPlus, HeartPulse, ShieldAlert, Crown } from 'lucide-react';
+import { bossAbilityInfo, bossRewardMultiplier, consumableInfo, enemyStatusAbilities, forcesHardQuestions, statusRegistry } from '../engine';
+import { TriviaQuestion, getQuestionByZone, getRandomQuestion, checkAnswer } from '../utils/triviaQuestions';
+import { createSeed, createSeededRandom, pickRandom } from '../utils/random';
+
+// Share of questions drawn from the enemy's preferred trivia categories
+const PREFERRED_CATEGORY_CHANCE = 0.6;
+
+const statusIcons: Record<StatusEffectType, { icon: typeof Skull; color: string }> = {
+  poison: { icon: Skull, color: 'text-green-400 bg-green-900/40' },
+  burn: { icon: Flame, color: 'text-orange-400 bg-orange-900/40' },
+  freeze: { icon: Snowflake, color: 'text-cyan-300 bg-cyan-900/40' },
+  stun: { icon: Ban, color: 'text-yellow-300 bg-yellow-900/40' },
+  shield: { icon: ShieldPlus, color: 'text-blue-300 bg-blue-900/40' },
+  regen: { icon: HeartPulse, color: 'text-emerald-300 bg-emerald-900/40' },
+  vulnerability: { icon: ShieldAlert, color: 'text-red-400 bg-red-900/40' }
+};
+
+const StatusIcons: React.FC<{ effects?: StatusEffect[] }> = ({ effects = [] }) => {
+  if (effects.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2 mt-3">
+      {effects.map(effect => {
+        const { icon: Icon, color } = statusIcons[effect.type];
+        const { name, description } = statusRegistry[effect.type];
+        return (
+          <span
+            key={effect.type}
+            title={`${name}: ${description}`}
+            className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold ${color}`}
+          >
+            <Icon className="w-3 h-3" />
+            {effect.type === 'shield' ? effect.amount : effect.stacks > 1 ? `x${effect.stacks}` : null}
+            <span className="text-gray-300">{effect.turns}t</span>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
 
 interface CombatProps {
   enemy: Enemy;
@@ -37,6 +76,11 @@ interface CombatProps {
     };
   };
   onUseSkipCard?: () => void;
+  consumables?: Record<ConsumableType, number>;
+  onUseConsumable?: (type: ConsumableType) => void;
+  playerStatusEffects?: StatusEffect[];
+  answerTimeMultiplier?: number; // from the active menu skill
+  removeWrongOption?: boolean;
 }
 
 export const Combat: React.FC<CombatProps> = ({ 
@@ -48,7 +92,12 @@ export const Combat: React.FC<CombatProps> = ({
   knowledgeStreak,
   hasUsedRevival = false,
   adventureSkills,
-  onUseSkipCard
+  onUseSkipCard,
+  consumables,
+  onUseConsumable,
+  playerStatusEffects = [],
+  answerTimeMultiplier = 1,
+  removeWrongOption = false
 }) => {
   const [currentQuestion, setCurrentQuestion] = useState<TriviaQuestion | null>(null);
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
@@ -59,18 +108,38 @@ export const Combat: React.FC<CombatProps> = ({
   const [timeLeft, setTimeLeft] = useState(8);
   const [showResult, setShowResult] = useState(false);
   const [lastAnswerCorrect, setLastAnswerCorrect] = useState<boolean | null>(null);
+  const [showBossIntro, setShowBossIntro] = useState(!!enemy.isBoss);
+
+  // Questions come from the encounter's own seed so a replayed save asks the same questions
+  const questionRng = useMemo(
+    () => createSeededRandom(enemy.questionSeed ?? createSeed()).next,
+    [enemy.questionSeed]
+  );
 
   // Increased time limits to make the game easier
-  const questionTime = (gameMode.current === 'blitz' || gameMode.current === 'bloodlust') ? 5 : 8;
+  const questionTime = Math.round(((gameMode.current === 'blitz' || gameMode.current === 'bloodlust') ? 5 : 8) * answerTimeMultiplier);
+
+  // Bosses with Mind Lock only ever ask hard questions; most questions come from the enemy's favourite categories
+  const drawQuestion = useCallback(() => {
+    const categories = questionRng() < PREFERRED_CATEGORY_CHANCE ? enemy.preferredCategories : undefined;
+    return forcesHardQuestions(enemy)
+      ? getRandomQuestion('hard', questionRng, categories)
+      : getQuestionByZone(enemy.zone, questionRng, categories);
+  }, [enemy, questionRng]);
 
   useEffect(() => {
-    let question = getQuestionByZone(enemy.zone);
+    setShowBossIntro(!!enemy.isBoss);
+  }, [enemy.questionSeed, enemy.isBoss]);
+
+  useEffect(() => {
+    let question = drawQuestion();
     
-    // Apply truth and lies skill effect
-    if (adventureSkills?.skillEffects.truthLiesActive && question.type === 'multiple-choice' && question.options) {
+    // Apply truth and lies skill effect (or a menu skill with the same effect)
+    const removesOption = adventureSkills?.skillEffects.truthLiesActive || removeWrongOption;
+    if (removesOption && question.type === 'multiple-choice' && question.options) {
       const correctIndex = question.correctAnswer as number;
       const wrongIndices = question.options.map((_, index) => index).filter(i => i !== correctIndex);
-      const indexToRemove = wrongIndices[Math.floor(Math.random() * wrongIndices.length)];
+      const indexToRemove = pickRandom(wrongIndices, questionRng);
       
       const newOptions = question.options.filter((_, index) => index !== indexToRemove);
       const newCorrectAnswer = correctIndex > indexToRemove ? correctIndex - 1 : correctIndex;
@@ -90,10 +159,10 @@ export const Combat: React.FC<CombatProps> = ({
     setTimeLeft(questionTime);
     setShowResult(false);
     setLastAnswerCorrect(null);
-  }, [enemy, questionTime, adventureSkills?.skillEffects.truthLiesActive]);
+  }, [enemy, questionTime, questionRng, drawQuestion, adventureSkills?.skillEffects.truthLiesActive, removeWrongOption]);
 
   useEffect(() => {
-    if (!currentQuestion || isAnswering || showResult) return;
+    if (!currentQuestion || isAnswering || showResult || showBossIntro) return;
 
     const timer = setInterval(() => {
       setTimeLeft(prev => {
@@ -106,7 +175,7 @@ export const Combat: React.FC<CombatProps> = ({
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [currentQuestion, isAnswering, showResult]);
+  }, [currentQuestion, isAnswering, showResult, showBossIntro]);
 
   const handleAnswer = (answerIndex: number | null) => {
     if (isAnswering || !currentQuestion) return;
@@ -139,7 +208,7 @@ export const Combat: React.FC<CombatProps> = ({
     setTimeout(() => {
       onAttack(isCorrect, currentQuestion.category);
       
-      const newQuestion = getQuestionByZone(enemy.zone);
+      const newQuestion = drawQuestion();
       setCurrentQuestion(newQuestion);
       setSelectedAnswer(null);
       setTypedAnswer('');
@@ -352,6 +421,45 @@ export const Combat: React.FC<CombatProps> = ({
     }
   };
 
+  if (enemy.isBoss && showBossIntro) {
+    const statusAbility = enemy.specialAbility ? enemyStatusAbilities[enemy.specialAbility] : undefined;
+    return (
+      <div className="bg-gradient-to-br from-red-900/90 via-black/90 to-purple-900/90 p-6 rounded-xl shadow-2xl border-2 border-yellow-500/60 text-center max-w-lg mx-auto">
+        <Crown className="w-12 h-12 text-yellow-400 mx-auto mb-3 animate-pulse" />
+        <p className="text-yellow-300 text-sm font-semibold uppercase tracking-wider">Boss - Zone {enemy.zone}</p>
+        <h2 className="text-2xl sm:text-3xl font-bold text-white mb-4">{enemy.name}</h2>
+        <div className="flex justify-center gap-4 mb-4 text-sm">
+          <span className="text-red-400 flex items-center gap-1"><Heart className="w-4 h-4" />{enemy.maxHp}</span>
+          <span className="text-orange-400 flex items-center gap-1"><Sword className="w-4 h-4" />{enemy.atk}</span>
+          <span className="text-blue-400 flex items-center gap-1"><Shield className="w-4 h-4" />{enemy.def}</span>
+        </div>
+        <div className="space-y-2 mb-4 text-left">
+          {(enemy.bossAbilities || []).map(ability => (
+            <div key={ability} className="bg-black/40 p-2 rounded-lg border border-red-500/30">
+              <p className="text-red-300 font-semibold text-sm">{bossAbilityInfo[ability].name}</p>
+              <p className="text-gray-300 text-xs">{bossAbilityInfo[ability].description}</p>
+            </div>
+          ))}
+          {statusAbility && (
+            <div className="bg-black/40 p-2 rounded-lg border border-purple-500/30">
+              <p className="text-purple-300 font-semibold text-sm capitalize">{enemy.specialAbility}</p>
+              <p className="text-gray-300 text-xs">{statusAbility.description}</p>
+            </div>
+          )}
+        </div>
+        <p className="text-yellow-300 text-sm mb-4">
+          {bossRewardMultiplier(enemy)}x rewards and a guaranteed item drop
+        </p>
+        <button
+          onClick={() => setShowBossIntro(false)}
+          className="px-8 py-3 bg-gradient-to-r from-red-600 to-orange-600 text-white font-bold rounded-lg hover:from-red-500 hover:to-orange-500 transition-all"
+        >
+          Fight!
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-gradient-to-br from-red-900/80 via-purple-900/80 to-black/80 p-6 rounded-xl shadow-2xl backdrop-blur-sm border border-red-500/50">
       {/* Question Section - Moved to top */}
@@ -408,6 +516,28 @@ export const Combat: React.FC<CombatProps> = ({
               </button>
             </div>
           )}
+
+          {/* Consumables from enemy drops */}
+          {consumables && onUseConsumable && (Object.keys(consumables) as ConsumableType[]).some(type => consumables[type] > 0) && (
+            <div className="mt-4 grid grid-cols-2 gap-2">
+              {(Object.keys(consumables) as ConsumableType[]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => onUseConsumable(type)}
+                  disabled={consumables[type] <= 0 || isAnswering}
+                  title={consumableInfo[type].description}
+                  className={`py-2 rounded-lg text-sm font-semibold flex items-center gap-2 justify-center transition-all ${
+                    consumables[type] > 0 && !isAnswering
+                      ? 'bg-emerald-700 text-white hover:bg-emerald-600'
+                      : 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                  }`}
+                >
+                  {type === 'health_potion' ? <Heart className="w-4 h-4" /> : <ShieldPlus className="w-4 h-4" />}
+                  {consumableInfo[type].name} ({consumables[type]})
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Result Feedback */}
@@ -450,6 +580,13 @@ export const Combat: React.FC<CombatProps> = ({
             {gameMode.current.toUpperCase()} MODE
             {gameMode.current === 'survival' && ` (+100% rewards)`}
           </span>
+
+          {gameMode.current === 'survival' && (
+            <span className="text-red-300 flex items-center gap-2 bg-red-900/30 px-3 py-1 rounded-lg">
+              {'❤️'.repeat(gameMode.survivalLives)}{'🖤'.repeat(Math.max(0, gameMode.maxSurvivalLives - gameMode.survivalLives))}
+              <span className="text-sm">{gameMode.survivalLives}/{gameMode.maxSurvivalLives} lives</span>
+            </span>
+          )}
           
           {knowledgeStreak.current > 0 && (
             <span className="text-yellow-300 flex items-center gap-2 bg-yellow-900/30 px-3 py-1 rounded-lg">
@@ -503,6 +640,7 @@ export const Combat: React.FC<CombatProps> = ({
               {playerStats.def}
             </span>
           </div>
+          <StatusIcons effects={playerStatusEffects} />
         </div>
 
         <div className="bg-black/40 p-4 rounded-xl border border-red-500/30">
@@ -527,6 +665,12 @@ export const Combat: React.FC<CombatProps> = ({
               {enemy.def}
             </span>
           </div>
+          <StatusIcons effects={enemy.statusEffects} />
+          {enemy.weaknesses && enemy.weaknesses.length > 0 && (
+            <p className="text-xs text-yellow-300 mt-2 text-center">
+              Weak to: {enemy.weaknesses.map(type => statusRegistry[type].name).join(', ')}
+            </p>
+          )}
         </div>
       </div>
 
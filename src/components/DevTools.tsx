@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
-import { Code, Coins, Gem, MapPin, TrendingUp, X, Lock, Unlock } from 'lucide-react';
+import { Code, Coins, Gem, MapPin, TrendingUp, X, Lock, Unlock, Dices } from 'lucide-react';
 
 interface DevToolsProps {
   onAddCoins: (amount: number) => void;
   onAddGems: (amount: number) => void;
   onTeleportToZone: (zone: number) => void;
   onSetExperience: (xp: number) => void;
+  randomSeed: number;
+  onSetRandomSeed: (seed: number) => void;
   onClose: () => void;
 }
 
@@ -14,6 +16,8 @@ export const DevTools: React.FC<DevToolsProps> = ({
   onAddGems,
   onTeleportToZone,
   onSetExperience,
+  randomSeed,
+  onSetRandomSeed,
   onClose
 }) => {
   const [isUnlocked, setIsUnlocked] = useState(false);
@@ -22,6 +26,7 @@ export const DevTools: React.FC<DevToolsProps> = ({
   const [gemAmount, setGemAmount] = useState('');
   const [zoneNumber, setZoneNumber] = useState('');
   const [xpAmount, setXpAmount] = useState('');
+  const [seedValue, setSeedValue] = useState('');
 
   const SECRET_CODE = 'Backspace209';
 
@@ -67,6 +72,14 @@ export const DevTools: React.FC<DevToolsProps> = ({
     }
   };
 
+  const handleSetSeed = () => {
+    const seed = parseInt(seedValue);
+    if (!isNaN(seed) && seed >= 0) {
+      onSetRandomSeed(seed);
+      setSeedValue('');
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
       <div className="bg-gradient-to-br from-gray-900 to-slate-900 p-4 sm:p-6 rounded-lg border border-gray-500/50 max-w-md w-full">
@@ -224,6 +237,31 @@ export const DevTools: React.FC<DevToolsProps> = ({
                   </button>
                 </div>
               </div>
+
+              {/* Random Seed */}
+              <div className="bg-black/30 p-4 rounded-lg">
+                <div className="flex items-center gap-2 mb-3">
+                  <Dices className="w-5 h-5 text-cyan-400" />
+                  <h4 className="text-white font-semibold">Random Seed</h4>
+                </div>
+                <p className="text-gray-400 text-xs mb-2">Current seed: <span className="text-cyan-300 font-mono">{randomSeed}</span></p>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    value={seedValue}
+                    onChange={(e) => setSeedValue(e.target.value)}
+                    placeholder="Seed to replay..."
+                    className="flex-1 p-2 bg-gray-800 text-white rounded border border-gray-600 focus:border-cyan-500 focus:outline-none text-sm"
+                  />
+                  <button
+                    onClick={handleSetSeed}
+                    disabled={!seedValue}
+                    className="px-4 py-2 bg-cyan-600 text-white rounded hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors text-sm"
+                  >
+                    Reseed
+                  </button>
+                </div>
+              </div>
             </div>
 
             {/* Warning */}
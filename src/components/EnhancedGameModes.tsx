@@ -1,15 +1,17 @@
 import React from 'react';
-import { GameMode } from '../types/game';
-import { Zap, Heart, Clock, X, Sword, Shield } from 'lucide-react';
+import { GameMode, RunSummary } from '../types/game';
+import { Zap, Clock, X, Sword, Shield, Trophy } from 'lucide-react';
 
 interface EnhancedGameModesProps {
   currentMode: GameMode;
+  bestRuns: Record<GameMode['current'], RunSummary[]>;
   onSelectMode: (mode: 'normal' | 'blitz' | 'bloodlust' | 'survival') => void;
   onClose: () => void;
 }
 
 export const EnhancedGameModes: React.FC<EnhancedGameModesProps> = ({ 
   currentMode, 
+  bestRuns,
   onSelectMode, 
   onClose 
 }) => {
@@ -44,7 +46,7 @@ export const EnhancedGameModes: React.FC<EnhancedGameModesProps> = ({
       description: 'Limited lives with double rewards',
       icon: Shield,
       color: 'green',
-      features: ['3 lives total', 'No health restoration', 'Increasing difficulty', '+100% rewards (2x multiplier)']
+      features: [`${currentMode.maxSurvivalLives} lives per run`, 'Lose a life on defeat and carry on in the same zone', 'Increasing difficulty', '+100% rewards (2x multiplier)']
     }
   ];
 
@@ -124,6 +126,37 @@ export const EnhancedGameModes: React.FC<EnhancedGameModesProps> = ({
                   ))}
                 </div>
 
+                <div className="bg-black/30 p-3 rounded-lg mb-4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Trophy className={`w-4 h-4 ${colorClasses.text}`} />
+                    <span className="text-white text-sm font-semibold">Best Runs</span>
+                  </div>
+                  {(bestRuns[mode.id] || []).length > 0 ? (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-gray-400 text-left">
+                          <th className="font-normal">#</th>
+                          <th className="font-normal">Score</th>
+                          <th className="font-normal">Zone</th>
+                          <th className="font-normal text-right">Date</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {bestRuns[mode.id].map((run, index) => (
+                          <tr key={run.endedAt.getTime()} className="text-gray-300">
+                            <td>{index + 1}</td>
+                            <td className={`font-semibold ${colorClasses.text}`}>{run.score.toLocaleString()}</td>
+                            <td>{run.startZone} → {run.zoneReached}</td>
+                            <td className="text-right">{run.endedAt.toLocaleDateString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-gray-500 text-xs">No runs finished yet</p>
+                  )}
+                </div>
+
                 <button
                   onClick={() => onSelectMode(mode.id)}
                   disabled={isSelected}
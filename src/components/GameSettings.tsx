@@ -1,17 +1,26 @@
 import React from 'react';
-import { Settings, X, Eye, Moon, Sun, Globe, Bell, BellOff, Grid3X3, Sparkles } from 'lucide-react';
-import { GameSettings as SettingsType } from '../types/game';
+import { Settings, X, Eye, Moon, Sun, Globe, Bell, BellOff, Grid3X3, Sparkles, Save } from 'lucide-react';
+import { GameState, GameSettings as SettingsType } from '../types/game';
+import { RepairReport } from '../engine';
+import { SaveSnapshot } from '../utils/saveStore';
 import { getTranslation, t } from '../utils/translations';
+import { SaveTransfer } from './SaveTransfer';
 
 interface GameSettingsProps {
   settings: SettingsType;
+  gameState: GameState;
   onUpdateSettings: (settings: Partial<SettingsType>) => void;
+  onImportSave: (restored: { state: GameState; report: RepairReport }) => boolean;
+  onListSaveSnapshots: () => Promise<SaveSnapshot[]>;
   onClose: () => void;
 }
 
 export const GameSettings: React.FC<GameSettingsProps> = ({
   settings,
+  gameState,
   onUpdateSettings,
+  onImportSave,
+  onListSaveSnapshots,
   onClose
 }) => {
   const translation = getTranslation(settings.language);
@@ -250,6 +259,24 @@ export const GameSettings: React.FC<GameSettingsProps> = ({
               </p>
             </div>
           </div>
+
+          {/* Save Data */}
+          <div className={`${settings.darkMode ? 'bg-black/30' : 'bg-gray-50'} p-4 rounded-lg border ${settings.darkMode ? 'border-gray-600/50' : 'border-gray-200'} ${settings.beautyMode ? 'glass-effect' : ''}`}>
+            <h3 className={`${settings.darkMode ? 'text-white' : 'text-gray-900'} font-bold text-lg mb-4 flex items-center gap-2`}>
+              <Save className="w-5 h-5 text-blue-400" />
+              Save Data
+            </h3>
+            <p className={`${settings.darkMode ? 'text-gray-400' : 'text-gray-600'} text-sm mb-4`}>
+              Move your progress to another device or browser
+            </p>
+
+            <SaveTransfer
+              gameState={gameState}
+              darkMode={settings.darkMode}
+              onImportSave={onImportSave}
+              onListSnapshots={onListSaveSnapshots}
+            />
+          </div>
         </div>
 
         {/* Footer */}
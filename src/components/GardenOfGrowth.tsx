@@ -1,53 +1,178 @@
-import React, { useState, useEffect } from 'react';
-import { Sprout, Droplets, Coins, X, Clock, TrendingUp, Zap } from 'lucide-react';
-import { GardenOfGrowth as GardenType } from '../types/game';
+import React, { useState } from 'react';
+import { Sprout, Droplets, Coins, X, Clock, TrendingUp, Zap, Lock, Sparkles, Gift } from 'lucide-react';
+import { FertilizerType, GardenOfGrowth as GardenType, GardenPlot, PlantSpecies } from '../types/game';
+import {
+  fertilizerInfo,
+  gardenPlotUnlocks,
+  getGrowthStage,
+  getWaterOptions,
+  HarvestYield,
+  isHarvestable,
+  isWilting,
+  plantSpecies,
+  WILT_AFTER_DRY_HOURS
+} from '../engine';
 
 interface GardenOfGrowthProps {
   garden: GardenType;
   coins: number;
-  onPlantSeed: () => boolean;
+  shinyGems: number;
+  onPlantSeed: (plotIndex: number, species: PlantSpecies) => boolean;
   onBuyWater: (hours: number) => boolean;
+  onApplyFertilizer: (plotIndex: number, type: FertilizerType) => boolean;
+  onHarvestPlot: (plotIndex: number) => HarvestYield | null;
   onClose: () => void;
 }
 
+const formatHarvest = (harvest: HarvestYield): string => {
+  const parts = Object.entries(harvest.consumables).map(([type, amount]) => `${amount}× ${type.replace(/_/g, ' ')}`);
+  if (harvest.gems > 0) parts.unshift(`${harvest.gems.toLocaleString()} gems`);
+  return parts.join(', ');
+};
+
 export const GardenOfGrowth: React.FC<GardenOfGrowthProps> = ({
   garden,
   coins,
+  shinyGems,
   onPlantSeed,
   onBuyWater,
+  onApplyFertilizer,
+  onHarvestPlot,
   onClose
 }) => {
   const [selectedWaterHours, setSelectedWaterHours] = useState(24);
+  const [harvestMessage, setHarvestMessage] = useState<string | null>(null);
 
-  const waterOptions = [
-    { hours: 24, cost: 1000, label: '1 Day' },
-    { hours: 72, cost: 2800, label: '3 Days' },
-    { hours: 168, cost: 6500, label: '1 Week' },
-    { hours: 720, cost: 25000, label: '1 Month' }
-  ];
-
-  const getGrowthStage = (cm: number) => {
-    if (cm < 5) return { stage: 'Seedling', emoji: '🌱', color: 'text-green-300' };
-    if (cm < 15) return { stage: 'Young Plant', emoji: '🌿', color: 'text-green-400' };
-    if (cm < 30) return { stage: 'Growing Plant', emoji: '🪴', color: 'text-green-500' };
-    if (cm < 50) return { stage: 'Mature Plant', emoji: '🌳', color: 'text-green-600' };
-    if (cm < 75) return { stage: 'Large Tree', emoji: '🌲', color: 'text-emerald-500' };
-    return { stage: 'Ancient Tree', emoji: '🌴', color: 'text-emerald-600' };
-  };
+  const waterOptions = getWaterOptions(garden);
+  const selectedWater = waterOptions.find(w => w.hours === selectedWaterHours);
 
-  const currentStage = getGrowthStage(garden.growthCm);
+  const wilting = isWilting(garden);
   const isWaterLow = garden.waterHoursRemaining < 12;
-  const canPlant = !garden.isPlanted && coins >= garden.seedCost;
+  const isDry = garden.waterHoursRemaining <= 0;
+  const lockedPlots = gardenPlotUnlocks.slice(garden.plots.length);
+
+  const handleHarvest = (plotIndex: number) => {
+    const harvest = onHarvestPlot(plotIndex);
+    if (harvest) setHarvestMessage(`Harvested ${formatHarvest(harvest)}!`);
+  };
+
+  const renderEmptyPlot = (plotIndex: number) => (
+    <div className="space-y-2">
+      <p className="text-green-300 text-sm text-center mb-2">Choose a seed to plant</p>
+      {(Object.keys(plantSpecies) as PlantSpecies[]).map(species => {
+        const definition = plantSpecies[species];
+        const canPlant = coins >= definition.seedCost;
+        return (
+          <button
+            key={species}
+            onClick={() => onPlantSeed(plotIndex, species)}
+            disabled={!canPlant}
+            className={`w-full p-2 rounded-lg text-left transition-all ${
+              canPlant
+                ? 'bg-green-800/40 hover:bg-green-700/50 border border-green-500/30'
+                : 'bg-gray-800/40 border border-gray-600/30 cursor-not-allowed opacity-60'
+            }`}
+          >
+            <div className="flex justify-between items-center">
+              <span className="text-white font-semibold text-sm">{definition.stages[0].emoji} {definition.name}</span>
+              <span className="text-yellow-400 text-xs flex items-center gap-1">
+                <Coins className="w-3 h-3" />
+                {definition.seedCost.toLocaleString()}
+              </span>
+            </div>
+            <p className="text-gray-300 text-xs">{definition.description}</p>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderPlantedPlot = (plot: GardenPlot, plotIndex: number, species: PlantSpecies) => {
+    const definition = plantSpecies[species];
+    const stage = wilting ? { name: 'Wilting', emoji: '🥀', color: 'text-amber-600' } : getGrowthStage(plot)!;
+    const progress = Math.min((plot.growthCm / definition.maxGrowthCm) * 100, 100);
+    const fullyGrown = plot.growthCm >= definition.maxGrowthCm;
+
+    return (
+      <div>
+        <div className="text-center mb-3">
+          <div className="text-5xl mb-1">{stage.emoji}</div>
+          <h4 className={`font-bold ${stage.color}`}>{stage.name}</h4>
+          <p className="text-gray-300 text-xs">{definition.name}</p>
+          {plot.plantedAt && <p className="text-gray-400 text-xs">Growing since {new Date(plot.plantedAt).toLocaleDateString()}</p>}
+        </div>
+
+        <div className="flex justify-between text-xs mb-1">
+          <span className="text-gray-300">{plot.growthCm.toFixed(2)}cm / {definition.maxGrowthCm}cm</span>
+          <span className="text-green-400">{progress.toFixed(1)}%</span>
+        </div>
+        <div className="w-full bg-gray-700 rounded-full h-2 mb-3">
+          <div
+            className="bg-gradient-to-r from-green-500 to-emerald-500 h-2 rounded-full transition-all duration-500"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+
+        {definition.bonus && (
+          <p className="text-blue-300 text-xs mb-2 flex items-center gap-1">
+            <Zap className="w-3 h-3" />
+            +{(plot.growthCm * definition.bonus.percentPerCm).toFixed(1)}% {definition.bonus.stat === 'all' ? 'all stats' : definition.bonus.stat.toUpperCase()}
+          </p>
+        )}
+
+        {plot.fertilizer && (
+          <p className="text-purple-300 text-xs mb-2 flex items-center gap-1">
+            <Sparkles className="w-3 h-3" />
+            {fertilizerInfo[plot.fertilizer].name}: {plot.fertilizerHoursRemaining.toFixed(1)}h left
+          </p>
+        )}
+
+        {isHarvestable(plot) ? (
+          <button
+            onClick={() => handleHarvest(plotIndex)}
+            className="w-full py-2 rounded-lg font-bold text-sm bg-gradient-to-r from-yellow-600 to-amber-500 text-white hover:from-yellow-500 hover:to-amber-400 transition-all flex items-center justify-center gap-2"
+          >
+            <Gift className="w-4 h-4" />
+            Harvest
+          </button>
+        ) : fullyGrown ? (
+          <p className="text-emerald-400 text-xs text-center font-semibold">Fully grown</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(fertilizerInfo) as FertilizerType[]).map(type => {
+              const info = fertilizerInfo[type];
+              const canAfford = shinyGems >= info.shinyGemCost;
+              return (
+                <button
+                  key={type}
+                  onClick={() => onApplyFertilizer(plotIndex, type)}
+                  disabled={!canAfford}
+                  title={info.description}
+                  className={`py-1 px-2 rounded text-xs transition-all ${
+                    canAfford
+                      ? 'bg-purple-700/60 hover:bg-purple-600/60 text-white'
+                      : 'bg-gray-700/60 text-gray-400 cursor-not-allowed'
+                  }`}
+                >
+                  {info.name} ({info.shinyGemCost}✨)
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
-      <div className="bg-gradient-to-br from-green-900 to-emerald-900 p-4 sm:p-6 rounded-lg border border-green-500/50 max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+      <div className="bg-gradient-to-br from-green-900 to-emerald-900 p-4 sm:p-6 rounded-lg border border-green-500/50 max-w-3xl w-full max-h-[80vh] overflow-y-auto">
         <div className="flex justify-between items-center mb-6">
           <div className="flex items-center gap-3">
             <Sprout className="w-6 h-6 sm:w-8 sm:h-8 text-green-400" />
             <div>
               <h2 className="text-white font-bold text-lg sm:text-xl">Garden of Growth</h2>
-              <p className="text-green-300 text-sm">Grow plants for permanent stat bonuses</p>
+              <p className="text-green-300 text-sm">Grow plants for permanent bonuses and harvests</p>
             </div>
           </div>
           <button
@@ -58,117 +183,88 @@ export const GardenOfGrowth: React.FC<GardenOfGrowthProps> = ({
           </button>
         </div>
 
-        {!garden.isPlanted ? (
-          /* Planting Section */
-          <div className="text-center">
-            <div className="bg-black/30 p-6 rounded-lg border border-green-500/30 mb-6">
-              <div className="text-6xl mb-4">🌱</div>
-              <h3 className="text-green-400 font-bold text-xl mb-2">Plant Your First Seed</h3>
-              <p className="text-white mb-4">
-                Plant a magical seed that grows even while you're offline!
-              </p>
-              
-              <div className="bg-green-900/30 p-4 rounded-lg mb-4">
-                <h4 className="text-green-300 font-semibold mb-2">How it works:</h4>
-                <div className="text-sm text-gray-300 space-y-1 text-left">
-                  <p>• Plant costs {garden.seedCost.toLocaleString()} coins (one-time)</p>
-                  <p>• Every cm of growth = +5% bonus to ALL stats (ATK, DEF, HP)</p>
-                  <p>• Grows automatically, even when offline</p>
-                  <p>• Must keep watered to continue growing</p>
-                  <p>• Water costs {garden.waterCost.toLocaleString()} coins per 24 hours</p>
-                  <p>• Maximum growth: {garden.maxGrowthCm}cm (+{garden.maxGrowthCm * 5}% bonus!)</p>
-                </div>
+        <div className="space-y-6">
+          {/* Garden Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="bg-green-900/30 p-3 rounded-lg text-center">
+              <div className="flex items-center justify-center gap-2 mb-1">
+                <TrendingUp className="w-4 h-4 text-green-400" />
+                <span className="text-green-400 font-semibold text-sm">All Stats</span>
               </div>
-
-              <div className="flex items-center justify-center gap-2 mb-4">
-                <Coins className="w-5 h-5 text-yellow-400" />
-                <span className="text-white">Your coins: {coins.toLocaleString()}</span>
+              <p className="text-white font-bold">+{garden.totalGrowthBonus.toFixed(1)}%</p>
+            </div>
+            <div className="bg-red-900/30 p-3 rounded-lg text-center">
+              <div className="flex items-center justify-center gap-2 mb-1">
+                <Zap className="w-4 h-4 text-red-400" />
+                <span className="text-red-400 font-semibold text-sm">ATK</span>
               </div>
-
-              <button
-                onClick={onPlantSeed}
-                disabled={!canPlant}
-                className={`px-6 py-3 rounded-lg font-bold transition-all ${
-                  canPlant
-                    ? 'bg-gradient-to-r from-green-600 to-green-500 text-white hover:from-green-500 hover:to-green-400'
-                    : 'bg-gray-600 text-gray-400 cursor-not-allowed'
-                }`}
-              >
-                {canPlant ? `Plant Seed (${garden.seedCost.toLocaleString()} coins)` : 'Not enough coins'}
-              </button>
+              <p className="text-white font-bold">+{garden.atkGrowthBonus.toFixed(1)}%</p>
             </div>
-          </div>
-        ) : (
-          /* Garden Management Section */
-          <div className="space-y-6">
-            {/* Plant Status */}
-            <div className="bg-black/30 p-4 rounded-lg border border-green-500/30">
-              <div className="text-center mb-4">
-                <div className="text-6xl mb-2">{currentStage.emoji}</div>
-                <h3 className={`font-bold text-xl ${currentStage.color}`}>{currentStage.stage}</h3>
-                <p className="text-gray-300 text-sm">Growing since {new Date(garden.plantedAt!).toLocaleDateString()}</p>
+            <div className="bg-purple-900/30 p-3 rounded-lg text-center">
+              <div className="flex items-center justify-center gap-2 mb-1">
+                <Sparkles className="w-4 h-4 text-purple-400" />
+                <span className="text-purple-400 font-semibold text-sm">XP</span>
               </div>
-
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                <div className="bg-green-900/30 p-3 rounded-lg text-center">
-                  <div className="flex items-center justify-center gap-2 mb-1">
-                    <TrendingUp className="w-4 h-4 text-green-400" />
-                    <span className="text-green-400 font-semibold text-sm">Growth</span>
-                  </div>
-                  <p className="text-white font-bold">{garden.growthCm.toFixed(1)}cm</p>
-                  <p className="text-xs text-gray-300">Max: {garden.maxGrowthCm}cm</p>
-                </div>
-
-                <div className="bg-blue-900/30 p-3 rounded-lg text-center">
-                  <div className="flex items-center justify-center gap-2 mb-1">
-                    <Zap className="w-4 h-4 text-blue-400" />
-                    <span className="text-blue-400 font-semibold text-sm">Stat Bonus</span>
-                  </div>
-                  <p className="text-white font-bold">+{garden.totalGrowthBonus.toFixed(1)}%</p>
-                  <p className="text-xs text-gray-300">All stats</p>
-                </div>
-
-                <div className={`p-3 rounded-lg text-center ${isWaterLow ? 'bg-red-900/30' : 'bg-blue-900/30'}`}>
-                  <div className="flex items-center justify-center gap-2 mb-1">
-                    <Droplets className={`w-4 h-4 ${isWaterLow ? 'text-red-400' : 'text-blue-400'}`} />
-                    <span className={`font-semibold text-sm ${isWaterLow ? 'text-red-400' : 'text-blue-400'}`}>Water</span>
-                  </div>
-                  <p className="text-white font-bold">{garden.waterHoursRemaining.toFixed(1)}h</p>
-                  <p className="text-xs text-gray-300">Remaining</p>
-                </div>
+              <p className="text-white font-bold">+{garden.xpGrowthBonus.toFixed(1)}%</p>
+            </div>
+            <div className={`p-3 rounded-lg text-center ${isWaterLow ? 'bg-red-900/30' : 'bg-blue-900/30'}`}>
+              <div className="flex items-center justify-center gap-2 mb-1">
+                <Droplets className={`w-4 h-4 ${isWaterLow ? 'text-red-400' : 'text-blue-400'}`} />
+                <span className={`font-semibold text-sm ${isWaterLow ? 'text-red-400' : 'text-blue-400'}`}>Water</span>
               </div>
+              <p className="text-white font-bold">{garden.waterHoursRemaining.toFixed(1)}h</p>
+            </div>
+          </div>
 
-              {/* Growth Progress Bar */}
-              <div className="mt-4">
-                <div className="flex justify-between text-sm mb-1">
-                  <span className="text-gray-300">Growth Progress</span>
-                  <span className="text-green-400">{((garden.growthCm / garden.maxGrowthCm) * 100).toFixed(1)}%</span>
-                </div>
-                <div className="w-full bg-gray-700 rounded-full h-3">
-                  <div 
-                    className="bg-gradient-to-r from-green-500 to-emerald-500 h-3 rounded-full transition-all duration-500"
-                    style={{ width: `${Math.min((garden.growthCm / garden.maxGrowthCm) * 100, 100)}%` }}
-                  />
-                </div>
+          {garden.isPlanted && isWaterLow && (
+            <div className="p-3 bg-red-900/30 rounded-lg border border-red-500/50">
+              <div className="flex items-center gap-2 mb-1">
+                <Clock className="w-4 h-4 text-red-400" />
+                <span className="text-red-400 font-semibold text-sm">
+                  {wilting ? 'Your Plants Are Wilting!' : isDry ? 'Out of Water!' : 'Water Running Low!'}
+                </span>
               </div>
+              <p className="text-red-300 text-xs">
+                {wilting
+                  ? 'They are losing growth and bonuses. Water them to save them!'
+                  : isDry
+                    ? `Growth has stopped. After ${WILT_AFTER_DRY_HOURS}h without water your plants start to wilt (${garden.hoursDry.toFixed(1)}h so far).`
+                    : 'Your plants will stop growing when water runs out.'}
+              </p>
+            </div>
+          )}
 
-              {isWaterLow && (
-                <div className="mt-4 p-3 bg-red-900/30 rounded-lg border border-red-500/50">
-                  <div className="flex items-center gap-2 mb-1">
-                    <Clock className="w-4 h-4 text-red-400" />
-                    <span className="text-red-400 font-semibold text-sm">Water Running Low!</span>
-                  </div>
-                  <p className="text-red-300 text-xs">Your plant will stop growing when water runs out.</p>
-                </div>
-              )}
+          {harvestMessage && (
+            <div className="p-3 bg-yellow-900/30 rounded-lg border border-yellow-500/50 text-yellow-300 text-sm text-center">
+              {harvestMessage}
             </div>
+          )}
 
-            {/* Water Purchase */}
+          {/* Plots */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {garden.plots.map((plot, index) => (
+              <div key={index} className="bg-black/30 p-4 rounded-lg border border-green-500/30">
+                <p className="text-gray-400 text-xs mb-2">Plot {index + 1}</p>
+                {plot.species ? renderPlantedPlot(plot, index, plot.species) : renderEmptyPlot(index)}
+              </div>
+            ))}
+            {lockedPlots.map((unlock, index) => (
+              <div key={`locked-${index}`} className="bg-black/20 p-4 rounded-lg border border-gray-600/30 flex flex-col items-center justify-center text-center">
+                <Lock className="w-8 h-8 text-gray-500 mb-2" />
+                <p className="text-gray-400 text-sm font-semibold">Plot {garden.plots.length + index + 1}</p>
+                <p className="text-gray-500 text-xs">Reach zone {unlock.zone} or prestige level {unlock.prestigeLevel}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Water Purchase */}
+          {garden.isPlanted && (
             <div className="bg-black/30 p-4 rounded-lg border border-blue-500/30">
-              <h3 className="text-blue-400 font-bold text-lg mb-4 flex items-center gap-2">
+              <h3 className="text-blue-400 font-bold text-lg mb-1 flex items-center gap-2">
                 <Droplets className="w-5 h-5" />
                 Buy Water
               </h3>
+              <p className="text-gray-300 text-xs mb-4">One supply waters every plot in the garden.</p>
 
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
                 {waterOptions.map((option) => (
@@ -197,32 +293,32 @@ export const GardenOfGrowth: React.FC<GardenOfGrowthProps> = ({
                 </div>
                 <div className="text-right">
                   <p className="text-blue-400 font-semibold">
-                    Cost: {waterOptions.find(w => w.hours === selectedWaterHours)?.cost.toLocaleString()} coins
+                    Cost: {selectedWater?.cost.toLocaleString()} coins
                   </p>
                 </div>
               </div>
 
               <button
                 onClick={() => onBuyWater(selectedWaterHours)}
-                disabled={coins < (waterOptions.find(w => w.hours === selectedWaterHours)?.cost || 0)}
+                disabled={coins < (selectedWater?.cost || 0)}
                 className={`w-full py-3 rounded-lg font-bold transition-all ${
-                  coins >= (waterOptions.find(w => w.hours === selectedWaterHours)?.cost || 0)
+                  coins >= (selectedWater?.cost || 0)
                     ? 'bg-gradient-to-r from-blue-600 to-blue-500 text-white hover:from-blue-500 hover:to-blue-400'
                     : 'bg-gray-600 text-gray-400 cursor-not-allowed'
                 }`}
               >
-                Buy Water ({waterOptions.find(w => w.hours === selectedWaterHours)?.label})
+                Buy Water ({selectedWater?.label})
               </button>
             </div>
-          </div>
-        )}
+          )}
+        </div>
 
         {/* Info Footer */}
         <div className="mt-6 text-center text-xs text-gray-400">
-          <p>💡 Your plant grows in real-time, even when you're not playing!</p>
-          <p>The Garden of Growth provides permanent stat bonuses that stack with research.</p>
+          <p>💡 Your plants grow in real-time, even when you're not playing! The first seed comes with a day of water.</p>
+          <p>Fertilizer costs shiny gems ({shinyGems} owned) and only works while the garden is watered.</p>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Sprout, BarChart3, Trophy, TrendingUp, Settings, ArrowLeft, Code, Zap, Package } from 'lucide-react';
+import { Sprout, BarChart3, Trophy, TrendingUp, Settings, ArrowLeft, Code, Zap, Package, PawPrint } from 'lucide-react';
 import { GardenOfGrowth } from './GardenOfGrowth';
 import { Statistics } from './Statistics';
 import { Achievements } from './Achievements';
@@ -8,12 +8,17 @@ import { GameSettings } from './GameSettings';
 import { DevTools } from './DevTools';
 import { Skills } from './Skills';
 import { YojefMarket } from './YojefMarket';
-import { GameState, GameSettings as SettingsType } from '../types/game';
+import { Bestiary } from './Bestiary';
+import { FertilizerType, GameState, GameSettings as SettingsType, PlantSpecies } from '../types/game';
+import { HarvestYield, plantSpecies, RepairReport } from '../engine';
+import { SaveSnapshot } from '../utils/saveStore';
 
 interface HamburgerMenuPageProps {
   gameState: GameState;
-  onPlantSeed: () => boolean;
+  onPlantSeed: (plotIndex: number, species: PlantSpecies) => boolean;
   onBuyWater: (hours: number) => boolean;
+  onApplyFertilizer: (plotIndex: number, type: FertilizerType) => boolean;
+  onHarvestPlot: (plotIndex: number) => HarvestYield | null;
   onUpgradeSkill: (skillId: string) => boolean;
   onPrestige: () => boolean;
   onUpdateSettings: (settings: Partial<SettingsType>) => void;
@@ -21,8 +26,12 @@ interface HamburgerMenuPageProps {
   onAddGems: (amount: number) => void;
   onTeleportToZone: (zone: number) => void;
   onSetExperience: (xp: number) => void;
+  onSetRandomSeed: (seed: number) => void;
+  onImportSave: (restored: { state: GameState; report: RepairReport }) => boolean;
+  onListSaveSnapshots: () => Promise<SaveSnapshot[]>;
   onRollSkill: () => boolean;
   onPurchaseRelic: (relicId: string) => boolean;
+  onBuyYojefRefresh: () => boolean;
   onBack: () => void;
 }
 
@@ -30,6 +39,8 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
   gameState,
   onPlantSeed,
   onBuyWater,
+  onApplyFertilizer,
+  onHarvestPlot,
   onUpgradeSkill,
   onPrestige,
   onUpdateSettings,
@@ -37,11 +48,15 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
   onAddGems,
   onTeleportToZone,
   onSetExperience,
+  onSetRandomSeed,
+  onImportSave,
+  onListSaveSnapshots,
   onRollSkill,
   onPurchaseRelic,
+  onBuyYojefRefresh,
   onBack
 }) => {
-  const [activeSection, setActiveSection] = useState<'garden' | 'stats' | 'achievements' | 'progression' | 'settings' | 'devtools' | 'skills' | 'yojef' | null>(null);
+  const [activeSection, setActiveSection] = useState<'garden' | 'stats' | 'achievements' | 'progression' | 'settings' | 'devtools' | 'skills' | 'yojef' | 'bestiary' | null>(null);
 
   const menuItems = [
     {
@@ -51,8 +66,10 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
       color: 'text-green-400',
       bgColor: 'from-green-900/50 to-emerald-900/50',
       borderColor: 'border-green-500/50',
-      description: 'Grow plants for permanent stat bonuses',
-      status: gameState.gardenOfGrowth.isPlanted ? `${gameState.gardenOfGrowth.growthCm.toFixed(1)}cm grown` : 'Not planted'
+      description: 'Grow plants for permanent bonuses and harvests',
+      status: gameState.gardenOfGrowth.isPlanted
+        ? `${gameState.gardenOfGrowth.plots.filter(plot => plot.species).length}/${gameState.gardenOfGrowth.plots.length} plots growing`
+        : 'Not planted'
     },
     {
       id: 'skills',
@@ -72,7 +89,17 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
       bgColor: 'from-indigo-900/50 to-purple-900/50',
       borderColor: 'border-indigo-500/50',
       description: 'Ancient relics and artifacts',
-      status: `${gameState.yojefMarket.items.length} relics available`
+      status: `${gameState.yojefMarket.items.length - gameState.yojefMarket.soldOutIds.length} relics available`
+    },
+    {
+      id: 'bestiary',
+      name: 'Bestiary',
+      icon: PawPrint,
+      color: 'text-amber-400',
+      bgColor: 'from-amber-900/50 to-stone-900/50',
+      borderColor: 'border-amber-500/50',
+      description: 'Lore, stats and weaknesses of every foe you meet',
+      status: `${Object.values(gameState.bestiary).filter(record => record.encountered > 0).length} enemies discovered`
     },
     {
       id: 'stats',
@@ -133,8 +160,11 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
           <GardenOfGrowth
             garden={gameState.gardenOfGrowth}
             coins={gameState.coins}
+            shinyGems={gameState.shinyGems}
             onPlantSeed={onPlantSeed}
             onBuyWater={onBuyWater}
+            onApplyFertilizer={onApplyFertilizer}
+            onHarvestPlot={onHarvestPlot}
             onClose={() => setActiveSection(null)}
           />
         );
@@ -151,13 +181,22 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
         return (
           <YojefMarket
             relicItems={gameState.yojefMarket.items}
+            soldOutIds={gameState.yojefMarket.soldOutIds}
             gems={gameState.gems}
             equippedRelicsCount={gameState.inventory.equippedRelics.length}
             onPurchaseRelic={onPurchaseRelic}
+            onBuyRefresh={onBuyYojefRefresh}
             onClose={() => setActiveSection(null)}
             nextRefresh={gameState.yojefMarket.nextRefresh}
           />
         );
+      case 'bestiary':
+        return (
+          <Bestiary
+            bestiary={gameState.bestiary}
+            onClose={() => setActiveSection(null)}
+          />
+        );
       case 'stats':
         return (
           <Statistics
@@ -185,7 +224,10 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
         return (
           <GameSettings
             settings={gameState.settings}
+            gameState={gameState}
             onUpdateSettings={onUpdateSettings}
+            onImportSave={onImportSave}
+            onListSaveSnapshots={onListSaveSnapshots}
             onClose={() => setActiveSection(null)}
           />
         );
@@ -196,6 +238,8 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
             onAddGems={onAddGems}
             onTeleportToZone={onTeleportToZone}
             onSetExperience={onSetExperience}
+            randomSeed={gameState.random.seed}
+            onSetRandomSeed={onSetRandomSeed}
             onClose={() => setActiveSection(null)}
           />
         );
@@ -253,7 +297,7 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
           
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
             <div className="text-center">
-              <p className="text-green-300 font-semibold text-sm">Growth</p>
+              <p className="text-green-300 font-semibold text-sm">Tallest Plant</p>
               <p className="text-white text-lg sm:text-xl font-bold">{gameState.gardenOfGrowth.growthCm.toFixed(1)}cm</p>
             </div>
             <div className="text-center">
@@ -266,16 +310,25 @@ export const HamburgerMenuPage: React.FC<HamburgerMenuPageProps> = ({
             </div>
           </div>
           
-          <div className="mt-4">
-            <div className="w-full bg-gray-700 rounded-full h-3">
-              <div 
-                className="bg-gradient-to-r from-green-500 to-emerald-500 h-3 rounded-full transition-all duration-500"
-                style={{ width: `${Math.min((gameState.gardenOfGrowth.growthCm / gameState.gardenOfGrowth.maxGrowthCm) * 100, 100)}%` }}
-              />
-            </div>
-            <p className="text-center text-gray-300 text-xs sm:text-sm mt-2">
-              Progress to maximum growth ({gameState.gardenOfGrowth.maxGrowthCm}cm)
-            </p>
+          <div className="mt-4 space-y-2">
+            {gameState.gardenOfGrowth.plots.map((plot, index) => {
+              if (!plot.species) return null;
+              const { name, maxGrowthCm } = plantSpecies[plot.species];
+              return (
+                <div key={index}>
+                  <div className="flex justify-between text-gray-300 text-xs sm:text-sm mb-1">
+                    <span>{name}</span>
+                    <span>{plot.growthCm.toFixed(1)}cm / {maxGrowthCm}cm</span>
+                  </div>
+                  <div className="w-full bg-gray-700 rounded-full h-3">
+                    <div
+                      className="bg-gradient-to-r from-green-500 to-emerald-500 h-3 rounded-full transition-all duration-500"
+                      style={{ width: `${Math.min((plot.growthCm / maxGrowthCm) * 100, 100)}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
           </div>
         </div>
       )}
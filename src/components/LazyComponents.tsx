@@ -18,4 +18,7 @@ export const LazyDevTools = lazy(() => import('./DevTools').then(module => ({ de
 export const LazySkills = lazy(() => import('./Skills').then(module => ({ default: module.Skills })));
 export const LazyYojefMarket = lazy(() => import('./YojefMarket').then(module => ({ default: module.YojefMarket })));
 export const LazyProgressionPanel = lazy(() => import('./ProgressionPanel').then(module => ({ default: module.ProgressionPanel })));
-export const LazyAdventureSkillSelection = lazy(() => import('./AdventureSkillSelection').then(module => ({ default: module.AdventureSkillSelection })));
\ No newline at end of file
+export const LazyAdventureSkillSelection = lazy(() => import('./AdventureSkillSelection').then(module => ({ default: module.AdventureSkillSelection })));
+export const LazyLootScreen = lazy(() => import('./LootScreen').then(module => ({ default: module.LootScreen })));
+export const LazyRunSummaryScreen = lazy(() => import('./RunSummaryScreen').then(module => ({ default: module.RunSummaryScreen })));
+export const LazySaveRepairReport = lazy(() => import('./SaveRepairReport').then(module => ({ default: module.SaveRepairReport })));
@@ -0,0 +1,84 @@
+import React from 'react';
+import { LootDrop } from '../types/game';
+import { RELIC_FRAGMENTS_PER_RELIC } from '../engine';
+import { Gift, Sword, Shield, Puzzle, FlaskRound, Hammer } from 'lucide-react';
+import { getRarityColor } from '../utils/gameUtils';
+
+interface LootScreenProps {
+  loot: LootDrop[];
+  relicFragments: number;
+  onForgeRelic: () => boolean;
+  onClose: () => void;
+}
+
+const getDropIcon = (kind: LootDrop['kind']) => {
+  switch (kind) {
+    case 'weapon': return <Sword className="w-6 h-6 text-orange-400" />;
+    case 'armor': return <Shield className="w-6 h-6 text-blue-400" />;
+    case 'relic_fragment': return <Puzzle className="w-6 h-6 text-amber-400" />;
+    case 'consumable': return <FlaskRound className="w-6 h-6 text-green-400" />;
+  }
+};
+
+export const LootScreen: React.FC<LootScreenProps> = ({
+  loot,
+  relicFragments,
+  onForgeRelic,
+  onClose
+}) => {
+  const canForge = relicFragments >= RELIC_FRAGMENTS_PER_RELIC;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-amber-900 to-purple-900 p-6 rounded-lg border border-amber-500/50 max-w-md w-full">
+        <div className="text-center mb-6">
+          <Gift className="w-10 h-10 text-amber-400 mx-auto mb-2" />
+          <h2 className="text-white font-bold text-2xl">Loot!</h2>
+          <p className="text-amber-300 text-sm">Your defeated foe left something behind</p>
+        </div>
+
+        <div className="space-y-2 mb-6">
+          {loot.map((drop, index) => (
+            <div key={index} className="bg-black/30 p-3 rounded-lg flex items-center gap-3">
+              {getDropIcon(drop.kind)}
+              <div className="flex-1 min-w-0">
+                <p className={`font-semibold ${drop.rarity ? getRarityColor(drop.rarity) : 'text-white'}`}>{drop.name}</p>
+                <p className="text-gray-400 text-xs capitalize">
+                  {drop.rarity ?? drop.kind.replace('_', ' ')}
+                </p>
+              </div>
+              {drop.quantity > 1 && <span className="text-white font-bold">x{drop.quantity}</span>}
+            </div>
+          ))}
+        </div>
+
+        {loot.some(drop => drop.kind === 'relic_fragment') && (
+          <div className="bg-black/30 p-3 rounded-lg mb-6 text-center">
+            <p className="text-amber-300 text-sm mb-2">
+              Relic Fragments: {relicFragments}/{RELIC_FRAGMENTS_PER_RELIC}
+            </p>
+            <button
+              onClick={onForgeRelic}
+              disabled={!canForge}
+              className={`w-full py-2 rounded-lg font-semibold text-sm flex items-center justify-center gap-2 transition-all ${
+                canForge
+                  ? 'bg-amber-600 text-white hover:bg-amber-500'
+                  : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              <Hammer className="w-4 h-4" />
+              Forge a Relic
+            </button>
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-gradient-to-r from-amber-600 to-orange-600 text-white font-bold rounded-lg hover:from-amber-500 hover:to-orange-500 transition-all"
+        >
+          Collect
+        </button>
+      </div>
+    </div>
+  );
+};
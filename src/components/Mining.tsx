@@ -1,48 +1,75 @@
-import React, { useState, useEffect } from 'react';
-import { Mining as MiningType } from '../types/game';
-import { Gem, Sparkles, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { CraftingOre, Mining as MiningType } from '../types/game';
+import { Gem, Sparkles, X, Pickaxe, Layers, Check, Coins, Bot, ArrowUpCircle } from 'lucide-react';
+import {
+  DroneProduction,
+  droneTiers,
+  getDroneCost,
+  getMiningEfficiency,
+  getNextDroneTier,
+  isLayerCleared,
+  MAX_DRONES,
+  MiningResult,
+  MINING_GRID_WIDTH,
+  oreDefinitions
+} from '../engine';
 
 interface MiningProps {
   mining: MiningType;
+  droneProduction: DroneProduction;
+  coins: number;
   gems: number;
   shinyGems: number;
-  onMineGem: (x: number, y: number) => { gems: number; shinyGems: number } | null;
+  onMineGem: (x: number, y: number) => MiningResult | null;
+  onDigNextLayer: () => boolean;
+  onBuyMiningTool: (toolId: string) => boolean;
+  onBuyDrone: () => boolean;
+  onUpgradeDrones: () => boolean;
+  onCollectDroneGems: () => boolean;
   onExchangeShinyGems: (amount: number) => boolean;
 }
 
+const craftingOres: CraftingOre[] = ['copper', 'iron', 'mithril'];
+
 export const Mining: React.FC<MiningProps> = ({ 
   mining, 
+  droneProduction,
+  coins,
   gems, 
   shinyGems, 
   onMineGem, 
+  onDigNextLayer,
+  onBuyMiningTool,
+  onBuyDrone,
+  onUpgradeDrones,
+  onCollectDroneGems,
   onExchangeShinyGems 
 }) => {
-  const [gemNode, setGemNode] = useState<{ isShiny: boolean } | null>(null);
   const [showShop, setShowShop] = useState(false);
+  const [lastFind, setLastFind] = useState<string | null>(null);
 
-  // Generate new gem node when component mounts or after mining
-  useEffect(() => {
-    if (!gemNode) {
-      const isShiny = Math.random() < 0.05; // 5% chance for shiny gem
-      setGemNode({ isShiny });
-    }
-  }, [gemNode]);
-
-  const handleCellClick = () => {
-    if (!gemNode) return;
-
-    // Mine the gem
-    const result = onMineGem(0, 0);
-    if (result) {
-      // Remove the current node
-      setGemNode(null);
-      
-      // Generate a new node after a short delay
-      setTimeout(() => {
-        const isShiny = Math.random() < 0.05;
-        setGemNode({ isShiny });
-      }, 500);
-    }
+  const efficiency = getMiningEfficiency(mining);
+  const hasLayer = mining.grid.length > 0;
+  const layerCleared = isLayerCleared(mining.grid);
+
+  const { drones } = mining;
+  const droneTier = droneTiers[drones.tier];
+  const nextDroneTier = getNextDroneTier(drones);
+  const droneCost = getDroneCost(drones);
+  const storageFull = droneProduction.capacity > 0 && droneProduction.storedGems >= droneProduction.capacity;
+
+  const handleCellClick = (x: number, y: number) => {
+    const result = onMineGem(x, y);
+    if (!result?.broken) return;
+
+    if (result.gems > 0) setLastFind(`+${result.gems} gem${result.gems === 1 ? '' : 's'}`);
+    else if (result.shinyGems > 0) setLastFind('+1 shiny gem!');
+    else if (result.ore) setLastFind(`+1 ${oreDefinitions[result.ore].name}`);
+    else setLastFind(null);
+  };
+
+  const handleDig = () => {
+    if (onDigNextLayer()) setLastFind(null);
   };
 
   const handleExchange = (amount: number) => {
@@ -59,7 +86,7 @@ export const Mining: React.FC<MiningProps> = ({
           <Gem className="w-6 h-6 sm:w-8 sm:h-8 text-purple-400" />
           <h2 className="text-xl sm:text-2xl font-bold text-white">Gem Mining</h2>
         </div>
-        <p className="text-gray-300 text-sm sm:text-base">Click the gem node to mine it!</p>
+        <p className="text-gray-300 text-sm sm:text-base">Break cells to dig out gems and ores, then descend deeper!</p>
         
         <div className="flex items-center justify-center gap-4 mt-3">
           <div className="flex items-center gap-2 text-purple-300">
@@ -73,47 +100,185 @@ export const Mining: React.FC<MiningProps> = ({
         </div>
       </div>
 
-      {/* Single Mining Node */}
+      {/* Mining Grid */}
       <div className="mb-4 sm:mb-6">
-        <h3 className="text-white font-semibold mb-3 text-center text-sm sm:text-base">Mining Node</h3>
-        <div className="flex justify-center">
-          <div
-            onClick={handleCellClick}
-            className={`w-24 h-24 sm:w-32 sm:h-32 border-4 rounded-xl transition-all duration-200 relative overflow-hidden ${
-              gemNode
-                ? gemNode.isShiny
-                  ? 'border-yellow-400 bg-gradient-to-br from-yellow-900 to-orange-900 hover:from-yellow-800 hover:to-orange-800 shadow-lg shadow-yellow-500/50 animate-pulse cursor-pointer'
-                  : 'border-purple-400 bg-gradient-to-br from-purple-900 to-indigo-900 hover:from-purple-800 hover:to-indigo-800 shadow-lg shadow-purple-500/30 cursor-pointer'
-                : 'border-gray-600 bg-gray-800 hover:bg-gray-700 cursor-pointer'
-            }`}
-          >
-            {gemNode && (
-              <div className="absolute inset-0 flex items-center justify-center">
-                {gemNode.isShiny ? (
-                  <Sparkles className="w-8 h-8 sm:w-12 sm:h-12 text-yellow-400 animate-bounce" />
-                ) : (
-                  <Gem className="w-8 h-8 sm:w-12 sm:h-12 text-purple-400" />
-                )}
-              </div>
-            )}
-            {!gemNode && (
-              <div className="absolute inset-0 flex items-center justify-center">
-                <div className="animate-spin w-6 h-6 border-2 border-gray-400 border-t-transparent rounded-full"></div>
-              </div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-white font-semibold text-sm sm:text-base flex items-center gap-2">
+            <Layers className="w-4 h-4 text-orange-400" />
+            Depth {mining.depth}
+          </h3>
+          <span className="text-gray-300 text-xs sm:text-sm flex items-center gap-1">
+            <Pickaxe className="w-4 h-4" />
+            {efficiency} hit{efficiency === 1 ? '' : 's'} per swing
+          </span>
+        </div>
+
+        {hasLayer ? (
+          <div className="grid gap-1 sm:gap-2 max-w-md mx-auto" style={{ gridTemplateColumns: `repeat(${MINING_GRID_WIDTH}, minmax(0, 1fr))` }}>
+            {mining.grid.map((row, y) =>
+              row.map((cell, x) => {
+                const definition = oreDefinitions[cell.ore];
+                const dugOut = cell.hitsLeft <= 0;
+                return (
+                  <button
+                    key={`${x}-${y}`}
+                    onClick={() => handleCellClick(x, y)}
+                    disabled={dugOut}
+                    title={dugOut ? 'Dug out' : `${definition.name} (${cell.hitsLeft}/${cell.hardness})`}
+                    className={`aspect-square rounded-lg border-2 relative flex items-center justify-center text-lg sm:text-2xl transition-all ${
+                      dugOut
+                        ? 'border-gray-800 bg-black/60 cursor-default'
+                        : `${definition.color} hover:brightness-125 cursor-pointer ${cell.ore === 'shiny_gem' ? 'animate-pulse shadow-lg shadow-yellow-500/50' : ''}`
+                    }`}
+                  >
+                    {!dugOut && definition.emoji}
+                    {!dugOut && cell.hitsLeft < cell.hardness && (
+                      <div className="absolute bottom-1 left-1 right-1 h-1 bg-gray-700 rounded-full">
+                        <div className="h-1 bg-red-400 rounded-full" style={{ width: `${(cell.hitsLeft / cell.hardness) * 100}%` }} />
+                      </div>
+                    )}
+                  </button>
+                );
+              })
             )}
           </div>
+        ) : (
+          <p className="text-center text-gray-400 text-sm py-6">The mine is waiting. Dig in to reveal the first layer!</p>
+        )}
+
+        <div className="text-center mt-4">
+          {(!hasLayer || layerCleared) && (
+            <button
+              onClick={handleDig}
+              className="px-4 py-2 bg-gradient-to-r from-orange-600 to-amber-600 text-white font-bold rounded-lg hover:from-orange-500 hover:to-amber-500 transition-all text-sm"
+            >
+              {hasLayer ? `Descend to Depth ${mining.depth + 1}` : 'Start Digging'}
+            </button>
+          )}
+          {lastFind && <p className="text-green-400 text-sm mt-2">{lastFind}</p>}
         </div>
         <div className="text-center text-gray-400 text-xs sm:text-sm mt-3 space-y-1">
-          <p>💎 Purple gems = 1 gem | ✨ Golden gems = 1 shiny gem (5% chance)</p>
-          <p>Click to mine! New gems appear automatically.</p>
-          {!gemNode && <p className="text-yellow-400">Generating new gem node...</p>}
+          <p>💎 Gems | ✨ Shiny gems | 🟠 Copper (depth 2+) | ⚙️ Iron (depth 4+) | 🔷 Mithril (depth 7+)</p>
+          <p>Clear every ore on a layer to descend. Deeper layers are harder but richer.</p>
+        </div>
+      </div>
+
+      {/* Mining Drones */}
+      <div className="bg-black/30 p-4 rounded-lg mb-4">
+        <h3 className="text-white font-semibold mb-3 text-center flex items-center justify-center gap-2">
+          <Bot className="w-4 h-4 text-cyan-400" />
+          Mining Drones
+        </h3>
+
+        <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+          <div className="bg-gray-800/50 p-2 rounded-lg">
+            <p className="text-cyan-400 text-xs font-semibold">Fleet</p>
+            <p className="text-white font-bold">{drones.count}/{MAX_DRONES}</p>
+            <p className="text-gray-400 text-xs">{droneTier.name}</p>
+          </div>
+          <div className="bg-gray-800/50 p-2 rounded-lg">
+            <p className="text-purple-400 text-xs font-semibold">Production</p>
+            <p className="text-white font-bold">{droneProduction.gemsPerHour.toFixed(1)}/h</p>
+            <p className="text-gray-400 text-xs">{(droneProduction.gemsPerHour * 24).toFixed(0)} gems/day</p>
+          </div>
+          <div className="bg-gray-800/50 p-2 rounded-lg">
+            <p className="text-yellow-400 text-xs font-semibold">Storage</p>
+            <p className="text-white font-bold">{Math.floor(droneProduction.storedGems)}/{Math.floor(droneProduction.capacity)}</p>
+            <p className="text-gray-400 text-xs">
+              {drones.count === 0 ? 'No drones' : storageFull ? 'Full!' : `Full in ${droneProduction.hoursUntilFull.toFixed(1)}h`}
+            </p>
+          </div>
+        </div>
+
+        {drones.count > 0 && (
+          <div className="w-full bg-gray-700 rounded-full h-2 mb-3">
+            <div
+              className={`h-2 rounded-full transition-all duration-500 ${storageFull ? 'bg-red-500' : 'bg-gradient-to-r from-cyan-500 to-purple-500'}`}
+              style={{ width: `${Math.min((droneProduction.storedGems / droneProduction.capacity) * 100, 100)}%` }}
+            />
+          </div>
+        )}
+        {storageFull && <p className="text-red-400 text-xs text-center mb-3">Storage is full. Drones have stopped until you collect!</p>}
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <button
+            onClick={onCollectDroneGems}
+            disabled={droneProduction.storedGems < 1}
+            className={`py-2 rounded-lg text-sm font-semibold flex items-center justify-center gap-1 transition-all ${
+              droneProduction.storedGems >= 1
+                ? 'bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-500 hover:to-indigo-500'
+                : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+            }`}
+          >
+            <Gem className="w-4 h-4" />
+            Collect {Math.floor(droneProduction.storedGems)}
+          </button>
+          <button
+            onClick={onBuyDrone}
+            disabled={drones.count >= MAX_DRONES || coins < droneCost}
+            className={`py-2 rounded-lg text-sm font-semibold flex items-center justify-center gap-1 transition-all ${
+              drones.count < MAX_DRONES && coins >= droneCost
+                ? 'bg-cyan-700 text-white hover:bg-cyan-600'
+                : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+            }`}
+          >
+            <Bot className="w-4 h-4" />
+            {drones.count >= MAX_DRONES ? 'Fleet full' : `Buy Drone (${droneCost.toLocaleString()})`}
+          </button>
+          <button
+            onClick={onUpgradeDrones}
+            disabled={!nextDroneTier || drones.count === 0 || coins < nextDroneTier.upgradeCost}
+            className={`py-2 rounded-lg text-sm font-semibold flex items-center justify-center gap-1 transition-all ${
+              nextDroneTier && drones.count > 0 && coins >= nextDroneTier.upgradeCost
+                ? 'bg-orange-700 text-white hover:bg-orange-600'
+                : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+            }`}
+          >
+            <ArrowUpCircle className="w-4 h-4" />
+            {nextDroneTier ? `${nextDroneTier.name} (${nextDroneTier.upgradeCost.toLocaleString()})` : 'Max tier'}
+          </button>
+        </div>
+        <p className="text-gray-400 text-xs text-center mt-2">Drones mine while you're away too. Offline gems arrive with your offline rewards.</p>
+      </div>
+
+      {/* Mining Tools */}
+      <div className="bg-black/30 p-4 rounded-lg mb-4">
+        <h3 className="text-white font-semibold mb-3 text-center flex items-center justify-center gap-2">
+          <Pickaxe className="w-4 h-4 text-orange-400" />
+          Mining Tools
+        </h3>
+        <div className="space-y-2">
+          {mining.tools.map(tool => (
+            <div key={tool.id} className="flex items-center justify-between bg-gray-800/50 p-2 rounded-lg">
+              <div>
+                <p className="text-white font-semibold text-sm">{tool.name} <span className="text-orange-300 text-xs">×{tool.efficiency}</span></p>
+                <p className="text-gray-400 text-xs">{tool.description}</p>
+              </div>
+              {tool.owned ? (
+                <span className="text-green-400 text-xs flex items-center gap-1"><Check className="w-4 h-4" />Owned</span>
+              ) : (
+                <button
+                  onClick={() => onBuyMiningTool(tool.id)}
+                  disabled={coins < tool.cost}
+                  className={`px-3 py-1 rounded text-xs font-semibold flex items-center gap-1 transition-all ${
+                    coins >= tool.cost
+                      ? 'bg-yellow-600 text-white hover:bg-yellow-500'
+                      : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                  }`}
+                >
+                  <Coins className="w-3 h-3" />
+                  {tool.cost.toLocaleString()}
+                </button>
+              )}
+            </div>
+          ))}
         </div>
       </div>
 
       {/* Mining Stats */}
       <div className="bg-black/30 p-4 rounded-lg mb-4">
         <h3 className="text-white font-semibold mb-3 text-center">Mining Statistics</h3>
-        <div className="grid grid-cols-2 gap-4">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
           <div className="text-center">
             <p className="text-purple-400 font-semibold">Total Gems Mined</p>
             <p className="text-white text-xl font-bold">{mining.totalGemsMined}</p>
@@ -122,6 +287,17 @@ export const Mining: React.FC<MiningProps> = ({
             <p className="text-yellow-400 font-semibold">Shiny Gems Found</p>
             <p className="text-white text-xl font-bold">{mining.totalShinyGemsMined}</p>
           </div>
+          <div className="text-center">
+            <p className="text-orange-400 font-semibold">Deepest Layer</p>
+            <p className="text-white text-xl font-bold">{mining.deepestDepth}</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap justify-center gap-4 mt-4 text-sm">
+          {craftingOres.map(ore => (
+            <span key={ore} className="text-gray-300">
+              {oreDefinitions[ore].emoji} {oreDefinitions[ore].name}: <span className="text-white font-semibold">{mining.ores[ore]}</span>
+            </span>
+          ))}
         </div>
       </div>
 
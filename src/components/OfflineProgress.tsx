@@ -76,6 +76,27 @@ export const OfflineProgress: React.FC<OfflineProgressProps> = ({
               </div>
             )}
           </div>
+
+          {offlineProgress.breakdown.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-blue-500/30">
+              <p className="text-blue-300 text-xs font-semibold mb-2">Where it came from</p>
+              <div className="space-y-1">
+                {offlineProgress.breakdown.map(entry => (
+                  <div key={entry.source} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-300">{entry.source}</span>
+                    <span className="flex gap-3">
+                      {entry.coins > 0 && <span className="text-yellow-400">+{entry.coins.toLocaleString()}</span>}
+                      {entry.gems > 0 && (
+                        <span className={entry.stored ? 'text-gray-400' : 'text-purple-400'}>
+                          +{entry.gems.toLocaleString()}{entry.stored && ' in storage'}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <button
@@ -89,7 +110,7 @@ export const OfflineProgress: React.FC<OfflineProgressProps> = ({
         </button>
 
         <div className="mt-4 text-center text-xs text-gray-400">
-          <p>Offline progress is calculated based on your research levels</p>
+          <p>Offline progress is based on your zone, research, multipliers, garden and active skill</p>
           <p>Maximum offline time: {offlineProgress.maxOfflineHours} hours</p>
         </div>
       </div>
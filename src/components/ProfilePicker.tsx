@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { SaveProfile } from '../types/game';
+import { Users, Play, Plus, Pencil, Copy, Trash2, Check, X } from 'lucide-react';
+
+interface ProfilePickerProps {
+  profiles: SaveProfile[];
+  lastProfileId: string | null;
+  onSelectProfile: (profileId: string) => void;
+  onCreateProfile: (name: string) => Promise<string>;
+  onRenameProfile: (profileId: string, name: string) => void;
+  onDuplicateProfile: (profileId: string) => void;
+  onDeleteProfile: (profileId: string) => void;
+}
+
+const formatLastPlayed = (date: Date | null): string => {
+  if (!date) return 'Never played';
+
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h ago`;
+  return date.toLocaleDateString();
+};
+
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({
+  profiles,
+  lastProfileId,
+  onSelectProfile,
+  onCreateProfile,
+  onRenameProfile,
+  onDuplicateProfile,
+  onDeleteProfile
+}) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  // Last played first, then most recently played
+  const sortedProfiles = [...profiles].sort((a, b) => {
+    if (a.id === lastProfileId) return -1;
+    if (b.id === lastProfileId) return 1;
+    return (b.lastPlayed?.getTime() ?? 0) - (a.lastPlayed?.getTime() ?? 0);
+  });
+
+  const handleCreate = async () => {
+    const name = newName.trim() || `Player ${profiles.length + 1}`;
+    setNewName('');
+    onSelectProfile(await onCreateProfile(name));
+  };
+
+  const saveRename = (profileId: string) => {
+    if (editName.trim()) {
+      onRenameProfile(profileId, editName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-4">
+      <div className="max-w-lg w-full relative z-10">
+        <div className="text-center mb-6">
+          <Users className="w-10 h-10 text-purple-400 mx-auto mb-3" />
+          <h1 className="text-2xl sm:text-3xl font-bold text-white">Who's Playing?</h1>
+          <p className="text-purple-300 text-sm mt-1">Each profile keeps its own adventure</p>
+        </div>
+
+        <div className="space-y-3 mb-6">
+          {sortedProfiles.map(profile => (
+            <div
+              key={profile.id}
+              className={`bg-black/40 p-4 rounded-lg border ${
+                profile.id === lastProfileId ? 'border-purple-400' : 'border-purple-500/30'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                  {editingId === profile.id ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && saveRename(profile.id)}
+                        maxLength={24}
+                        autoFocus
+                        className="flex-1 min-w-0 px-2 py-1 rounded bg-gray-800 border border-gray-600 text-white text-sm"
+                      />
+                      <button onClick={() => saveRename(profile.id)} className="text-green-400 hover:text-green-300">
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-white">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-white font-bold truncate">{profile.name}</p>
+                  )}
+                  <p className="text-purple-300 text-xs mt-1">
+                    Zone {profile.zone} • Level {profile.level} • {formatLastPlayed(profile.lastPlayed)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onSelectProfile(profile.id)}
+                  className="px-4 py-2 bg-gradient-to-r from-green-600 to-emerald-600 text-white font-bold rounded-lg hover:from-green-500 hover:to-emerald-500 transition-all flex items-center gap-2 text-sm"
+                >
+                  <Play className="w-4 h-4" />
+                  {profile.id === lastProfileId ? 'Continue' : 'Play'}
+                </button>
+              </div>
+
+              {confirmDeleteId === profile.id ? (
+                <div className="mt-3 flex items-center justify-between gap-2 bg-red-900/30 p-2 rounded-lg">
+                  <span className="text-red-300 text-xs">Delete this profile and its progress?</span>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setConfirmDeleteId(null)}
+                      className="px-3 py-1 bg-gray-600 text-white rounded text-xs hover:bg-gray-500"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => {
+                        onDeleteProfile(profile.id);
+                        setConfirmDeleteId(null);
+                      }}
+                      className="px-3 py-1 bg-red-600 text-white rounded text-xs font-bold hover:bg-red-500"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-3 flex gap-4 text-xs">
+                  <button
+                    onClick={() => {
+                      setEditingId(profile.id);
+                      setEditName(profile.name);
+                    }}
+                    className="text-gray-400 hover:text-white flex items-center gap-1"
+                  >
+                    <Pencil className="w-3 h-3" />
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => onDuplicateProfile(profile.id)}
+                    className="text-gray-400 hover:text-white flex items-center gap-1"
+                  >
+                    <Copy className="w-3 h-3" />
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(profile.id)}
+                    className="text-gray-400 hover:text-red-400 flex items-center gap-1"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* New profile */}
+        <div className="bg-black/40 p-4 rounded-lg border border-purple-500/30 flex gap-2">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder={`Player ${profiles.length + 1}`}
+            maxLength={24}
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-gray-800 border border-gray-600 text-white text-sm"
+          />
+          <button
+            onClick={handleCreate}
+            className="px-4 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold rounded-lg hover:from-purple-500 hover:to-indigo-500 transition-all flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            New Profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
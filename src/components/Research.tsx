@@ -0,0 +1,131 @@
+import React from 'react';
+import { ResearchBranch, ResearchSystem } from '../types/game';
+import { FlaskConical, Sword, Shield, Heart, Coins, Gem, Star, Plus } from 'lucide-react';
+
+interface ResearchProps {
+  research: ResearchSystem;
+  coins: number;
+  costMultiplier: number; // below 1 while research is discounted
+  onInvest: (coins: number) => boolean;
+  onChooseBranch: (branch: ResearchBranch) => boolean;
+}
+
+const branches: { id: ResearchBranch; name: string; perLevel: string; icon: typeof Sword; color: string }[] = [
+  { id: 'atk', name: 'Offense', perLevel: '+10 ATK', icon: Sword, color: 'text-red-400' },
+  { id: 'def', name: 'Defense', perLevel: '+10 DEF', icon: Shield, color: 'text-blue-400' },
+  { id: 'hp', name: 'Vitality', perLevel: '+20 HP', icon: Heart, color: 'text-green-400' },
+  { id: 'coins', name: 'Economics', perLevel: '+10% coins', icon: Coins, color: 'text-yellow-400' },
+  { id: 'gems', name: 'Geology', perLevel: '+5% gems', icon: Gem, color: 'text-purple-400' },
+  { id: 'xp', name: 'Learning', perLevel: '+10% XP', icon: Star, color: 'text-cyan-400' }
+];
+
+export const Research: React.FC<ResearchProps> = ({ research, coins, costMultiplier, onInvest, onChooseBranch }) => {
+  const toNextLevel = Math.ceil((research.experienceToNext - research.experience) * costMultiplier);
+
+  const investOptions = [
+    { label: '100', amount: 100 },
+    { label: '1,000', amount: 1000 },
+    { label: `Next level (${toNextLevel.toLocaleString()})`, amount: toNextLevel },
+    { label: 'All coins', amount: coins }
+  ];
+
+  const currentBonus = (branch: ResearchBranch): string => {
+    const { bonuses } = research;
+    switch (branch) {
+      case 'atk': return `+${bonuses.atk} ATK`;
+      case 'def': return `+${bonuses.def} DEF`;
+      case 'hp': return `+${bonuses.hp} HP`;
+      case 'coins': return `x${bonuses.coinMultiplier.toFixed(2)}`;
+      case 'gems': return `x${bonuses.gemMultiplier.toFixed(2)}`;
+      case 'xp': return `x${bonuses.xpMultiplier.toFixed(2)}`;
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-teal-900 via-cyan-900 to-slate-900 p-4 sm:p-6 rounded-lg shadow-2xl">
+      <div className="text-center mb-4 sm:mb-6">
+        <div className="flex items-center justify-center gap-2 mb-2">
+          <FlaskConical className="w-6 h-6 sm:w-8 sm:h-8 text-teal-400" />
+          <h2 className="text-xl sm:text-2xl font-bold text-white">Research Lab</h2>
+        </div>
+        <p className="text-gray-300 text-sm sm:text-base">Fund research with coins and choose where each breakthrough goes</p>
+      </div>
+
+      {/* Level progress */}
+      <div className="bg-black/30 p-4 rounded-lg mb-4 sm:mb-6">
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-white font-bold">Research Level {research.level}</span>
+          <span className="text-teal-300 text-sm">
+            {research.experience.toLocaleString()}/{research.experienceToNext.toLocaleString()}
+          </span>
+        </div>
+        <div className="w-full bg-gray-700 rounded-full h-3 mb-3">
+          <div
+            className="bg-gradient-to-r from-teal-500 to-cyan-500 h-3 rounded-full transition-all duration-500"
+            style={{ width: `${Math.min((research.experience / research.experienceToNext) * 100, 100)}%` }}
+          />
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {investOptions.map(({ label, amount }) => (
+            <button
+              key={label}
+              onClick={() => onInvest(amount)}
+              disabled={amount <= 0 || coins < amount}
+              className={`py-2 px-2 rounded-lg font-semibold text-xs sm:text-sm transition-all ${
+                amount > 0 && coins >= amount
+                  ? 'bg-teal-600 text-white hover:bg-teal-500'
+                  : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              <span className="flex items-center justify-center gap-1">
+                <Coins className="w-3 h-3" />
+                {label}
+              </span>
+            </button>
+          ))}
+        </div>
+        {costMultiplier < 1 && (
+          <p className="text-teal-300 text-xs mt-3 text-center font-semibold">
+            Research is {Math.round((1 - costMultiplier) * 100)}% cheaper while your skill is active!
+          </p>
+        )}
+        <p className="text-gray-400 text-xs mt-3 text-center">
+          Total invested: {research.totalSpent.toLocaleString()} coins
+        </p>
+      </div>
+
+      {/* Branches */}
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-white font-semibold text-sm sm:text-base">Branches</h3>
+        <span className={`text-sm font-semibold ${research.points > 0 ? 'text-yellow-300 animate-pulse' : 'text-gray-400'}`}>
+          {research.points} point{research.points === 1 ? '' : 's'} to spend
+        </span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {branches.map(({ id, name, perLevel, icon: Icon, color }) => (
+          <div key={id} className="bg-black/30 p-3 rounded-lg border border-teal-500/30 flex items-center gap-3">
+            <Icon className={`w-6 h-6 ${color}`} />
+            <div className="flex-1 min-w-0">
+              <p className="text-white font-semibold text-sm">
+                {name} <span className="text-gray-400 font-normal">Lv {research.branches[id]}</span>
+              </p>
+              <p className="text-gray-400 text-xs">{perLevel} per level</p>
+              <p className={`${color} text-xs font-semibold`}>{currentBonus(id)}</p>
+            </div>
+            <button
+              onClick={() => onChooseBranch(id)}
+              disabled={research.points < 1}
+              className={`p-2 rounded-lg transition-all ${
+                research.points > 0
+                  ? 'bg-teal-600 text-white hover:bg-teal-500'
+                  : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
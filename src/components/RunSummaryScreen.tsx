@@ -0,0 +1,69 @@
+import React from 'react';
+import { RunSummary } from '../types/game';
+import { Flag, Trophy, Crown, Target, Heart, MapPin } from 'lucide-react';
+
+interface RunSummaryScreenProps {
+  summary: RunSummary;
+  bestRuns: RunSummary[];
+  onClose: () => void;
+}
+
+export const RunSummaryScreen: React.FC<RunSummaryScreenProps> = ({ summary, bestRuns, onClose }) => {
+  const rank = bestRuns.findIndex(run => run.endedAt.getTime() === summary.endedAt.getTime());
+  const accuracy = summary.questionsAnswered > 0 ? Math.round((summary.correctAnswers / summary.questionsAnswered) * 100) : 0;
+
+  const tiles = [
+    { label: 'Zones', value: `${summary.startZone} → ${summary.zoneReached}`, icon: MapPin, color: 'text-green-400' },
+    { label: 'Victories', value: summary.victories, icon: Trophy, color: 'text-yellow-400' },
+    { label: 'Bosses', value: summary.bossesDefeated, icon: Crown, color: 'text-amber-400' },
+    { label: 'Accuracy', value: `${accuracy}% (${summary.correctAnswers}/${summary.questionsAnswered})`, icon: Target, color: 'text-blue-400' }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 to-red-900 p-6 rounded-lg border border-red-500/50 max-w-md w-full">
+        <div className="text-center mb-6">
+          <Flag className="w-10 h-10 text-red-400 mx-auto mb-2" />
+          <h2 className="text-white font-bold text-2xl">Run Over</h2>
+          <p className="text-red-300 text-sm capitalize">{summary.mode} mode</p>
+        </div>
+
+        <div className="bg-black/30 p-4 rounded-lg mb-4 text-center">
+          <p className="text-gray-300 text-sm">Score</p>
+          <p className="text-4xl font-bold text-yellow-400">{summary.score.toLocaleString()}</p>
+          {rank === 0 ? (
+            <p className="text-green-400 font-semibold text-sm mt-1">🏆 New best {summary.mode} run!</p>
+          ) : rank > 0 ? (
+            <p className="text-blue-300 text-sm mt-1">#{rank + 1} on your {summary.mode} best runs</p>
+          ) : null}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {tiles.map(({ label, value, icon: Icon, color }) => (
+            <div key={label} className="bg-black/30 p-3 rounded-lg">
+              <div className="flex items-center gap-2 mb-1">
+                <Icon className={`w-4 h-4 ${color}`} />
+                <span className="text-gray-400 text-xs">{label}</span>
+              </div>
+              <p className="text-white font-semibold text-sm">{value}</p>
+            </div>
+          ))}
+        </div>
+
+        {summary.mode === 'survival' && (
+          <p className="text-center text-red-300 text-sm mb-4 flex items-center justify-center gap-2">
+            <Heart className="w-4 h-4" />
+            Lives lost: {summary.livesLost}
+          </p>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-gradient-to-r from-red-600 to-orange-600 text-white font-bold rounded-lg hover:from-red-500 hover:to-orange-500 transition-all"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { RepairReport } from '../engine';
+import { Wrench, X } from 'lucide-react';
+
+interface SaveRepairReportProps {
+  report: RepairReport;
+  onClose: () => void;
+}
+
+export const SaveRepairReport: React.FC<SaveRepairReportProps> = ({
+  report,
+  onClose
+}) => {
+  if (report.issues.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-amber-900 to-gray-900 p-6 rounded-lg border border-amber-500/50 max-w-md w-full">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+            <Wrench className="w-8 h-8 text-amber-400" />
+            <div>
+              <h2 className="text-white font-bold text-xl">Save Repaired</h2>
+              <p className="text-amber-300 text-sm">
+                {report.issues.length} problem{report.issues.length === 1 ? '' : 's'} found in your save
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="bg-black/30 p-4 rounded-lg mb-6 max-h-64 overflow-y-auto">
+          <div className="space-y-2">
+            {report.issues.map((issue, index) => (
+              <div key={index} className="bg-amber-900/30 p-3 rounded-lg">
+                <p className="text-white font-semibold text-sm break-all">{issue.path}</p>
+                <p className="text-amber-300 text-xs">
+                  {issue.problem} → {issue.fix}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-gradient-to-r from-amber-600 to-orange-600 text-white font-bold rounded-lg hover:from-amber-500 hover:to-orange-500 transition-all"
+        >
+          Continue
+        </button>
+
+        <div className="mt-4 text-center text-xs text-gray-400">
+          <p>Invalid values were reset so your progress could still be loaded</p>
+        </div>
+      </div>
+    </div>
+  );
+};
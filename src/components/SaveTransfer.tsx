@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { Download, Upload, Copy, FileText, AlertTriangle, History } from 'lucide-react';
+import { GameState } from '../types/game';
+import { compareSaves, restoreGameState, RepairReport, SaveDiffEntry } from '../engine';
+import { decodeSaveFile, downloadSaveFile, encodeSaveFile, SAVE_FILE_EXTENSION } from '../utils/saveFile';
+import { readSnapshot, SaveSnapshot } from '../utils/saveStore';
+
+interface SaveTransferProps {
+  gameState: GameState;
+  darkMode: boolean;
+  onImportSave: (restored: { state: GameState; report: RepairReport }) => boolean; // false if this tab may not write
+  onListSnapshots: () => Promise<SaveSnapshot[]>;
+}
+
+interface PendingImport {
+  restored: { state: GameState; report: RepairReport };
+  diff: SaveDiffEntry[];
+}
+
+export const SaveTransfer: React.FC<SaveTransferProps> = ({
+  gameState,
+  darkMode,
+  onImportSave,
+  onListSnapshots
+}) => {
+  const [importText, setImportText] = useState('');
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [snapshots, setSnapshots] = useState<SaveSnapshot[]>([]);
+
+  useEffect(() => {
+    onListSnapshots().then(setSnapshots);
+  }, [onListSnapshots]);
+
+  const textColor = darkMode ? 'text-white' : 'text-gray-900';
+  const subTextColor = darkMode ? 'text-gray-400' : 'text-gray-600';
+
+  const handleDownload = async () => {
+    const contents = await encodeSaveFile(gameState);
+    const date = new Date().toISOString().slice(0, 10);
+    downloadSaveFile(contents, `hugoland-zone${gameState.zone}-${date}${SAVE_FILE_EXTENSION}`);
+    setMessage({ text: 'Save file downloaded.', isError: false });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(await encodeSaveFile(gameState));
+      setMessage({ text: 'Save copied to clipboard.', isError: false });
+    } catch {
+      setMessage({ text: 'Could not access the clipboard. Download the file instead.', isError: true });
+    }
+  };
+
+  // Run the save through the same load and repair path as a stored one, without applying it yet
+  const previewSave = async (readJson: () => Promise<string | null>) => {
+    setPending(null);
+    try {
+      const json = await readJson();
+      if (!json) throw new Error('This backup is no longer available.');
+
+      const restored = restoreGameState(json);
+      setPending({ restored, diff: compareSaves(gameState, restored.state) });
+      setMessage(null);
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'This save could not be read.', isError: true });
+    }
+  };
+
+  const preview = (text: string) => previewSave(() => decodeSaveFile(text));
+
+  const handleFileChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    setImportText(text);
+    await preview(text);
+  };
+
+  const confirmImport = () => {
+    if (!pending) return;
+    if (!onImportSave(pending.restored)) {
+      setMessage({ text: 'This tab is read-only. Choose Play Here first, then import.', isError: true });
+      return;
+    }
+    setPending(null);
+    setImportText('');
+    setMessage({ text: 'Save imported.', isError: false });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Export */}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <button
+          onClick={handleDownload}
+          className="flex-1 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-colors font-semibold text-sm flex items-center justify-center gap-2 beautiful-button"
+        >
+          <Download className="w-4 h-4" />
+          Export to File
+        </button>
+        <button
+          onClick={handleCopy}
+          className="flex-1 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-500 transition-colors font-semibold text-sm flex items-center justify-center gap-2 beautiful-button"
+        >
+          <Copy className="w-4 h-4" />
+          Copy Save String
+        </button>
+      </div>
+
+      {/* Import */}
+      <div>
+        <p className={`${textColor} font-semibold mb-2`}>Import a save</p>
+        <textarea
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+          placeholder="Paste a save string here..."
+          rows={3}
+          className={`w-full p-2 rounded-lg border text-xs font-mono ${
+            darkMode ? 'bg-gray-800 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+          }`}
+        />
+        <div className="flex flex-col sm:flex-row gap-2 mt-2">
+          <label className="flex-1 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-500 transition-colors font-semibold text-sm flex items-center justify-center gap-2 cursor-pointer beautiful-button">
+            <FileText className="w-4 h-4" />
+            Choose File
+            <input
+              type="file"
+              accept={`${SAVE_FILE_EXTENSION},.txt`}
+              onChange={handleFileChosen}
+              className="hidden"
+            />
+          </label>
+          <button
+            onClick={() => preview(importText)}
+            disabled={!importText.trim()}
+            className={`flex-1 py-2 rounded-lg transition-colors font-semibold text-sm flex items-center justify-center gap-2 ${
+              importText.trim()
+                ? 'bg-green-600 text-white hover:bg-green-500'
+                : 'bg-gray-700 text-gray-400 cursor-not-allowed'
+            }`}
+          >
+            <Upload className="w-4 h-4" />
+            Preview Import
+          </button>
+        </div>
+      </div>
+
+      {/* Rollback */}
+      {snapshots.length > 0 && (
+        <div>
+          <p className={`${textColor} font-semibold mb-2 flex items-center gap-2`}>
+            <History className="w-4 h-4 text-purple-400" />
+            Roll back to a backup
+          </p>
+          <div className="space-y-1">
+            {snapshots.map(snapshot => (
+              <button
+                key={snapshot.key}
+                onClick={() => previewSave(() => readSnapshot(snapshot.key))}
+                className={`w-full p-2 rounded-lg border text-left text-xs flex justify-between transition-colors ${
+                  darkMode ? 'border-gray-600 bg-gray-800/30 hover:border-gray-500' : 'border-gray-300 bg-white hover:border-gray-400'
+                }`}
+              >
+                <span className={textColor}>{snapshot.savedAt.toLocaleString()}</span>
+                <span className={subTextColor}>Zone {snapshot.zone} • {snapshot.coins.toLocaleString()} coins</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.isError ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+      )}
+
+      {/* Diff summary before overwriting */}
+      {pending && (
+        <div className={`${darkMode ? 'bg-yellow-900/20 border-yellow-500/30' : 'bg-yellow-50 border-yellow-200'} p-3 rounded-lg border`}>
+          <div className="flex items-center gap-2 mb-3">
+            <AlertTriangle className="w-5 h-5 text-yellow-400" />
+            <p className={`${textColor} font-semibold text-sm`}>This will replace your current progress</p>
+          </div>
+          <div className="grid grid-cols-3 gap-1 text-sm mb-3">
+            <span className={subTextColor}></span>
+            <span className={`${subTextColor} text-right`}>Current</span>
+            <span className={`${subTextColor} text-right`}>Imported</span>
+            {pending.diff.map(entry => (
+              <React.Fragment key={entry.label}>
+                <span className={textColor}>{entry.label}</span>
+                <span className={`${textColor} text-right`}>{entry.current.toLocaleString()}</span>
+                <span className={`text-right font-semibold ${
+                  entry.incoming > entry.current ? 'text-green-400' : entry.incoming < entry.current ? 'text-red-400' : textColor
+                }`}>
+                  {entry.incoming.toLocaleString()}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+          {pending.restored.report.issues.length > 0 && (
+            <p className="text-yellow-400 text-xs mb-3">
+              {pending.restored.report.issues.length} problem(s) in this save will be repaired on import.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPending(null)}
+              className="flex-1 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-500 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={confirmImport}
+              className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-500 transition-colors font-bold text-sm"
+            >
+              Overwrite Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
-import { SkillsSystem, MenuSkill } from '../types/game';
-import { Zap, Clock, Coins, X, Dice6, Star, TrendingUp, Package, Sparkles, Timer, Crown, Brain, Shield, Gem, Leaf, RefreshCw, Shuffle, Copy, FastForward, Compass, BarChart3, Swords, ShieldCheck, Heart, Wind, Wand2, Plus } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { SkillsSystem } from '../types/game';
+import { describeSkillEffect, skillRegistry } from '../engine';
+import { Zap, Clock, Coins, X, Dice6, Star, TrendingUp, Package, Sparkles, Timer, Crown, Brain, Shield, Gem, Leaf, RefreshCw, Copy, FastForward, Compass, BarChart3, Swords, ShieldCheck, Heart, Wind, Wand2, Plus } from 'lucide-react';
 
 interface SkillsProps {
   skills: SkillsSystem;
@@ -16,6 +17,13 @@ export const Skills: React.FC<SkillsProps> = ({
   onClose
 }) => {
   const [isRolling, setIsRolling] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the countdown live
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
 
   const handleRoll = async () => {
     setIsRolling(true);
@@ -100,40 +108,15 @@ export const Skills: React.FC<SkillsProps> = ({
     }
   };
 
-  const skillDescriptions = {
-    coin_vacuum: 'Get 15 free coins per minute of play time',
-    treasurer: 'Guarantees next chest opened is epic or better',
-    xp_surge: 'Gives 300% XP gains for 24 hours',
-    luck_gem: 'All gems mined for 1 hour are shiny gems',
-    enchanter: 'Epic+ drops have 80% chance to be enchanted',
-    time_warp: 'Get 50% more time to answer questions for 12 hours',
-    golden_touch: 'All coin rewards are doubled for 8 hours',
-    knowledge_boost: 'Knowledge streaks build 50% faster for 24 hours',
-    durability_master: 'Items lose no durability for 6 hours',
-    relic_finder: 'Next 3 Yojef Market refreshes have guaranteed legendary relics',
-    stat_amplifier: 'All stats (ATK, DEF, HP) increased by 50% for 4 hours',
-    question_master: 'See question category and difficulty before answering for 2 hours',
-    gem_magnet: 'Triple gem rewards from all sources for 3 hours',
-    streak_guardian: 'Knowledge streak cannot be broken for 1 hour',
-    revival_blessing: 'Gain 3 extra revival chances for this session',
-    zone_skipper: 'Skip directly to zone +5 without fighting',
-    item_duplicator: 'Next item found is automatically duplicated',
-    research_accelerator: 'Research costs 50% less for 6 hours',
-    garden_booster: 'Garden grows 5x faster for 2 hours',
-    market_refresh: 'Instantly refresh Yojef Market with premium items',
-    coin_multiplier: 'All coin gains are multiplied by 3x for 4 hours',
-    gem_multiplier: 'All gem gains are multiplied by 2.5x for 3 hours',
-    xp_multiplier: 'All experience gains are multiplied by 4x for 2 hours',
-    damage_boost: 'Deal 100% more damage in combat for 5 hours',
-    defense_boost: 'Take 75% less damage in combat for 6 hours',
-    health_boost: 'Maximum health increased by 200% for 8 hours',
-    speed_boost: 'Answer time increased by 100% for 3 hours',
-    luck_boost: 'All random events have 50% better outcomes for 4 hours',
-    magic_shield: 'Immune to all negative effects for 2 hours',
-    auto_heal: 'Automatically heal 25% HP every minute for 1 hour'
-  };
+  const isActiveSkillExpired = skills.activeMenuSkill && now > new Date(skills.activeMenuSkill.expiresAt);
 
-  const isActiveSkillExpired = skills.activeMenuSkill && new Date() > new Date(skills.activeMenuSkill.expiresAt);
+  const formatRemaining = (expiresAt: Date): string => {
+    const seconds = Math.max(0, Math.floor((new Date(expiresAt).getTime() - now.getTime()) / 1000));
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = seconds % 60;
+    return hours > 0 ? `${hours}h ${minutes}m ${secs}s` : `${minutes}m ${secs}s`;
+  };
   const canRoll = coins >= 100 && (!skills.activeMenuSkill || isActiveSkillExpired);
 
   return (
@@ -162,7 +145,7 @@ export const Skills: React.FC<SkillsProps> = ({
               {getSkillIcon(skills.activeMenuSkill.type)}
               <div>
                 <h3 className="text-white font-bold text-lg">{skills.activeMenuSkill.name}</h3>
-                <p className="text-gray-300 text-sm">{skills.activeMenuSkill.description}</p>
+                <p className="text-gray-300 text-sm">{describeSkillEffect(skills.activeMenuSkill)}</p>
               </div>
             </div>
             
@@ -176,7 +159,7 @@ export const Skills: React.FC<SkillsProps> = ({
                   Expires: {new Date(skills.activeMenuSkill.expiresAt).toLocaleString()}
                 </p>
                 <p className="text-gray-300 text-xs">
-                  {Math.max(0, Math.ceil((new Date(skills.activeMenuSkill.expiresAt).getTime() - Date.now()) / (1000 * 60 * 60)))} hours left
+                  {formatRemaining(skills.activeMenuSkill.expiresAt)} left
                 </p>
               </div>
             </div>
@@ -224,14 +207,14 @@ export const Skills: React.FC<SkillsProps> = ({
 
         {/* Available Skills Info */}
         <div className="bg-black/30 p-4 rounded-lg glass-effect">
-          <h3 className="text-white font-bold text-lg mb-4">Available Skills (30 Total)</h3>
+          <h3 className="text-white font-bold text-lg mb-4">Available Skills ({Object.keys(skillRegistry).length} Total)</h3>
           <div className="space-y-3 max-h-64 overflow-y-auto">
-            {Object.entries(skillDescriptions).map(([type, description]) => (
+            {Object.entries(skillRegistry).map(([type, { description }]) => (
               <div key={type} className="flex items-center gap-3">
                 {getSkillIcon(type)}
                 <div>
                   <h4 className="text-white font-semibold text-sm capitalize">
-                    {type.replace('_', ' ')}
+                    {type.replace(/_/g, ' ')}
                   </h4>
                   <p className="text-gray-300 text-xs">{description}</p>
                 </div>
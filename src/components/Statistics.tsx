@@ -1,6 +1,6 @@
 import React from 'react';
 import { Statistics as StatisticsType } from '../types/game';
-import { BarChart3, Clock, Target, Coins, Gem, Package, X, TrendingUp } from 'lucide-react';
+import { BarChart3, Clock, Target, Coins, Gem, Package, X, TrendingUp, FlaskConical, Crown, Bot } from 'lucide-react';
 
 interface StatisticsProps {
   statistics: StatisticsType;
@@ -87,7 +87,7 @@ export const Statistics: React.FC<StatisticsProps> = ({ statistics, onClose }) =
         </div>
 
         {/* Secondary Stats */}
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
           <div className="bg-black/30 p-4 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
               <Gem className="w-5 h-5 text-purple-400" />
@@ -111,6 +111,30 @@ export const Statistics: React.FC<StatisticsProps> = ({ statistics, onClose }) =
             </div>
             <p className="text-xl font-bold text-green-400">{statistics.chestsOpened}</p>
           </div>
+
+          <div className="bg-black/30 p-4 rounded-lg">
+            <div className="flex items-center gap-2 mb-2">
+              <FlaskConical className="w-5 h-5 text-teal-400" />
+              <span className="text-white font-semibold text-sm">Research Spent</span>
+            </div>
+            <p className="text-xl font-bold text-teal-400">{statistics.totalResearchSpent.toLocaleString()}</p>
+          </div>
+
+          <div className="bg-black/30 p-4 rounded-lg">
+            <div className="flex items-center gap-2 mb-2">
+              <Crown className="w-5 h-5 text-red-400" />
+              <span className="text-white font-semibold text-sm">Bosses Defeated</span>
+            </div>
+            <p className="text-xl font-bold text-red-400">{statistics.bossesDefeated}</p>
+          </div>
+
+          <div className="bg-black/30 p-4 rounded-lg">
+            <div className="flex items-center gap-2 mb-2">
+              <Bot className="w-5 h-5 text-cyan-400" />
+              <span className="text-white font-semibold text-sm">Gems from Drones</span>
+            </div>
+            <p className="text-xl font-bold text-cyan-400">{statistics.gemsFromDrones.toLocaleString()}</p>
+          </div>
         </div>
 
         {/* Category Accuracy */}
@@ -0,0 +1,57 @@
+import React, { useEffect } from 'react';
+import { UnlockNotice } from '../engine';
+import { Coins, Gem, X } from 'lucide-react';
+
+interface UnlockToastProps {
+  notice: UnlockNotice;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 4000;
+
+export const UnlockToast: React.FC<UnlockToastProps> = ({ notice, onDismiss }) => {
+  // Each toast dismisses itself; the next queued one takes its place
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notice, onDismiss]);
+
+  const isAchievement = notice.kind === 'achievement';
+
+  return (
+    <div className="fixed bottom-4 right-4 left-4 sm:left-auto z-50 sm:w-80">
+      <div className={`bg-gradient-to-r ${isAchievement ? 'from-yellow-900 to-orange-900 border-yellow-500/50' : 'from-purple-900 to-indigo-900 border-purple-500/50'} p-4 rounded-lg border shadow-2xl`}>
+        <div className="flex items-start gap-3">
+          <span className="text-3xl">{notice.icon}</span>
+          <div className="flex-1 min-w-0">
+            <p className={`${isAchievement ? 'text-yellow-300' : 'text-purple-300'} text-xs font-semibold`}>
+              {isAchievement ? 'Achievement Unlocked!' : 'New Title Earned!'}
+            </p>
+            <p className="text-white font-bold truncate">{notice.name}</p>
+            {notice.reward && (
+              <div className="flex flex-wrap gap-3 mt-1 text-sm">
+                {!!notice.reward.coins && (
+                  <span className="flex items-center gap-1 text-yellow-400">
+                    <Coins className="w-4 h-4" />+{notice.reward.coins}
+                  </span>
+                )}
+                {!!notice.reward.gems && (
+                  <span className="flex items-center gap-1 text-purple-400">
+                    <Gem className="w-4 h-4" />+{notice.reward.gems}
+                  </span>
+                )}
+                {notice.reward.special && <span className="text-green-400">{notice.reward.special}</span>}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={onDismiss}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
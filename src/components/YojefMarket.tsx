@@ -1,21 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { RelicItem } from '../types/game';
-import { Package, Gem, X, Clock, Sword, Shield } from 'lucide-react';
+import { Package, Gem, X, Clock, Sword, Shield, RefreshCw } from 'lucide-react';
+import { YOJEF_MANUAL_REFRESH_COST, YOJEF_REFRESH_MINUTES } from '../engine';
+import { getRarityBorder, getRarityColor, getRarityDisplayName } from '../utils/gameUtils';
 
 interface YojefMarketProps {
   relicItems: RelicItem[];
+  soldOutIds: string[];
   gems: number;
   equippedRelicsCount: number;
   onPurchaseRelic: (relicId: string) => boolean;
+  onBuyRefresh: () => boolean;
   onClose: () => void;
   nextRefresh: Date;
 }
 
 export const YojefMarket: React.FC<YojefMarketProps> = ({
   relicItems,
+  soldOutIds,
   gems,
   equippedRelicsCount,
   onPurchaseRelic,
+  onBuyRefresh,
   onClose,
   nextRefresh
 }) => {
@@ -81,82 +87,102 @@ export const YojefMarket: React.FC<YojefMarketProps> = ({
             <div className="flex items-center gap-2">
               <Clock className="w-5 h-5 text-yellow-400" />
               <span className="text-yellow-400 font-semibold">
-                Refresh: {minutesLeft}m {secondsLeft}s
+                {timeUntilRefresh > 0 ? `Refresh: ${minutesLeft}m ${secondsLeft}s` : 'Restocking...'}
               </span>
             </div>
           </div>
+          <button
+            onClick={onBuyRefresh}
+            disabled={gems < YOJEF_MANUAL_REFRESH_COST}
+            className={`w-full py-2 mb-3 rounded-lg font-semibold transition-all text-sm flex items-center justify-center gap-2 ${
+              gems >= YOJEF_MANUAL_REFRESH_COST
+                ? 'bg-gradient-to-r from-yellow-600 to-amber-600 text-white hover:from-yellow-500 hover:to-amber-500'
+                : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+            }`}
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh Now ({YOJEF_MANUAL_REFRESH_COST} gems)
+          </button>
           <div className="text-center">
             <p className="text-gray-300 text-sm">
               Equipped Relics: {equippedRelicsCount} | 
               <span className="text-green-400 ml-1">Unlimited relics can be equipped!</span>
             </p>
             <p className="text-blue-400 text-xs mt-1">
-              ⏰ Market refreshes every 5 minutes with new relics!
+              ⏰ Market refreshes every {YOJEF_REFRESH_MINUTES} minutes with new relics!
             </p>
           </div>
         </div>
 
         {/* Relic Grid */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-          {relicItems.map((relic) => (
-            <div
-              key={relic.id}
-              className="bg-gradient-to-br from-indigo-900/50 to-purple-900/50 p-4 rounded-lg border-2 border-indigo-500/30 hover:border-indigo-400/50 transition-all"
-            >
-              <div className="flex items-center gap-2 mb-3">
-                {relic.type === 'weapon' ? (
-                  <Sword className="w-5 h-5 text-orange-400" />
-                ) : (
-                  <Shield className="w-5 h-5 text-blue-400" />
-                )}
-                <h3 className="text-white font-bold text-sm">{relic.name}</h3>
-              </div>
-              
-              <p className="text-gray-300 text-xs mb-3">{relic.description}</p>
-              
-              <div className="space-y-2 mb-4">
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">Type:</span>
-                  <span className="text-white capitalize">{relic.type}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">Power:</span>
-                  <span className="text-white">
-                    {relic.type === 'weapon' ? `${relic.baseAtk} ATK` : `${relic.baseDef} DEF`}
-                  </span>
+          {relicItems.map((relic) => {
+            const soldOut = soldOutIds.includes(relic.id);
+            return (
+              <div
+                key={relic.id}
+                className={`bg-gradient-to-br from-indigo-900/50 to-purple-900/50 p-4 rounded-lg border-2 transition-all ${
+                  soldOut ? 'border-gray-700 opacity-50 grayscale' : `${getRarityBorder(relic.rarity)} hover:border-indigo-400/50`
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-3">
+                  {relic.type === 'weapon' ? (
+                    <Sword className="w-5 h-5 text-orange-400" />
+                  ) : (
+                    <Shield className="w-5 h-5 text-blue-400" />
+                  )}
+                  <h3 className="text-white font-bold text-sm">{relic.name}</h3>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">Level:</span>
-                  <span className="text-white">{relic.level}</span>
+                <p className={`text-xs font-semibold mb-2 ${getRarityColor(relic.rarity)}`}>{getRarityDisplayName(relic.rarity)}</p>
+                
+                <p className="text-gray-300 text-xs mb-3">{relic.description}</p>
+                
+                <div className="space-y-2 mb-4">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">Type:</span>
+                    <span className="text-white capitalize">{relic.type}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">Power:</span>
+                    <span className="text-white">
+                      {relic.type === 'weapon' ? `${relic.baseAtk} ATK` : `${relic.baseDef} DEF`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">Level:</span>
+                    <span className="text-white">{relic.level}</span>
+                  </div>
                 </div>
-              </div>
 
-              <div className="flex items-center justify-between mb-3">
-                <div className="flex items-center gap-1 text-purple-400">
-                  <Gem className="w-4 h-4" />
-                  <span className="font-bold">{relic.cost}</span>
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-1 text-purple-400">
+                    <Gem className="w-4 h-4" />
+                    <span className="font-bold">{relic.cost}</span>
+                  </div>
+                  <span className="text-xs text-gray-400">
+                    Upgrade: {relic.upgradeCost} gems
+                  </span>
                 </div>
-                <span className="text-xs text-gray-400">
-                  Upgrade: {relic.upgradeCost} gems
-                </span>
-              </div>
 
-              <button
-                onClick={() => handlePurchase(relic)}
-                disabled={gems < relic.cost}
-                className={`w-full py-2 rounded-lg font-semibold transition-all text-sm ${
-                  gems >= relic.cost
-                    ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white hover:from-indigo-500 hover:to-purple-500'
-                    : 'bg-gray-600 text-gray-400 cursor-not-allowed'
-                }`}
-              >
-                {gems >= relic.cost 
-                  ? 'Purchase & Absorb Power' 
-                  : 'Not Enough Gems'
-                }
-              </button>
-            </div>
-          ))}
+                <button
+                  onClick={() => handlePurchase(relic)}
+                  disabled={soldOut || gems < relic.cost}
+                  className={`w-full py-2 rounded-lg font-semibold transition-all text-sm ${
+                    !soldOut && gems >= relic.cost
+                      ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white hover:from-indigo-500 hover:to-purple-500'
+                      : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                  }`}
+                >
+                  {soldOut
+                    ? 'Sold Out'
+                    : gems >= relic.cost 
+                      ? 'Purchase & Absorb Power' 
+                      : 'Not Enough Gems'
+                  }
+                </button>
+              </div>
+            );
+          })}
         </div>
 
         {relicItems.length === 0 && (
@@ -171,7 +197,7 @@ export const YojefMarket: React.FC<YojefMarketProps> = ({
         <div className="mt-6 text-center text-xs text-gray-500">
           <p>The Yojef Market deals in ancient artifacts of immense power.</p>
           <p>These relics cannot be found in regular chests and hold secrets from forgotten ages.</p>
-          <p className="text-yellow-400 mt-2">🕐 Refreshes every 5 minutes with new inventory!</p>
+          <p className="text-yellow-400 mt-2">🕐 Refreshes every {YOJEF_REFRESH_MINUTES} minutes with new inventory!</p>
           <p className="text-green-400 mt-1">💪 Equip unlimited relics to absorb their combined power!</p>
         </div>
       </div>
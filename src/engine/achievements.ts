@@ -0,0 +1,89 @@
+import { Achievement, GameState, PlayerTag } from '../types/game';
+import { achievementDefinitions, checkAchievements } from '../utils/achievements';
+import { checkPlayerTags, tagDefinitions } from '../utils/playerTags';
+import { criteriaProgress } from './criteria';
+import { ActionResult } from './types';
+
+export interface UnlockNotice {
+  kind: 'achievement' | 'tag';
+  id: string;
+  name: string;
+  icon: string;
+  reward?: Achievement['reward'];
+}
+
+// Non-currency achievement rewards and what they grant
+const specialRewards: Record<string, (state: GameState) => GameState> = {
+  'Premium Access': state => ({ ...state, isPremium: true })
+};
+
+const grantReward = (state: GameState, reward: Achievement['reward']): GameState => {
+  if (!reward) return state;
+
+  let rewarded: GameState = {
+    ...state,
+    coins: state.coins + (reward.coins || 0),
+    gems: state.gems + (reward.gems || 0),
+    statistics: {
+      ...state.statistics,
+      coinsEarned: state.statistics.coinsEarned + (reward.coins || 0),
+      gemsEarned: state.statistics.gemsEarned + (reward.gems || 0)
+    }
+  };
+  if (reward.special && specialRewards[reward.special]) {
+    rewarded = specialRewards[reward.special](rewarded);
+  }
+  return rewarded;
+};
+
+// Bring achievement progress and tag unlocks up to date with the state, paying each
+// achievement's reward on the pass that unlocks it. Already-unlocked entries are never
+// re-evaluated, so running this again on its own output changes nothing. Returns the
+// same state object when nothing changed.
+export const evaluateAchievements = (state: GameState, now: Date = new Date()): ActionResult<UnlockNotice[]> => {
+  // checkAchievements writes progress onto the entries it reads, so give it copies
+  const achievements: Achievement[] = state.achievements.map(achievement => ({ ...achievement }));
+  const unlockedAchievements = checkAchievements({ ...state, achievements });
+  const unlockedTags = checkPlayerTags(state);
+
+  // Definitions with declarative criteria are settled here rather than in the switch
+  achievementDefinitions.forEach(def => {
+    const achievement = achievements.find(a => a.id === def.id);
+    if (!def.criteria || !achievement || achievement.unlocked) return;
+    const progress = criteriaProgress(state, def.id, def.criteria, now);
+    achievement.progress = Math.min(progress, achievement.maxProgress);
+    if (progress >= def.criteria.target) unlockedAchievements.push(achievement);
+  });
+  tagDefinitions.forEach(def => {
+    const tag = state.playerTags.find(t => t.id === def.id);
+    if (!def.criteria || !tag || tag.unlocked) return;
+    if (criteriaProgress(state, def.id, def.criteria, now) >= def.criteria.target) unlockedTags.push(tag);
+  });
+
+  const progressChanged = achievements.some((achievement, index) => achievement.progress !== state.achievements[index].progress);
+  if (!progressChanged && unlockedAchievements.length === 0 && unlockedTags.length === 0) {
+    return { state, result: [] };
+  }
+
+  let newState: GameState = {
+    ...state,
+    achievements: achievements.map(achievement => {
+      const unlock = unlockedAchievements.find(unlocked => unlocked.id === achievement.id);
+      return unlock ? { ...achievement, unlocked: true, unlockedAt: now, progress: unlock.maxProgress } : achievement;
+    }),
+    playerTags: state.playerTags.map((tag: PlayerTag) =>
+      unlockedTags.some(unlocked => unlocked.id === tag.id) ? { ...tag, unlocked: true, unlockedAt: now } : tag
+    )
+  };
+
+  unlockedAchievements.forEach(achievement => {
+    newState = grantReward(newState, achievement.reward);
+  });
+
+  const notices: UnlockNotice[] = [
+    ...unlockedAchievements.map(({ id, name, icon, reward }) => ({ kind: 'achievement' as const, id, name, icon, reward })),
+    ...unlockedTags.map(({ id, name, icon }) => ({ kind: 'tag' as const, id, name, icon }))
+  ];
+
+  return { state: newState, result: notices };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types/game';
+import { generateEnemy } from '../utils/gameUtils';
+import { createSeededRandom } from '../utils/random';
+import { adventureSkillRegistry } from './adventure';
+import { applyAttack } from './combat';
+import { createInitialGameState } from './state';
+import { withPlayerStats } from './stats';
+
+const now = new Date('2026-01-01T12:00:00Z');
+
+const always = (value: number) => () => value;
+
+const withSkill = (type: 'storm_call'): GameState => {
+  const seeded = createSeededRandom(1);
+  const state = withPlayerStats(createInitialGameState());
+  const { name, description } = adventureSkillRegistry[type];
+  return {
+    ...state,
+    currentEnemy: generateEnemy(1, () => seeded.next()),
+    inCombat: true,
+    adventureSkills: { ...state.adventureSkills, selectedSkill: { id: 'skill', name, description, type } }
+  };
+};
+
+describe('storm_call', () => {
+  it('stuns the enemy through its next attack', () => {
+    const struck = applyAttack(withSkill('storm_call'), true, always(0), undefined, now);
+    expect(struck.currentEnemy?.statusEffects).toEqual([{ type: 'stun', turns: 1, stacks: 1 }]);
+
+    const next = applyAttack(struck, false, always(0.99), undefined, now);
+    expect(next.combatLog).toContain(`${struck.currentEnemy?.name} is stunned and cannot attack!`);
+    expect(next.playerStats.hp).toBe(struck.playerStats.hp);
+    expect(next.currentEnemy?.statusEffects).toEqual([]);
+  });
+});
@@ -0,0 +1,422 @@
+import { AdventureSkill, AdventureSkillsState, Enemy, GameState, StatusEffect } from '../types/game';
+import { generateId } from '../utils/random';
+import { inflictOnEnemy, inflictOnPlayer } from './status';
+import { RandomSource } from './types';
+
+type AdventureSkillType = AdventureSkill['type'];
+type AdventureSkillFlag = keyof AdventureSkillsState['skillEffects'];
+
+export type AdventureSkillRarity = 'common' | 'rare' | 'epic' | 'legendary';
+
+// Relative odds of each rarity showing up in an offer
+export const adventureRarityWeights: Record<AdventureSkillRarity, number> = {
+  common: 50,
+  rare: 30,
+  epic: 15,
+  legendary: 5
+};
+
+// One step of a fight as seen by a skill hook. `damage` is what the player is about
+// to deal on a hit, or about to take on a miss.
+export interface CombatTurn {
+  state: GameState;
+  enemy: Enemy;
+  damage: number;
+  log: string[];
+  rng: RandomSource;
+}
+
+type TurnHook = (turn: CombatTurn) => CombatTurn;
+
+export interface AdventureSkillDefinition {
+  name: string;
+  description: string;
+  rarity: AdventureSkillRarity;
+  flag?: AdventureSkillFlag; // `...Active` flags are set on selection, `...Used` flags once spent
+  answerTimeMultiplier?: number;
+  onFightStart?: TurnHook; // when an enemy appears
+  onHit?: TurnHook; // before a correct answer's damage lands
+  onMiss?: TurnHook; // before the enemy's attack lands
+  onTurn?: TurnHook; // after every answer, while both sides stand
+  onDeath?: TurnHook; // when the player drops to 0 HP; restore HP to survive
+}
+
+const say = (turn: CombatTurn, message: string): CombatTurn => ({ ...turn, log: [...turn.log, message] });
+
+const heal = (turn: CombatTurn, amount: number): CombatTurn => {
+  const { playerStats } = turn.state;
+  return {
+    ...turn,
+    state: { ...turn.state, playerStats: { ...playerStats, hp: Math.min(playerStats.maxHp, playerStats.hp + amount) } }
+  };
+};
+
+const hurtEnemy = (turn: CombatTurn, amount: number): CombatTurn => ({
+  ...turn,
+  enemy: { ...turn.enemy, hp: Math.max(0, turn.enemy.hp - amount) }
+});
+
+const afflictEnemy = (turn: CombatTurn, effect: StatusEffect): CombatTurn => {
+  const log = [...turn.log];
+  const enemy = inflictOnEnemy(turn.enemy, effect, log);
+  return { ...turn, enemy, log };
+};
+
+const isUsed = (turn: CombatTurn, flag: AdventureSkillFlag): boolean => turn.state.adventureSkills.skillEffects[flag];
+
+const markUsed = (turn: CombatTurn, flag: AdventureSkillFlag): CombatTurn => ({
+  ...turn,
+  state: {
+    ...turn.state,
+    adventureSkills: {
+      ...turn.state.adventureSkills,
+      skillEffects: { ...turn.state.adventureSkills.skillEffects, [flag]: true }
+    }
+  }
+});
+
+const scaleDamage = (turn: CombatTurn, multiplier: number): CombatTurn => ({
+  ...turn,
+  damage: Math.max(turn.damage > 0 ? 1 : 0, Math.floor(turn.damage * multiplier))
+});
+
+const hpRatio = (turn: CombatTurn): number => turn.state.playerStats.hp / turn.state.playerStats.maxHp;
+
+export const adventureSkillRegistry: Record<AdventureSkillType, AdventureSkillDefinition> = {
+  risker: {
+    name: 'Risker',
+    description: 'Deal double damage, but take double damage too',
+    rarity: 'common',
+    onHit: turn => scaleDamage(turn, 2),
+    onMiss: turn => scaleDamage(turn, 2)
+  },
+  lightning_chain: {
+    name: 'Lightning Chain',
+    description: 'Correct answers have a 30% chance to chain lightning for 50% extra damage',
+    rarity: 'epic',
+    flag: 'lightningChainActive',
+    onHit: turn => turn.rng() < 0.3 ? say(scaleDamage(turn, 1.5), 'Lightning chains through your strike!') : turn
+  },
+  skip_card: {
+    name: 'Skip Card',
+    description: 'Once per adventure, skip a question and count it as correct',
+    rarity: 'common',
+    flag: 'skipCardUsed'
+  },
+  metal_shield: {
+    name: 'Metal Shield',
+    description: 'Block the first enemy attack of the adventure completely',
+    rarity: 'common',
+    flag: 'metalShieldUsed',
+    onMiss: turn => isUsed(turn, 'metalShieldUsed')
+      ? turn
+      : say(markUsed({ ...turn, damage: 0 }, 'metalShieldUsed'), 'Your Metal Shield blocks the blow!')
+  },
+  truth_lies: {
+    name: 'Truth & Lies',
+    description: 'One wrong answer is removed from every multiple-choice question',
+    rarity: 'rare',
+    flag: 'truthLiesActive'
+  },
+  ramp: {
+    name: 'Ramp',
+    description: 'Each correct answer in a row adds 15% damage',
+    rarity: 'rare',
+    flag: 'rampActive',
+    onHit: turn => scaleDamage(turn, 1 + turn.state.knowledgeStreak.current * 0.15)
+  },
+  dodge: {
+    name: 'Dodge',
+    description: 'Dodge the first enemy attack in every fight',
+    rarity: 'rare',
+    flag: 'dodgeUsed',
+    onFightStart: turn => ({
+      ...turn,
+      state: {
+        ...turn.state,
+        adventureSkills: {
+          ...turn.state.adventureSkills,
+          skillEffects: { ...turn.state.adventureSkills.skillEffects, dodgeUsed: false }
+        }
+      }
+    }),
+    onMiss: turn => isUsed(turn, 'dodgeUsed')
+      ? turn
+      : say(markUsed({ ...turn, damage: 0 }, 'dodgeUsed'), `You dodge ${turn.enemy.name}'s attack!`)
+  },
+  berserker: {
+    name: 'Berserker',
+    description: 'Deal 50% more damage while below half health',
+    rarity: 'common',
+    flag: 'berserkerActive',
+    onHit: turn => hpRatio(turn) < 0.5 ? scaleDamage(turn, 1.5) : turn
+  },
+  vampiric: {
+    name: 'Vampiric',
+    description: 'Heal for 25% of the damage you deal',
+    rarity: 'rare',
+    flag: 'vampiricActive',
+    onHit: turn => {
+      const amount = Math.floor(turn.damage * 0.25);
+      return amount > 0 ? say(heal(turn, amount), `You drain ${amount} HP!`) : turn;
+    }
+  },
+  phoenix: {
+    name: 'Phoenix',
+    description: 'Once per adventure, rise from defeat with full health',
+    rarity: 'legendary',
+    flag: 'phoenixUsed',
+    onDeath: turn => isUsed(turn, 'phoenixUsed')
+      ? turn
+      : say(markUsed(heal(turn, turn.state.playerStats.maxHp), 'phoenixUsed'), 'You rise from the ashes like a Phoenix!')
+  },
+  time_slow: {
+    name: 'Time Slow',
+    description: 'Get 50% more time to answer every question',
+    rarity: 'common',
+    flag: 'timeSlowActive',
+    answerTimeMultiplier: 1.5
+  },
+  critical_strike: {
+    name: 'Critical Strike',
+    description: 'Correct answers have a 25% chance to deal double damage',
+    rarity: 'common',
+    flag: 'criticalStrikeActive',
+    onHit: turn => turn.rng() < 0.25 ? say(scaleDamage(turn, 2), 'Critical strike!') : turn
+  },
+  shield_wall: {
+    name: 'Shield Wall',
+    description: 'Take 30% less damage from enemy attacks',
+    rarity: 'common',
+    flag: 'shieldWallActive',
+    onMiss: turn => scaleDamage(turn, 0.7)
+  },
+  poison_blade: {
+    name: 'Poison Blade',
+    description: 'Every hit poisons the enemy for 3 turns; poison stacks up to 5 times',
+    rarity: 'rare',
+    flag: 'poisonBladeActive',
+    onHit: turn => afflictEnemy(turn, { type: 'poison', turns: 3, stacks: 1 })
+  },
+  arcane_shield: {
+    name: 'Arcane Shield',
+    description: 'No single enemy attack can take more than 20% of your max HP',
+    rarity: 'epic',
+    flag: 'arcaneShieldActive',
+    onMiss: turn => {
+      const cap = Math.max(1, Math.floor(turn.state.playerStats.maxHp * 0.2));
+      return turn.damage > cap ? say({ ...turn, damage: cap }, 'Your Arcane Shield absorbs part of the blow!') : turn;
+    }
+  },
+  battle_frenzy: {
+    name: 'Battle Frenzy',
+    description: 'Deal 10% more damage for each enemy defeated this adventure (up to +100%)',
+    rarity: 'rare',
+    flag: 'battleFrenzyActive',
+    onHit: turn => scaleDamage(turn, 1 + Math.min(10, turn.state.adventureSkills.runVictories) * 0.1)
+  },
+  elemental_mastery: {
+    name: 'Elemental Mastery',
+    description: 'Your attacks ignore enemy defense',
+    rarity: 'epic',
+    flag: 'elementalMasteryActive',
+    onHit: turn => ({ ...turn, damage: turn.damage + turn.enemy.def })
+  },
+  shadow_step: {
+    name: 'Shadow Step',
+    description: 'Once per adventure, a wrong answer lets no attack through',
+    rarity: 'rare',
+    flag: 'shadowStepUsed',
+    onMiss: turn => isUsed(turn, 'shadowStepUsed')
+      ? turn
+      : say(markUsed({ ...turn, damage: 0 }, 'shadowStepUsed'), 'You Shadow Step out of harm\'s way!')
+  },
+  healing_aura: {
+    name: 'Healing Aura',
+    description: 'Heal 5% of your max HP after every answer',
+    rarity: 'common',
+    flag: 'healingAuraActive',
+    onTurn: turn => turn.state.playerStats.hp < turn.state.playerStats.maxHp
+      ? heal(turn, Math.max(1, Math.floor(turn.state.playerStats.maxHp * 0.05)))
+      : turn
+  },
+  double_strike: {
+    name: 'Double Strike',
+    description: 'Every hit strikes twice, the second blow at half strength',
+    rarity: 'epic',
+    flag: 'doubleStrikeActive',
+    onHit: turn => say(scaleDamage(turn, 1.5), 'You strike twice!')
+  },
+  mana_shield: {
+    name: 'Mana Shield',
+    description: 'Start every fight behind a shield that absorbs 20 + 5 per zone damage',
+    rarity: 'rare',
+    flag: 'manaShieldActive',
+    onFightStart: turn => {
+      const log = [...turn.log];
+      const amount = 20 + turn.state.zone * 5;
+      const state = inflictOnPlayer(turn.state, { type: 'shield', turns: 10, stacks: 1, amount }, log);
+      return { ...turn, state, log };
+    }
+  },
+  berserk_rage: {
+    name: 'Berserk Rage',
+    description: 'Deal up to double damage the lower your health gets',
+    rarity: 'epic',
+    flag: 'berserkRageActive',
+    onHit: turn => scaleDamage(turn, 2 - hpRatio(turn))
+  },
+  divine_protection: {
+    name: 'Divine Protection',
+    description: 'Once per adventure, a blow that would defeat you is negated',
+    rarity: 'legendary',
+    flag: 'divineProtectionUsed',
+    onMiss: turn => isUsed(turn, 'divineProtectionUsed') || turn.damage < turn.state.playerStats.hp
+      ? turn
+      : say(markUsed({ ...turn, damage: 0 }, 'divineProtectionUsed'), 'Divine Protection shields you from a fatal blow!')
+  },
+  storm_call: {
+    name: 'Storm Call',
+    description: 'After every answer, 20% chance that lightning strikes the enemy for 10% of its max HP and stuns it',
+    rarity: 'epic',
+    flag: 'stormCallActive',
+    onTurn: turn => {
+      if (turn.rng() >= 0.2) return turn;
+      const amount = Math.max(1, Math.floor(turn.enemy.maxHp * 0.1));
+      const struck = say(hurtEnemy(turn, amount), `A storm strikes ${turn.enemy.name} for ${amount} damage!`);
+      return afflictEnemy(struck, { type: 'stun', turns: 1, stacks: 1 });
+    }
+  },
+  blood_pact: {
+    name: 'Blood Pact',
+    description: 'Deal 75% more damage, but every hit costs 3% of your max HP',
+    rarity: 'rare',
+    flag: 'bloodPactActive',
+    onHit: turn => {
+      const { playerStats } = turn.state;
+      const cost = Math.max(1, Math.floor(playerStats.maxHp * 0.03));
+      const paid = { ...turn.state, playerStats: { ...playerStats, hp: Math.max(1, playerStats.hp - cost) } };
+      return scaleDamage({ ...turn, state: paid }, 1.75);
+    }
+  },
+  frost_armor: {
+    name: 'Frost Armor',
+    description: 'Take 20% less damage, and attackers take 15% of the blow as frostbite with a 25% chance to freeze',
+    rarity: 'epic',
+    flag: 'frostArmorActive',
+    onMiss: turn => {
+      const frostbite = Math.floor(turn.damage * 0.15);
+      let chilled = scaleDamage(turn, 0.8);
+      if (frostbite > 0) {
+        chilled = say(hurtEnemy(chilled, frostbite), `Frost Armor bites ${turn.enemy.name} for ${frostbite} damage!`);
+      }
+      return turn.rng() < 0.25 ? afflictEnemy(chilled, { type: 'freeze', turns: 2, stacks: 1 }) : chilled;
+    }
+  },
+  fireball: {
+    name: 'Fireball',
+    description: 'Open every fight with a fireball dealing 25% of the enemy\'s max HP and setting it alight',
+    rarity: 'epic',
+    flag: 'fireballActive',
+    onFightStart: turn => {
+      const amount = Math.max(1, Math.floor(turn.enemy.maxHp * 0.25));
+      const scorched = say(hurtEnemy(turn, amount), `Your fireball scorches ${turn.enemy.name} for ${amount} damage!`);
+      return afflictEnemy(scorched, { type: 'burn', turns: 3, stacks: 1 });
+    }
+  }
+};
+
+const adventureSkillTypes = Object.keys(adventureSkillRegistry) as AdventureSkillType[];
+
+export const createAdventureSkillEffects = (): AdventureSkillsState['skillEffects'] => ({
+  skipCardUsed: false,
+  metalShieldUsed: false,
+  dodgeUsed: false,
+  truthLiesActive: false,
+  lightningChainActive: false,
+  rampActive: false,
+  berserkerActive: false,
+  vampiricActive: false,
+  phoenixUsed: false,
+  timeSlowActive: false,
+  criticalStrikeActive: false,
+  shieldWallActive: false,
+  poisonBladeActive: false,
+  arcaneShieldActive: false,
+  battleFrenzyActive: false,
+  elementalMasteryActive: false,
+  shadowStepUsed: false,
+  healingAuraActive: false,
+  doubleStrikeActive: false,
+  manaShieldActive: false,
+  berserkRageActive: false,
+  divineProtectionUsed: false,
+  stormCallActive: false,
+  bloodPactActive: false,
+  frostArmorActive: false,
+  fireballActive: false
+});
+
+// Draw `count` different skills, each weighted by its rarity
+export const rollAdventureSkills = (rng: RandomSource, count: number = 3): AdventureSkill[] => {
+  const pool = [...adventureSkillTypes];
+  const offered: AdventureSkill[] = [];
+
+  while (offered.length < count && pool.length > 0) {
+    const weights = pool.map(type => adventureRarityWeights[adventureSkillRegistry[type].rarity]);
+    const random = rng() * weights.reduce((sum, weight) => sum + weight, 0);
+    let cumulative = 0;
+    let index = 0;
+    while (index < pool.length - 1 && random >= cumulative + weights[index]) {
+      cumulative += weights[index];
+      index++;
+    }
+
+    const [type] = pool.splice(index, 1);
+    const { name, description } = adventureSkillRegistry[type];
+    offered.push({ id: generateId(rng), name, description, type });
+  }
+
+  return offered;
+};
+
+// A new adventure begins with no skill picked and no offer made yet
+export const needsAdventureSkillOffer = (state: GameState): boolean =>
+  !state.adventureSkills.selectedSkill && state.adventureSkills.availableSkills.length === 0;
+
+export const offerAdventureSkills = (state: GameState, rng: RandomSource): GameState => ({
+  ...state,
+  adventureSkills: {
+    ...state.adventureSkills,
+    availableSkills: rollAdventureSkills(rng),
+    showSelectionModal: true
+  }
+});
+
+// Run the selected skill's hook for this trigger, if it has one
+export const runAdventureHook = (
+  trigger: 'onFightStart' | 'onHit' | 'onMiss' | 'onTurn' | 'onDeath',
+  turn: CombatTurn
+): CombatTurn => {
+  const selected = turn.state.adventureSkills.selectedSkill;
+  const hook = selected ? adventureSkillRegistry[selected.type]?.[trigger] : undefined;
+  return hook ? hook(turn) : turn;
+};
+
+export const adventureAnswerTimeMultiplier = (state: GameState): number => {
+  const selected = state.adventureSkills.selectedSkill;
+  return (selected && adventureSkillRegistry[selected.type]?.answerTimeMultiplier) || 1;
+};
+
+// The run is over: clear the skill and its effects so the next adventure starts with a fresh offer
+export const endAdventureRun = (state: GameState): GameState => ({
+  ...state,
+  adventureSkills: {
+    ...state.adventureSkills,
+    selectedSkill: null,
+    availableSkills: [],
+    showSelectionModal: false,
+    skillEffects: createAdventureSkillEffects(),
+    runVictories: 0
+  }
+});
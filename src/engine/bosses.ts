@@ -0,0 +1,58 @@
+import { BossAbility, Enemy } from '../types/game';
+import { isMajorBossZone } from '../utils/gameUtils';
+import { inflictOnEnemy } from './status';
+
+export const bossAbilityInfo: Record<BossAbility, { name: string; description: string }> = {
+  enrage: { name: 'Enrage', description: 'Attacks 50% harder once below 30% HP' },
+  shield_phases: { name: 'Shield Phases', description: 'Raises a shield at 2/3 and 1/3 HP' },
+  hard_questions: { name: 'Mind Lock', description: 'Only asks hard questions' },
+  streak_steal: { name: 'Streak Thief', description: 'Steals your streak on every hit, healing 3% HP per point' }
+};
+
+const ENRAGE_THRESHOLD = 0.3;
+const ENRAGE_ATK_MULTIPLIER = 1.5;
+const SHIELD_PHASE_THRESHOLDS = [2 / 3, 1 / 3];
+const SHIELD_PHASE_PERCENT = 15; // of max HP
+const STREAK_STEAL_HEAL_PERCENT = 3; // of max HP per streak point
+
+const hasAbility = (enemy: Enemy, ability: BossAbility): boolean => !!enemy.bossAbilities?.includes(ability);
+
+export const forcesHardQuestions = (enemy: Enemy): boolean => hasAbility(enemy, 'hard_questions');
+
+// Reward multiplier for coins, gems and XP
+export const bossRewardMultiplier = (enemy: Enemy): number => {
+  if (!enemy.isBoss) return 1;
+  return isMajorBossZone(enemy.zone) ? 5 : 3;
+};
+
+// Trigger HP-based phases once the boss has taken its damage for the turn
+export const applyBossPhases = (enemy: Enemy, log: string[]): Enemy => {
+  if (!enemy.isBoss || enemy.hp <= 0) return enemy;
+  let boss = enemy;
+
+  if (hasAbility(boss, 'enrage') && !boss.isEnraged && boss.hp < boss.maxHp * ENRAGE_THRESHOLD) {
+    boss = { ...boss, isEnraged: true, atk: Math.floor(boss.atk * ENRAGE_ATK_MULTIPLIER) };
+    log.push(`${boss.name} flies into a rage!`);
+  }
+
+  if (hasAbility(boss, 'shield_phases')) {
+    let used = boss.shieldPhasesUsed || 0;
+    while (used < SHIELD_PHASE_THRESHOLDS.length && boss.hp <= boss.maxHp * SHIELD_PHASE_THRESHOLDS[used]) {
+      used++;
+      const amount = Math.floor(boss.maxHp * SHIELD_PHASE_PERCENT / 100);
+      boss = inflictOnEnemy({ ...boss, shieldPhasesUsed: used }, { type: 'shield', turns: 10, stacks: 1, amount }, log);
+    }
+  }
+
+  return boss;
+};
+
+// A streak-stealing boss turns the player's lost streak into health
+export const stealStreak = (enemy: Enemy, streak: number, log: string[]): Enemy => {
+  if (!hasAbility(enemy, 'streak_steal') || streak <= 0) return enemy;
+  const hp = Math.min(enemy.maxHp, enemy.hp + Math.floor(enemy.maxHp * STREAK_STEAL_HEAL_PERCENT * streak / 100));
+  log.push(hp > enemy.hp
+    ? `${enemy.name} steals your ${streak}-answer streak and heals ${hp - enemy.hp} HP!`
+    : `${enemy.name} steals your ${streak}-answer streak!`);
+  return { ...enemy, hp };
+};
@@ -0,0 +1,291 @@
+import { BestiaryRecord, Enemy, GameState } from '../types/game';
+import { generateEnemy } from '../utils/gameUtils';
+import { deriveSeed } from '../utils/random';
+import { endAdventureRun, needsAdventureSkillOffer, offerAdventureSkills, runAdventureHook } from './adventure';
+import { applyBossPhases, bossRewardMultiplier, stealStreak } from './bosses';
+import { dropLoot } from './drops';
+import { activeSkillEffects, consumeSkillCharge } from './modifiers';
+import { grantExperience } from './progression';
+import { endRun, loseSurvivalLife, startRun } from './runs';
+import { calculatePlayerStats, reduceDurability } from './stats';
+import {
+  absorbIncomingDamage,
+  enemyStatusAbilities,
+  inflictOnEnemy,
+  inflictOnPlayer,
+  outgoingDamageMultiplier,
+  rollWeaponEnchantment,
+  settleStatusEffects,
+  tickStatusEffects
+} from './status';
+import { RandomSource } from './types';
+
+// Count an encounter or a defeat against the enemy's bestiary entry
+const recordBestiary = (state: GameState, enemy: Enemy, field: keyof BestiaryRecord): GameState => {
+  if (!enemy.bestiaryId) return state;
+  const record = state.bestiary[enemy.bestiaryId] || { encountered: 0, defeated: 0 };
+  return { ...state, bestiary: { ...state.bestiary, [enemy.bestiaryId]: { ...record, [field]: record[field] + 1 } } };
+};
+
+export const startCombat = (state: GameState, rng: RandomSource, now: Date = new Date()): GameState => {
+  state = startRun(state, now);
+
+  // A fresh adventure opens with a choice of skills; the fight starts once one is picked or skipped
+  if (needsAdventureSkillOffer(state)) return offerAdventureSkills(state, rng);
+
+  const enemy = {
+    ...generateEnemy(state.zone, rng),
+    questionSeed: deriveSeed(rng)
+  };
+
+  const opening = runAdventureHook('onFightStart', {
+    state: recordBestiary({ ...state, playerStatusEffects: [], lastLoot: [] }, enemy, 'encountered'),
+    enemy,
+    damage: 0,
+    log: [enemy.isBoss ? `A boss blocks the way: ${enemy.name} guards Zone ${enemy.zone}!` : `You encounter ${enemy.name} in Zone ${enemy.zone}!`],
+    rng
+  });
+
+  return {
+    ...opening.state,
+    currentEnemy: opening.enemy,
+    inCombat: true,
+    combatLog: opening.log
+  };
+};
+
+// Resolve one answered question: a hit damages the enemy, a miss lets the enemy strike back.
+// The selected adventure skill gets to adjust each step along the way.
+export const applyAttack = (
+  state: GameState,
+  hit: boolean,
+  rng: RandomSource,
+  category?: string,
+  now: Date = new Date()
+): GameState => {
+  if (!state.currentEnemy) return state;
+
+  const skill = activeSkillEffects(state, now);
+  // Effects gained before this answer (fight start, consumables) count it as their first turn
+  let newState = { ...state, playerStatusEffects: settleStatusEffects(state.playerStatusEffects) };
+  let enemy: Enemy = { ...state.currentEnemy, statusEffects: settleStatusEffects(state.currentEnemy.statusEffects) };
+  let combatLog = [...state.combatLog];
+
+  if (hit) {
+    // Player hits enemy - reduce equipment durability
+    newState = reduceDurability(newState, Math.ceil(1 * skill.durabilityLossMultiplier));
+
+    // Calculate damage with current stats (including equipment bonuses)
+    const playerStats = calculatePlayerStats(newState);
+    const statusMultiplier = outgoingDamageMultiplier(newState.playerStatusEffects);
+    if (statusMultiplier === 0) {
+      combatLog.push('You are stunned and cannot attack!');
+    } else {
+      const baseDamage = Math.max(1, Math.floor((playerStats.atk - enemy.def) * skill.damageDealtMultiplier * statusMultiplier));
+      const turn = runAdventureHook('onHit', { state: newState, enemy, damage: baseDamage, log: combatLog, rng });
+      ({ state: newState, log: combatLog } = turn);
+      const landed = absorbIncomingDamage(turn.enemy.statusEffects, turn.damage);
+      enemy = { ...turn.enemy, statusEffects: landed.effects, hp: Math.max(0, turn.enemy.hp - landed.damage) };
+      if (landed.absorbed > 0) combatLog.push(`${enemy.name}'s shield absorbs ${landed.absorbed} damage!`);
+      combatLog.push(`You deal ${landed.damage} damage to ${enemy.name}!`);
+
+      // Enchanted weapons sometimes pass their effect on
+      const enchantment = rollWeaponEnchantment(newState.inventory.currentWeapon, rng);
+      if (enchantment && enemy.hp > 0) enemy = inflictOnEnemy(enemy, enchantment, combatLog);
+    }
+
+    // Update knowledge streak
+    newState.knowledgeStreak = {
+      ...state.knowledgeStreak,
+      current: state.knowledgeStreak.current + 1,
+      best: Math.max(state.knowledgeStreak.best, state.knowledgeStreak.current + 1),
+      multiplier: 1 + (state.knowledgeStreak.current + 1) * 0.1 * skill.streakGainMultiplier
+    };
+
+    // Update statistics
+    newState.statistics = {
+      ...state.statistics,
+      correctAnswers: state.statistics.correctAnswers + 1,
+      totalQuestionsAnswered: state.statistics.totalQuestionsAnswered + 1
+    };
+
+    if (category) {
+      const categoryStats = state.statistics.accuracyByCategory[category] || { correct: 0, total: 0 };
+      newState.statistics.accuracyByCategory = {
+        ...state.statistics.accuracyByCategory,
+        [category]: {
+          correct: categoryStats.correct + 1,
+          total: categoryStats.total + 1
+        }
+      };
+    }
+  } else {
+    // Player misses, enemy attacks - reduce equipment durability from taking damage
+    newState = reduceDurability(newState, Math.ceil(2 * skill.durabilityLossMultiplier)); // More durability loss when taking damage
+
+    const enemyMultiplier = outgoingDamageMultiplier(enemy.statusEffects);
+    if (enemyMultiplier === 0) {
+      combatLog.push(`${enemy.name} is stunned and cannot attack!`);
+    } else {
+      const baseDamage = Math.max(1, Math.floor((enemy.atk - newState.playerStats.def) * skill.damageTakenMultiplier * enemyMultiplier));
+      const turn = runAdventureHook('onMiss', { state: newState, enemy, damage: baseDamage, log: combatLog, rng });
+      ({ state: newState, enemy, log: combatLog } = turn);
+      const landed = absorbIncomingDamage(newState.playerStatusEffects, turn.damage);
+      newState.playerStatusEffects = landed.effects;
+      newState.playerStats = {
+        ...newState.playerStats,
+        hp: Math.max(0, newState.playerStats.hp - landed.damage)
+      };
+      if (landed.absorbed > 0) combatLog.push(`Your shield absorbs ${landed.absorbed} damage!`);
+      combatLog.push(landed.damage > 0 ? `${enemy.name} deals ${landed.damage} damage to you!` : `${enemy.name}'s attack does no damage!`);
+
+      // Enemies with a status ability may use it as they strike
+      const ability = enemy.specialAbility ? enemyStatusAbilities[enemy.specialAbility] : undefined;
+      if (ability && rng() < ability.chance) {
+        if (ability.target === 'self') enemy = inflictOnEnemy(enemy, ability.effect, combatLog);
+        else newState = inflictOnPlayer(newState, ability.effect, combatLog, now);
+      }
+
+      if (!skill.protectsStreak) enemy = stealStreak(enemy, state.knowledgeStreak.current, combatLog);
+    }
+
+    // Reset knowledge streak, unless a skill is guarding it
+    if (!skill.protectsStreak) {
+      newState.knowledgeStreak = {
+        ...state.knowledgeStreak,
+        current: 0,
+        multiplier: 1
+      };
+    }
+
+    // Update statistics
+    newState.statistics = {
+      ...state.statistics,
+      totalQuestionsAnswered: state.statistics.totalQuestionsAnswered + 1
+    };
+
+    if (category) {
+      const categoryStats = state.statistics.accuracyByCategory[category] || { correct: 0, total: 0 };
+      newState.statistics.accuracyByCategory = {
+        ...state.statistics.accuracyByCategory,
+        [category]: {
+          correct: categoryStats.correct,
+          total: categoryStats.total + 1
+        }
+      };
+    }
+  }
+
+  // Effects that tick every turn, whatever the answer
+  if (enemy.hp > 0 && newState.playerStats.hp > 0) {
+    ({ state: newState, enemy, log: combatLog } = runAdventureHook('onTurn', { state: newState, enemy, damage: 0, log: combatLog, rng }));
+  }
+  if (enemy.hp > 0 && newState.playerStats.hp > 0) {
+    const playerTick = tickStatusEffects(newState.playerStatusEffects, newState.playerStats.maxHp);
+    const hp = Math.min(newState.playerStats.maxHp, Math.max(0, newState.playerStats.hp - playerTick.damage + playerTick.healing));
+    if (playerTick.damage > 0) combatLog.push(`Lingering effects deal ${playerTick.damage} damage to you!`);
+    if (playerTick.healing > 0) combatLog.push(`You regenerate ${playerTick.healing} HP!`);
+    newState = { ...newState, playerStatusEffects: playerTick.effects, playerStats: { ...newState.playerStats, hp } };
+
+    const enemyTick = tickStatusEffects(enemy.statusEffects, enemy.maxHp);
+    if (enemyTick.damage > 0) combatLog.push(`Lingering effects deal ${enemyTick.damage} damage to ${enemy.name}!`);
+    if (enemyTick.healing > 0) combatLog.push(`${enemy.name} regenerates ${enemyTick.healing} HP!`);
+    enemy = {
+      ...enemy,
+      statusEffects: enemyTick.effects,
+      hp: Math.min(enemy.maxHp, Math.max(0, enemy.hp - enemyTick.damage + enemyTick.healing))
+    };
+  }
+  enemy = applyBossPhases(enemy, combatLog);
+
+  if (newState.playerStats.hp <= 0) {
+    ({ state: newState, enemy, log: combatLog } = runAdventureHook('onDeath', { state: newState, enemy, damage: 0, log: combatLog, rng }));
+  }
+
+  if (newState.playerStats.hp <= 0 && skill.revivesOnDefeat) {
+    combatLog.push('Revival Blessing brings you back at half health!');
+    newState = consumeSkillCharge({
+      ...newState,
+      playerStats: { ...newState.playerStats, hp: Math.floor(newState.playerStats.maxHp / 2) }
+    });
+  } else if (newState.playerStats.hp <= 0 && !newState.hasUsedRevival) {
+    combatLog.push('Your free revival brings you back at half health!');
+    newState = {
+      ...newState,
+      hasUsedRevival: true,
+      playerStats: { ...newState.playerStats, hp: Math.floor(newState.playerStats.maxHp / 2) }
+    };
+  } else if (newState.playerStats.hp <= 0) {
+    combatLog.push('You have been defeated!');
+    newState = {
+      ...newState,
+      currentEnemy: null,
+      inCombat: false,
+      playerStatusEffects: [],
+      statistics: {
+        ...newState.statistics,
+        totalDeaths: state.statistics.totalDeaths + 1
+      }
+    };
+
+    // Survival: each death costs a life and the run carries on from the same zone at full health
+    const survival = newState.gameMode.current === 'survival';
+    if (survival) {
+      newState = loseSurvivalLife({ ...newState, playerStats: { ...newState.playerStats, hp: newState.playerStats.maxHp } });
+    }
+
+    if (survival && newState.gameMode.survivalLives > 0) {
+      const lives = newState.gameMode.survivalLives;
+      combatLog.push(`You lose a life! ${lives} ${lives === 1 ? 'life remains' : 'lives remain'} and you carry on in Zone ${newState.zone}.`);
+    } else {
+      if (newState.adventureSkills.selectedSkill) {
+        combatLog.push(`Your adventure ends and ${newState.adventureSkills.selectedSkill.name} fades away.`);
+      }
+      newState = endRun(endAdventureRun(newState), now);
+      if (newState.lastRunSummary) combatLog.push(`Run over! Final score: ${newState.lastRunSummary.score}.`);
+    }
+  } else if (enemy.hp <= 0) {
+    // Enemy defeated
+    combatLog.push(`${enemy.name} is defeated!`);
+    const { coinMultiplier, gemMultiplier, xpMultiplier } = state.research.bonuses;
+    const bossMultiplier = bossRewardMultiplier(enemy);
+    const coinReward = Math.floor((10 + state.zone * 5) * state.knowledgeStreak.multiplier * coinMultiplier * skill.coinMultiplier * bossMultiplier);
+    const gemReward = Math.floor((1 + Math.floor(state.zone / 5)) * state.knowledgeStreak.multiplier * gemMultiplier * skill.gemMultiplier * bossMultiplier);
+    const gardenXpMultiplier = 1 + state.gardenOfGrowth.xpGrowthBonus / 100;
+    const xpReward = Math.floor((10 + state.zone * 2) * xpMultiplier * skill.xpMultiplier * bossMultiplier * gardenXpMultiplier);
+
+    newState = {
+      ...newState,
+      coins: state.coins + coinReward,
+      gems: state.gems + gemReward,
+      zone: state.zone + 1,
+      currentEnemy: null,
+      inCombat: false,
+      playerStatusEffects: [],
+      isPremium: state.zone + 1 >= 50,
+      statistics: {
+        ...newState.statistics,
+        totalVictories: state.statistics.totalVictories + 1,
+        coinsEarned: state.statistics.coinsEarned + coinReward,
+        gemsEarned: state.statistics.gemsEarned + gemReward,
+        zonesReached: Math.max(state.statistics.zonesReached, state.zone + 1),
+        bossesDefeated: state.statistics.bossesDefeated + (enemy.isBoss ? 1 : 0)
+      },
+      adventureSkills: {
+        ...newState.adventureSkills,
+        runVictories: newState.adventureSkills.runVictories + 1
+      }
+    };
+
+    newState = recordBestiary(newState, enemy, 'defeated');
+    newState = grantExperience(newState, xpReward);
+    combatLog.push(`You earned ${coinReward} coins, ${gemReward} gems and ${xpReward} XP!`);
+    newState = dropLoot(newState, enemy, rng, combatLog, now);
+  }
+
+  return {
+    ...newState,
+    currentEnemy: newState.inCombat && enemy.hp > 0 ? enemy : null,
+    combatLog
+  };
+};
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { matchesEvent } from './criteria';
+
+describe('matchesEvent', () => {
+  it('matches on the event type and every listed field', () => {
+    const shiny = { type: 'gemMined' as const, where: { shiny: true } };
+    expect(matchesEvent(shiny, { type: 'gemMined', shiny: true })).toBe(true);
+    expect(matchesEvent(shiny, { type: 'gemMined', shiny: false })).toBe(false);
+    expect(matchesEvent({ type: 'gemMined' }, { type: 'gemMined', shiny: false })).toBe(true);
+  });
+
+  it('never matches another event type or a field the event lacks', () => {
+    expect(matchesEvent({ type: 'chestOpened' }, { type: 'itemSold' })).toBe(false);
+    expect(matchesEvent({ type: 'answerSubmitted', where: { category: 'science' } }, { type: 'answerSubmitted', correct: true })).toBe(false);
+  });
+});
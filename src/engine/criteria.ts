@@ -0,0 +1,99 @@
+import { AchievementCriteria, CriteriaTracker, EventMatcher, GameEvent, GameState } from '../types/game';
+import { achievementDefinitions } from '../utils/achievements';
+import { tagDefinitions } from '../utils/playerTags';
+
+const emptyTracker = (): CriteriaTracker => ({ count: 0, eventTimes: [] });
+
+export const matchesEvent = (matcher: EventMatcher, event: GameEvent): boolean => {
+  if (matcher.type !== event.type) return false;
+  // Event members are plain object types, so any of them reads as a field map without a cast
+  const payload: { [field: string]: unknown } = event;
+  return Object.entries(matcher.where || {}).every(([field, value]) => payload[field] === value);
+};
+
+const readPath = (state: GameState, path: string): number => {
+  const value = path.split('.').reduce<unknown>(
+    (node, key) => (typeof node === 'object' && node !== null ? (node as { [key: string]: unknown })[key] : undefined),
+    state
+  );
+  return typeof value === 'number' ? value : 0;
+};
+
+// Advance one tracker by one event. Threshold criteria read the state directly and keep no tracker.
+const advanceTracker = (
+  criteria: AchievementCriteria,
+  tracker: CriteriaTracker,
+  event: GameEvent,
+  sessionStart: number,
+  now: number
+): CriteriaTracker => {
+  switch (criteria.kind) {
+    case 'counter': {
+      const current = criteria.scope === 'session' && tracker.sessionStart !== sessionStart
+        ? { ...emptyTracker(), sessionStart }
+        : tracker;
+      return matchesEvent(criteria.event, event) ? { ...current, count: current.count + 1 } : current;
+    }
+    case 'streak':
+      if (matchesEvent(criteria.event, event)) return { ...tracker, count: tracker.count + 1 };
+      if (matchesEvent(criteria.breaksOn, event)) return { ...tracker, count: 0 };
+      return tracker;
+    case 'window': {
+      if (!matchesEvent(criteria.event, event)) return tracker;
+      const eventTimes = [...tracker.eventTimes.filter(time => now - time < criteria.windowSeconds * 1000), now];
+      return { ...tracker, count: eventTimes.length, eventTimes };
+    }
+    case 'threshold':
+      return tracker;
+  }
+};
+
+// Every definition with declarative criteria, achievements and tags alike
+const criteriaDefinitions = (): { id: string; criteria: AchievementCriteria }[] =>
+  [...achievementDefinitions, ...tagDefinitions].flatMap(def => (def.criteria ? [{ id: def.id, criteria: def.criteria }] : []));
+
+const isUnlocked = (state: GameState, id: string): boolean =>
+  state.achievements.some(a => a.id === id && a.unlocked) || state.playerTags.some(t => t.id === id && t.unlocked);
+
+// Feed events to the trackers of every criteria-based achievement and tag that is still locked
+export const trackGameEvents = (state: GameState, events: GameEvent[], now: Date = new Date()): GameState => {
+  if (events.length === 0) return state;
+
+  const sessionStart = state.statistics.sessionStartTime.getTime();
+  const trackers = { ...state.achievementTrackers };
+
+  criteriaDefinitions().forEach(({ id, criteria }) => {
+    if (criteria.kind === 'threshold' || isUnlocked(state, id)) return;
+    trackers[id] = events.reduce(
+      (tracker, event) => advanceTracker(criteria, tracker, event, sessionStart, now.getTime()),
+      trackers[id] || emptyTracker()
+    );
+  });
+
+  return { ...state, achievementTrackers: trackers };
+};
+
+// Current progress towards the criteria's target
+export const criteriaProgress = (state: GameState, id: string, criteria: AchievementCriteria, now: Date = new Date()): number => {
+  if (criteria.kind === 'threshold') return readPath(state, criteria.path);
+
+  const tracker = state.achievementTrackers[id];
+  if (!tracker) return 0;
+  if (criteria.kind === 'counter' && criteria.scope === 'session' &&
+      tracker.sessionStart !== state.statistics.sessionStartTime.getTime()) {
+    return 0;
+  }
+  if (criteria.kind === 'window') {
+    return tracker.eventTimes.filter(time => now.getTime() - time < criteria.windowSeconds * 1000).length;
+  }
+  return tracker.count;
+};
+
+// Begin a new play session; session-scoped counters start again from zero
+export const startSession = (state: GameState, now: Date = new Date()): GameState => ({
+  ...state,
+  statistics: {
+    ...state.statistics,
+    sessionStartTime: now
+  }
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types/game';
+import { createSeededRandom } from '../utils/random';
+import { getDroneOutput, getDroneProduction } from './drones';
+import { activateMenuSkill } from './modifiers';
+import { applyOfflineProgress } from './offline';
+import { claimOfflineRewards } from './progression';
+import { createInitialGameState } from './state';
+
+const start = new Date('2026-01-01T00:00:00Z');
+const at = (hours: number) => new Date(start.getTime() + hours * 3600 * 1000);
+
+// Two scout drones mine 2 gems an hour into 16 gems of storage
+const withDrones = (): GameState => {
+  const state = createInitialGameState();
+  return {
+    ...state,
+    mining: { ...state.mining, drones: { ...state.mining.drones, count: 2, lastTick: start, storedGems: 0 } },
+    offlineProgress: { ...state.offlineProgress, lastSaveTime: start }
+  };
+};
+
+const magnet = (state: GameState, from: Date): GameState => {
+  const seeded = createSeededRandom(1);
+  return activateMenuSkill(state, 'gem_magnet', () => seeded.next(), from);
+};
+
+describe('getDroneOutput', () => {
+  it('only triples the hours a gem skill was running', () => {
+    // Gem Magnet lasts 3 hours and ran out an hour in: 1 tripled hour and 2 normal ones
+    expect(getDroneOutput(magnet(withDrones(), at(-2)), 3, at(3))).toBeCloseTo(2 * (3 + 2), 6);
+    // Started a minute ago, it barely counts
+    expect(getDroneOutput(magnet(withDrones(), at(4 - 1 / 60)), 4, at(4))).toBeCloseTo(2 * (4 + 2 / 60), 6);
+  });
+
+  it('stops at the storage capacity', () => {
+    expect(getDroneOutput(withDrones(), 24, at(24))).toBe(getDroneProduction(withDrones(), at(24)).capacity);
+  });
+});
+
+describe('offline drone income', () => {
+  it('fills drone storage once instead of paying out on every load', () => {
+    const away = applyOfflineProgress(withDrones(), at(5));
+    expect(away.mining.drones.storedGems).toBe(10);
+    expect(away.offlineProgress.breakdown).toContainEqual({ source: 'Mining drones', coins: 0, gems: 10, stored: true });
+
+    const claimed = claimOfflineRewards(away);
+    expect(claimed.gems - away.gems).toBe(away.offlineProgress.offlineGems);
+
+    const reloaded = applyOfflineProgress(claimed, at(20));
+    expect(reloaded.mining.drones.storedGems).toBe(16);
+  });
+});
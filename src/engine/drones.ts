@@ -0,0 +1,115 @@
+import { GameState, MiningDrones } from '../types/game';
+import { activeSkillEffects, averageSkillMultiplier } from './modifiers';
+
+export const MAX_DRONES = 10;
+const DRONE_BASE_COST = 5000;
+const DRONE_COST_GROWTH = 1.5;
+
+// Name of the offline rewards line drone income is credited under
+export const DRONE_OFFLINE_SOURCE = 'Mining drones';
+
+const HOUR_MS = 3600 * 1000;
+
+export interface DroneTier {
+  name: string;
+  gemsPerHour: number; // per drone, before multipliers
+  capacityHours: number; // storage fills after this many hours without collecting
+  upgradeCost: number; // coins to reach this tier
+}
+
+export const droneTiers: DroneTier[] = [
+  { name: 'Scout Drone', gemsPerHour: 1, capacityHours: 8, upgradeCost: 0 },
+  { name: 'Miner Drone', gemsPerHour: 2, capacityHours: 12, upgradeCost: 20000 },
+  { name: 'Excavator Drone', gemsPerHour: 4, capacityHours: 16, upgradeCost: 150000 },
+  { name: 'Quantum Drone', gemsPerHour: 8, capacityHours: 24, upgradeCost: 1000000 }
+];
+
+export interface DroneProduction {
+  gemsPerHour: number;
+  capacity: number;
+  storedGems: number;
+  hoursUntilFull: number;
+}
+
+export const getDroneCost = (drones: MiningDrones): number => Math.round(DRONE_BASE_COST * Math.pow(DRONE_COST_GROWTH, drones.count));
+
+export const getNextDroneTier = (drones: MiningDrones): DroneTier | null => droneTiers[drones.tier + 1] || null;
+
+const getBaseGemsPerHour = (state: GameState): number =>
+  state.mining.drones.count * droneTiers[state.mining.drones.tier].gemsPerHour * state.multipliers.gems;
+
+// Gem skills speed the drones up while they last; storage size doesn't change with them
+export const getDroneProduction = (state: GameState, now: Date = new Date()): DroneProduction => {
+  const { drones } = state.mining;
+  const baseGemsPerHour = getBaseGemsPerHour(state);
+  const gemsPerHour = baseGemsPerHour * activeSkillEffects(state, now).gemMultiplier;
+  const capacity = baseGemsPerHour * droneTiers[drones.tier].capacityHours;
+  return {
+    gemsPerHour,
+    capacity,
+    storedGems: drones.storedGems,
+    hoursUntilFull: gemsPerHour > 0 ? Math.max(0, capacity - drones.storedGems) / gemsPerHour : 0
+  };
+};
+
+// Gems the drones mined in the `hours` up to `now`, stopping once their storage is full. A gem
+// skill only speeds up the part of that stretch it was running for.
+export const getDroneOutput = (state: GameState, hours: number, now: Date = new Date()): number => {
+  const { capacity, storedGems } = getDroneProduction(state, now);
+  const from = new Date(now.getTime() - hours * HOUR_MS);
+  const mined = getBaseGemsPerHour(state) * averageSkillMultiplier(state, 'gemMultiplier', from, now) * hours;
+  return Math.max(0, Math.min(mined, capacity - storedGems));
+};
+
+const withDrones = (state: GameState, drones: Partial<MiningDrones>): GameState => ({
+  ...state,
+  mining: { ...state.mining, drones: { ...state.mining.drones, ...drones } }
+});
+
+// Fill the drones' storage with what they mined since the last tick. Once storage is full they
+// stop, so the same state comes back and the missed time is never paid out.
+export const tickDrones = (state: GameState, now: Date = new Date()): GameState => {
+  const { drones } = state.mining;
+  if (drones.count === 0 || !drones.lastTick) return state;
+
+  const hours = Math.max(0, (now.getTime() - drones.lastTick.getTime()) / HOUR_MS);
+  const output = getDroneOutput(state, hours, now);
+  if (output <= 0) return state;
+
+  return withDrones(state, { storedGems: drones.storedGems + output, lastTick: now });
+};
+
+export const collectDroneGems = (state: GameState, now: Date = new Date()): GameState | null => {
+  const settled = tickDrones(state, now);
+  const gems = Math.floor(settled.mining.drones.storedGems);
+  if (gems <= 0) return null;
+
+  return {
+    ...withDrones(settled, { storedGems: settled.mining.drones.storedGems - gems, lastTick: now }),
+    gems: settled.gems + gems,
+    statistics: { ...settled.statistics, gemsFromDrones: settled.statistics.gemsFromDrones + gems }
+  };
+};
+
+export const buyDrone = (state: GameState, now: Date = new Date()): GameState | null => {
+  const cost = getDroneCost(state.mining.drones);
+  if (state.mining.drones.count >= MAX_DRONES || state.coins < cost) return null;
+
+  // Settle first so the bigger fleet only counts from now
+  const settled = tickDrones(state, now);
+  return {
+    ...withDrones(settled, { count: settled.mining.drones.count + 1, lastTick: now }),
+    coins: settled.coins - cost
+  };
+};
+
+export const upgradeDrones = (state: GameState, now: Date = new Date()): GameState | null => {
+  const next = getNextDroneTier(state.mining.drones);
+  if (!next || state.mining.drones.count === 0 || state.coins < next.upgradeCost) return null;
+
+  const settled = tickDrones(state, now);
+  return {
+    ...withDrones(settled, { tier: settled.mining.drones.tier + 1, lastTick: now }),
+    coins: settled.coins - next.upgradeCost
+  };
+};
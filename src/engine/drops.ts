@@ -0,0 +1,172 @@
+import { ConsumableType, Enemy, GameState, LootDrop, Weapon } from '../types/game';
+import { generateArmor, generateRelicItem, generateWeapon, isMajorBossZone } from '../utils/gameUtils';
+import { addCollectedItem } from './inventory';
+import { activeSkillEffects } from './modifiers';
+import { inflictOnPlayer } from './status';
+import { RandomSource } from './types';
+
+type Rarity = Weapon['rarity'];
+type DropKind = LootDrop['kind'];
+
+const rarities: Rarity[] = ['common', 'rare', 'epic', 'legendary', 'mythical'];
+
+// Drop odds and rarity weights (common → mythical) for each zone band, highest band first
+interface DropBand {
+  minZone: number;
+  dropChance: number;
+  rarityWeights: number[];
+}
+
+const dropBands: DropBand[] = [
+  { minZone: 100, dropChance: 0.4, rarityWeights: [10, 30, 35, 20, 5] },
+  { minZone: 50, dropChance: 0.35, rarityWeights: [25, 35, 25, 13, 2] },
+  { minZone: 25, dropChance: 0.3, rarityWeights: [45, 35, 15, 5, 0] },
+  { minZone: 1, dropChance: 0.25, rarityWeights: [65, 28, 7, 0, 0] }
+];
+
+// What a drop turns out to be, by enemy type
+const dropKindWeights: Record<'regular' | 'boss', { kind: DropKind; weight: number }[]> = {
+  regular: [
+    { kind: 'weapon', weight: 35 },
+    { kind: 'armor', weight: 35 },
+    { kind: 'relic_fragment', weight: 10 },
+    { kind: 'consumable', weight: 20 }
+  ],
+  boss: [
+    { kind: 'weapon', weight: 35 },
+    { kind: 'armor', weight: 35 },
+    { kind: 'relic_fragment', weight: 30 }
+  ]
+};
+
+export const consumableInfo: Record<ConsumableType, { name: string; description: string }> = {
+  health_potion: { name: 'Health Potion', description: 'Restore 40% of your max HP' },
+  ward_scroll: { name: 'Ward Scroll', description: 'Raise a shield worth 25% of your max HP' }
+};
+
+export const RELIC_FRAGMENTS_PER_RELIC = 10;
+
+// Extra chance per zone into a band, capped so higher bands stay meaningful
+const ZONE_DROP_BONUS = 0.004;
+const MAX_ZONE_DROP_BONUS = 0.1;
+
+const getDropBand = (zone: number): DropBand => dropBands.find(band => zone >= band.minZone) || dropBands[dropBands.length - 1];
+
+const rollWeighted = <T>(entries: { value: T; weight: number }[], rng: RandomSource): T => {
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  const random = rng() * total;
+  let cumulative = 0;
+  for (const entry of entries) {
+    cumulative += entry.weight;
+    if (random < cumulative) return entry.value;
+  }
+  return entries[entries.length - 1].value;
+};
+
+// Luck (e.g. a Luck Boost skill) rolls rarity again and keeps the best
+const rollDropRarity = (band: DropBand, rerolls: number, rng: RandomSource): Rarity => {
+  const weighted = rarities.map((value, i) => ({ value, weight: band.rarityWeights[i] }));
+  let rarity = rollWeighted(weighted, rng);
+  for (let i = 0; i < rerolls; i++) {
+    const reroll = rollWeighted(weighted, rng);
+    if (rarities.indexOf(reroll) > rarities.indexOf(rarity)) rarity = reroll;
+  }
+  return rarity;
+};
+
+const grantDrop = (state: GameState, kind: DropKind, rarity: Rarity, enemy: Enemy, rng: RandomSource): { state: GameState; drop: LootDrop } => {
+  switch (kind) {
+    case 'weapon':
+    case 'armor': {
+      const item = kind === 'weapon' ? generateWeapon(false, rarity, false, rng) : generateArmor(false, rarity, false, rng);
+      return { state: addCollectedItem(state, item, kind), drop: { kind, name: item.name, quantity: 1, rarity } };
+    }
+    case 'relic_fragment': {
+      const quantity = 1 + Math.floor(enemy.zone / 50) + (enemy.isBoss ? 2 : 0);
+      return {
+        state: { ...state, relicFragments: state.relicFragments + quantity },
+        drop: { kind, name: 'Relic Fragment', quantity }
+      };
+    }
+    case 'consumable': {
+      const consumable: ConsumableType = rng() < 0.6 ? 'health_potion' : 'ward_scroll';
+      return {
+        state: { ...state, consumables: { ...state.consumables, [consumable]: state.consumables[consumable] + 1 } },
+        drop: { kind, name: consumableInfo[consumable].name, quantity: 1, consumable }
+      };
+    }
+  }
+};
+
+const describeDrop = (drop: LootDrop): string =>
+  drop.rarity ? `${drop.name} (${drop.rarity})` : drop.quantity > 1 ? `${drop.quantity}x ${drop.name}` : drop.name;
+
+// Roll the defeated enemy's loot, add it to the player's belongings and announce it.
+// Bosses always drop gear (rare or better, epic or better for major bosses, one tier
+// higher from zone 50) and get a regular roll on top.
+export const dropLoot = (state: GameState, enemy: Enemy, rng: RandomSource, log: string[], now: Date = new Date()): GameState => {
+  if (!enemy.canDropItems && !enemy.isBoss) return state;
+
+  const band = getDropBand(enemy.zone);
+  const luck = activeSkillEffects(state, now).chestRerolls;
+  const dropChance = Math.min(1, (band.dropChance + Math.min(MAX_ZONE_DROP_BONUS, (enemy.zone - band.minZone) * ZONE_DROP_BONUS)) * (1 + luck * 0.5));
+  const kinds = dropKindWeights[enemy.isBoss ? 'boss' : 'regular'].map(({ kind, weight }) => ({ value: kind, weight }));
+
+  let newState = state;
+  const drops: LootDrop[] = [];
+  const grant = (kind: DropKind, rarity: Rarity) => {
+    const granted = grantDrop(newState, kind, rarity, enemy, rng);
+    newState = granted.state;
+    drops.push(granted.drop);
+  };
+
+  if (enemy.isBoss) {
+    const major = isMajorBossZone(enemy.zone);
+    const floor: Rarity = enemy.zone >= 50 ? (major ? 'legendary' : 'epic') : (major ? 'epic' : 'rare');
+    const rolled = rollDropRarity(band, luck, rng);
+    grant(rng() < 0.5 ? 'weapon' : 'armor', rarities.indexOf(rolled) > rarities.indexOf(floor) ? rolled : floor);
+  }
+
+  if (rng() < dropChance) {
+    grant(rollWeighted(kinds, rng), rollDropRarity(band, luck, rng));
+  }
+
+  drops.forEach(drop => log.push(`${enemy.name} drops ${describeDrop(drop)}!`));
+  return drops.length > 0 ? { ...newState, lastLoot: drops } : newState;
+};
+
+export const dismissLoot = (state: GameState): GameState => ({ ...state, lastLoot: [] });
+
+// Use a consumable mid-fight
+export const applyConsumable = (state: GameState, type: ConsumableType, now: Date = new Date()): GameState | null => {
+  if (!state.inCombat || state.consumables[type] <= 0) return null;
+
+  const combatLog = [...state.combatLog];
+  let newState: GameState = { ...state, consumables: { ...state.consumables, [type]: state.consumables[type] - 1 } };
+  const { maxHp, hp } = newState.playerStats;
+
+  if (type === 'health_potion') {
+    const healed = Math.min(maxHp, hp + Math.floor(maxHp * 0.4)) - hp;
+    combatLog.push(`You drink a Health Potion and recover ${healed} HP!`);
+    newState = { ...newState, playerStats: { ...newState.playerStats, hp: hp + healed } };
+  } else {
+    combatLog.push('You read a Ward Scroll!');
+    newState = inflictOnPlayer(newState, { type: 'shield', turns: 10, stacks: 1, amount: Math.floor(maxHp * 0.25) }, combatLog, now);
+  }
+
+  return { ...newState, combatLog };
+};
+
+// Fuse relic fragments into a random relic
+export const forgeRelic = (state: GameState, rng: RandomSource): GameState | null => {
+  if (state.relicFragments < RELIC_FRAGMENTS_PER_RELIC) return null;
+
+  return {
+    ...state,
+    relicFragments: state.relicFragments - RELIC_FRAGMENTS_PER_RELIC,
+    inventory: {
+      ...state.inventory,
+      relics: [...state.inventory.relics, generateRelicItem(rng)]
+    }
+  };
+};
@@ -0,0 +1,37 @@
+import { GameEvent, GameState } from '../types/game';
+
+// Repeat one event for each step a counter moved forward
+const repeat = (times: number, event: GameEvent): GameEvent[] => Array.from({ length: Math.max(0, times) }, () => event);
+
+// Work out what happened between two states from the counters every action maintains, so
+// any action (including ones added later) produces events without having to announce them
+export const detectGameEvents = (prev: GameState, next: GameState): GameEvent[] => {
+  const events: GameEvent[] = [];
+  const before = prev.statistics;
+  const after = next.statistics;
+
+  const answered = after.totalQuestionsAnswered - before.totalQuestionsAnswered;
+  if (answered > 0) {
+    const correct = after.correctAnswers - before.correctAnswers;
+    const category = Object.keys(after.accuracyByCategory).find(key =>
+      after.accuracyByCategory[key].total > (before.accuracyByCategory[key]?.total || 0)
+    );
+    events.push(...repeat(correct, { type: 'answerSubmitted', correct: true, category }));
+    events.push(...repeat(answered - correct, { type: 'answerSubmitted', correct: false, category }));
+  }
+
+  events.push(...repeat(after.totalVictories - before.totalVictories, { type: 'enemyDefeated', zone: prev.zone }));
+  events.push(...repeat(after.totalDeaths - before.totalDeaths, { type: 'playerDefeated', zone: prev.zone }));
+  events.push(...repeat(after.chestsOpened - before.chestsOpened, { type: 'chestOpened' }));
+  events.push(...repeat(after.itemsSold - before.itemsSold, { type: 'itemSold' }));
+  events.push(...repeat(after.itemsUpgraded - before.itemsUpgraded, { type: 'itemUpgraded' }));
+
+  events.push(...repeat(next.mining.totalGemsMined - prev.mining.totalGemsMined, { type: 'gemMined', shiny: false }));
+  events.push(...repeat(next.mining.totalShinyGemsMined - prev.mining.totalShinyGemsMined, { type: 'gemMined', shiny: true }));
+
+  if (next.zone !== prev.zone) {
+    events.push({ type: 'zoneEntered', zone: next.zone });
+  }
+
+  return events;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types/game';
+import { createSeededRandom } from '../utils/random';
+import { plantSeed, simulateGarden } from './garden';
+import { activateMenuSkill } from './modifiers';
+import { createInitialGameState } from './state';
+
+const planted = new Date('2026-01-01T00:00:00Z');
+const at = (minutes: number) => new Date(planted.getTime() + minutes * 60 * 1000);
+
+const garden = (): GameState => plantSeed({ ...createInitialGameState(), coins: 1000000 }, 0, 'growth_tree', planted)!;
+
+const boosted = (state: GameState, from: Date): GameState => {
+  const seeded = createSeededRandom(1);
+  return activateMenuSkill(state, 'garden_booster', () => seeded.next(), from);
+};
+
+const growth = (state: GameState) => state.gardenOfGrowth.plots[0].growthCm;
+
+describe('simulateGarden', () => {
+  it('hands back the same state until a whole minute has passed', () => {
+    const state = garden();
+    expect(simulateGarden(state, new Date(planted.getTime() + 59 * 1000))).toBe(state);
+    expect(simulateGarden(state, at(1))).not.toBe(state);
+  });
+
+  it('catches up to the same growth as ticking through the stretch', () => {
+    let ticked = garden();
+    for (let second = 5; second <= 3600; second += 5) {
+      ticked = simulateGarden(ticked, new Date(planted.getTime() + second * 1000));
+    }
+    const caughtUp = simulateGarden(garden(), at(60));
+
+    expect(growth(ticked)).toBeCloseTo(growth(caughtUp), 6);
+    expect(ticked.gardenOfGrowth.waterHoursRemaining).toBeCloseTo(caughtUp.gardenOfGrowth.waterHoursRemaining, 6);
+  });
+
+  it('only boosts the minutes a growth skill overlaps', () => {
+    const plain = growth(simulateGarden(garden(), at(120)));
+    const startedAtTheEnd = growth(simulateGarden(boosted(garden(), at(119)), at(120)));
+    const halfway = growth(simulateGarden(boosted(garden(), at(60)), at(120)));
+    const throughout = growth(simulateGarden(boosted(garden(), planted), at(120)));
+
+    expect(startedAtTheEnd).toBeCloseTo(plain + (throughout - plain) / 120, 3);
+    expect(halfway).toBeGreaterThan(plain);
+    expect(halfway).toBeLessThan(throughout);
+  });
+});
@@ -0,0 +1,343 @@
+import { ConsumableType, FertilizerType, GameState, GardenOfGrowth, GardenPlot, PlantSpecies } from '../types/game';
+import { activeSkillEffects, averageSkillMultiplier } from './modifiers';
+
+// A plant left dry this long starts to wilt and lose growth
+export const WILT_AFTER_DRY_HOURS = 24;
+const WILT_CM_PER_HOUR = 0.05;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// How fast a plant grows at each point of its life (0 = seedling, 1 = fully grown)
+type GrowthCurve = 'steady' | 'early' | 'late' | 'sigmoid';
+
+const growthCurves: Record<GrowthCurve, (progress: number) => number> = {
+  steady: () => 1,
+  early: progress => 1.6 - 1.2 * progress,
+  late: progress => 0.4 + 1.2 * progress,
+  sigmoid: progress => 0.4 + 2.4 * progress * (1 - progress)
+};
+
+export interface GrowthStage {
+  minCm: number;
+  name: string;
+  emoji: string;
+  color: string;
+}
+
+export interface HarvestYield {
+  gems: number;
+  consumables: Partial<Record<ConsumableType, number>>;
+}
+
+export interface PlantSpeciesDefinition {
+  name: string;
+  description: string;
+  seedCost: number; // coins
+  maxGrowthCm: number;
+  cmPerHour: number; // while watered, before the curve and fertilizer
+  curve: GrowthCurve;
+  bonus?: { stat: 'all' | 'atk' | 'xp'; percentPerCm: number };
+  harvest?: (state: GameState) => HarvestYield; // harvestable once fully grown, then regrows from seed
+  stages: GrowthStage[]; // ascending by minCm
+}
+
+export const plantSpecies: Record<PlantSpecies, PlantSpeciesDefinition> = {
+  growth_tree: {
+    name: 'Tree of Growth',
+    description: '+5% to ALL stats per cm',
+    seedCost: 1000,
+    maxGrowthCm: 100,
+    cmPerHour: 0.1,
+    curve: 'steady',
+    bonus: { stat: 'all', percentPerCm: 5 },
+    stages: [
+      { minCm: 0, name: 'Seedling', emoji: '🌱', color: 'text-green-300' },
+      { minCm: 5, name: 'Young Plant', emoji: '🌿', color: 'text-green-400' },
+      { minCm: 15, name: 'Growing Plant', emoji: '🪴', color: 'text-green-500' },
+      { minCm: 30, name: 'Mature Plant', emoji: '🌳', color: 'text-green-600' },
+      { minCm: 50, name: 'Large Tree', emoji: '🌲', color: 'text-emerald-500' },
+      { minCm: 75, name: 'Ancient Tree', emoji: '🌴', color: 'text-emerald-600' }
+    ]
+  },
+  atk_vine: {
+    name: 'ATK Vine',
+    description: '+5% ATK per cm; shoots up fast, then slows down',
+    seedCost: 2500,
+    maxGrowthCm: 60,
+    cmPerHour: 0.12,
+    curve: 'early',
+    bonus: { stat: 'atk', percentPerCm: 5 },
+    stages: [
+      { minCm: 0, name: 'Tendril', emoji: '🌱', color: 'text-lime-300' },
+      { minCm: 10, name: 'Creeper', emoji: '☘️', color: 'text-lime-400' },
+      { minCm: 30, name: 'Climbing Vine', emoji: '🌿', color: 'text-lime-500' },
+      { minCm: 50, name: 'Thorned Vine', emoji: '🌵', color: 'text-red-400' }
+    ]
+  },
+  gem_flower: {
+    name: 'Gem Flower',
+    description: 'Harvest a bloom of gems once fully grown',
+    seedCost: 5000,
+    maxGrowthCm: 20,
+    cmPerHour: 0.25,
+    curve: 'sigmoid',
+    harvest: state => ({ gems: 25 + state.statistics.zonesReached * 2, consumables: {} }),
+    stages: [
+      { minCm: 0, name: 'Bud', emoji: '🌱', color: 'text-pink-300' },
+      { minCm: 6, name: 'Stem', emoji: '🌷', color: 'text-pink-400' },
+      { minCm: 14, name: 'Blossom', emoji: '🌸', color: 'text-pink-500' },
+      { minCm: 20, name: 'Gem Bloom', emoji: '💎', color: 'text-cyan-300' }
+    ]
+  },
+  xp_mushroom: {
+    name: 'XP Mushroom',
+    description: '+10% XP per cm; harvest for potions and scrolls',
+    seedCost: 3000,
+    maxGrowthCm: 10,
+    cmPerHour: 0.1,
+    curve: 'late',
+    bonus: { stat: 'xp', percentPerCm: 10 },
+    harvest: () => ({ gems: 0, consumables: { health_potion: 2, ward_scroll: 1 } }),
+    stages: [
+      { minCm: 0, name: 'Spores', emoji: '🟤', color: 'text-amber-300' },
+      { minCm: 3, name: 'Button', emoji: '🍄', color: 'text-amber-400' },
+      { minCm: 10, name: 'Glowing Cap', emoji: '✨', color: 'text-purple-300' }
+    ]
+  }
+};
+
+export const fertilizerInfo: Record<FertilizerType, { name: string; description: string; shinyGemCost: number; growthMultiplier: number; hours: number }> = {
+  compost: { name: 'Compost', description: '+50% growth for 48 watered hours', shinyGemCost: 1, growthMultiplier: 1.5, hours: 48 },
+  miracle_grow: { name: 'Miracle Grow', description: '+150% growth for 72 watered hours', shinyGemCost: 3, growthMultiplier: 2.5, hours: 72 }
+};
+
+// Every plot after the first opens at a zone or, sooner for veterans, a prestige level
+export const gardenPlotUnlocks = [
+  { zone: 1, prestigeLevel: 0 },
+  { zone: 25, prestigeLevel: 1 },
+  { zone: 60, prestigeLevel: 2 },
+  { zone: 120, prestigeLevel: 3 }
+];
+
+export const isPlotUnlockMet = (state: GameState, plotIndex: number): boolean => {
+  const unlock = gardenPlotUnlocks[plotIndex];
+  return !!unlock && (state.statistics.zonesReached >= unlock.zone || state.progression.prestigeLevel >= unlock.prestigeLevel);
+};
+
+export const createEmptyPlot = (): GardenPlot => ({
+  species: null,
+  plantedAt: null,
+  growthCm: 0,
+  fertilizer: null,
+  fertilizerHoursRemaining: 0,
+  harvests: 0
+});
+
+export const getGrowthStage = (plot: GardenPlot): GrowthStage | null => {
+  if (!plot.species) return null;
+  const { stages } = plantSpecies[plot.species];
+  return [...stages].reverse().find(stage => plot.growthCm >= stage.minCm) || stages[0];
+};
+
+export const isHarvestable = (plot: GardenPlot): boolean =>
+  !!plot.species && !!plantSpecies[plot.species].harvest && plot.growthCm >= plantSpecies[plot.species].maxGrowthCm;
+
+export interface WaterOption {
+  hours: number;
+  label: string;
+  cost: number;
+}
+
+// Bigger bundles are cheaper per hour; priced off the garden's one-day water cost
+const waterTiers = [
+  { hours: 24, label: '1 Day', priceMultiplier: 1 },
+  { hours: 72, label: '3 Days', priceMultiplier: 2.8 },
+  { hours: 168, label: '1 Week', priceMultiplier: 6.5 },
+  { hours: 720, label: '1 Month', priceMultiplier: 25 }
+];
+
+export const getWaterOptions = (garden: GardenOfGrowth): WaterOption[] =>
+  waterTiers.map(({ hours, label, priceMultiplier }) => ({ hours, label, cost: Math.round(garden.waterCost * priceMultiplier) }));
+
+export const isWilting = (garden: GardenOfGrowth): boolean =>
+  garden.isPlanted && garden.waterHoursRemaining <= 0 && garden.hoursDry >= WILT_AFTER_DRY_HOURS;
+
+// Recompute the garden-wide summary and stat bonuses from the plots
+const summarizeGarden = (garden: GardenOfGrowth): GardenOfGrowth => {
+  const bonuses = { all: 0, atk: 0, xp: 0 };
+  garden.plots.forEach(plot => {
+    const bonus = plot.species && plantSpecies[plot.species].bonus;
+    if (bonus) bonuses[bonus.stat] += plot.growthCm * bonus.percentPerCm;
+  });
+
+  return {
+    ...garden,
+    isPlanted: garden.plots.some(plot => plot.species),
+    growthCm: Math.max(0, ...garden.plots.map(plot => plot.growthCm)),
+    totalGrowthBonus: bonuses.all,
+    atkGrowthBonus: bonuses.atk,
+    xpGrowthBonus: bonuses.xp
+  };
+};
+
+// Grow one plot through `hours` of water, an hour at a time so its curve and fertilizer apply.
+// `boost` is the growth multiplier from menu skills.
+const growPlot = (plot: GardenPlot, hours: number, boost: number): GardenPlot => {
+  if (!plot.species || hours <= 0) return plot;
+  const species = plantSpecies[plot.species];
+  let { growthCm, fertilizerHoursRemaining } = plot;
+
+  for (let remaining = hours; remaining > 0 && growthCm < species.maxGrowthCm; remaining -= 1) {
+    const step = Math.min(1, remaining);
+    const fertilized = Math.min(step, fertilizerHoursRemaining);
+    const multiplier = plot.fertilizer ? 1 + (fertilizerInfo[plot.fertilizer].growthMultiplier - 1) * (fertilized / step) : 1;
+    const rate = species.cmPerHour * growthCurves[species.curve](growthCm / species.maxGrowthCm) * multiplier * boost;
+    growthCm = Math.min(species.maxGrowthCm, growthCm + rate * step);
+    fertilizerHoursRemaining -= fertilized;
+  }
+
+  return {
+    ...plot,
+    growthCm,
+    fertilizerHoursRemaining,
+    fertilizer: fertilizerHoursRemaining > 0 ? plot.fertilizer : null
+  };
+};
+
+const wiltPlot = (plot: GardenPlot, hours: number): GardenPlot =>
+  plot.species && hours > 0 ? { ...plot, growthCm: Math.max(0, plot.growthCm - hours * WILT_CM_PER_HOUR) } : plot;
+
+// Open any plots whose zone or prestige requirement has been met
+const unlockPlots = (state: GameState): GardenPlot[] => {
+  const plots = [...state.gardenOfGrowth.plots];
+  while (plots.length < gardenPlotUnlocks.length && isPlotUnlockMet(state, plots.length)) {
+    plots.push(createEmptyPlot());
+  }
+  return plots;
+};
+
+// Advance the garden to `now`: the shared water drains hour for hour, plants grow only while
+// it lasts, and once the garden has been dry for a day every plant wilts and slowly loses
+// growth. Used live and for offline catch-up alike. Returns the same state object when nothing changed.
+export const simulateGarden = (state: GameState, now: Date = new Date()): GameState => {
+  const garden = state.gardenOfGrowth;
+  const plots = unlockPlots(state);
+  const since = garden.lastGrowthUpdate;
+  // Growth advances in whole minutes, so the frequent ticks hand back the same state until one has passed
+  const elapsedMinutes = since && garden.isPlanted ? Math.floor((now.getTime() - since.getTime()) / MINUTE_MS) : 0;
+  if (plots.length === garden.plots.length && elapsedMinutes <= 0) return state;
+  const elapsedHours = Math.max(0, elapsedMinutes) / 60;
+
+  const wateredHours = Math.max(0, Math.min(elapsedHours, garden.waterHoursRemaining));
+  const dryHours = Math.max(0, elapsedHours - wateredHours);
+  const hoursDry = garden.hoursDry + dryHours;
+  const wiltingHours = Math.max(0, hoursDry - Math.max(garden.hoursDry, WILT_AFTER_DRY_HOURS));
+  // A growth skill only speeds up the watered minutes it overlaps
+  const boost = since ? averageSkillMultiplier(state, 'gardenGrowthMultiplier', since, new Date(since.getTime() + wateredHours * HOUR_MS)) : 1;
+
+  return {
+    ...state,
+    gardenOfGrowth: summarizeGarden({
+      ...garden,
+      plots: plots.map(plot => wiltPlot(growPlot(plot, wateredHours, boost), wiltingHours)),
+      lastGrowthUpdate: since ? new Date(since.getTime() + elapsedMinutes * MINUTE_MS) : garden.isPlanted ? now : since,
+      waterHoursRemaining: garden.waterHoursRemaining - wateredHours,
+      hoursDry
+    })
+  };
+};
+
+const updatePlot = (state: GameState, plotIndex: number, update: (plot: GardenPlot) => GardenPlot): GameState => ({
+  ...state,
+  gardenOfGrowth: summarizeGarden({
+    ...state.gardenOfGrowth,
+    plots: state.gardenOfGrowth.plots.map((plot, index) => (index === plotIndex ? update(plot) : plot))
+  })
+});
+
+export const plantSeed = (state: GameState, plotIndex: number, species: PlantSpecies, now: Date = new Date()): GameState | null => {
+  const settled = simulateGarden(state, now);
+  const plot = settled.gardenOfGrowth.plots[plotIndex];
+  const { seedCost } = plantSpecies[species];
+  if (!plot || plot.species || settled.coins < seedCost) {
+    return null;
+  }
+
+  // The first seed comes with a day of water
+  const firstPlant = !settled.gardenOfGrowth.isPlanted;
+  const planted = updatePlot({ ...settled, coins: settled.coins - seedCost }, plotIndex, () => ({
+    ...createEmptyPlot(),
+    species,
+    plantedAt: now
+  }));
+
+  return {
+    ...planted,
+    gardenOfGrowth: {
+      ...planted.gardenOfGrowth,
+      ...(firstPlant && { lastGrowthUpdate: now, lastWatered: now, hoursDry: 0, waterHoursRemaining: Math.max(24, planted.gardenOfGrowth.waterHoursRemaining) })
+    }
+  };
+};
+
+export const buyWater = (state: GameState, hours: number, now: Date = new Date()): GameState | null => {
+  const option = getWaterOptions(state.gardenOfGrowth).find(candidate => candidate.hours === hours);
+  if (!option || state.coins < option.cost) {
+    return null;
+  }
+
+  // Settle the time so far first, so the new water only counts from now
+  const settled = simulateGarden(state, now);
+  return {
+    ...settled,
+    coins: settled.coins - option.cost,
+    gardenOfGrowth: {
+      ...settled.gardenOfGrowth,
+      waterHoursRemaining: settled.gardenOfGrowth.waterHoursRemaining + hours,
+      hoursDry: 0,
+      lastWatered: now
+    }
+  };
+};
+
+export const applyFertilizer = (state: GameState, plotIndex: number, type: FertilizerType, now: Date = new Date()): GameState | null => {
+  const settled = simulateGarden(state, now);
+  const plot = settled.gardenOfGrowth.plots[plotIndex];
+  const { shinyGemCost, hours } = fertilizerInfo[type];
+  if (!plot?.species || settled.shinyGems < shinyGemCost || plot.growthCm >= plantSpecies[plot.species].maxGrowthCm) {
+    return null;
+  }
+
+  return updatePlot({ ...settled, shinyGems: settled.shinyGems - shinyGemCost }, plotIndex, current => ({
+    ...current,
+    fertilizer: type,
+    fertilizerHoursRemaining: hours
+  }));
+};
+
+// Gather a fully grown harvestable plant; it starts over from seed in the same plot
+export const harvestPlot = (state: GameState, plotIndex: number, now: Date = new Date()): { state: GameState; harvest: HarvestYield } | null => {
+  const settled = simulateGarden(state, now);
+  const plot = settled.gardenOfGrowth.plots[plotIndex];
+  if (!plot?.species || !isHarvestable(plot)) return null;
+
+  const yielded = plantSpecies[plot.species].harvest!(settled);
+  const harvest = { ...yielded, gems: Math.floor(yielded.gems * activeSkillEffects(settled, now).gemMultiplier) };
+  const consumables = { ...settled.consumables };
+  (Object.entries(harvest.consumables) as [ConsumableType, number][]).forEach(([type, amount]) => {
+    consumables[type] += amount;
+  });
+
+  const harvested = updatePlot({
+    ...settled,
+    gems: settled.gems + harvest.gems,
+    consumables,
+    statistics: { ...settled.statistics, gemsEarned: settled.statistics.gemsEarned + harvest.gems }
+  }, plotIndex, current => ({ ...current, growthCm: 0, plantedAt: now, harvests: current.harvests + 1 }));
+
+  return {
+    state: { ...harvested, gardenOfGrowth: { ...harvested.gardenOfGrowth, totalHarvests: harvested.gardenOfGrowth.totalHarvests + 1 } },
+    harvest
+  };
+};
@@ -0,0 +1,29 @@
+// Framework-free game rules. Every action takes a GameState and returns the next one,
+// so the same rules drive the React hook, headless tests and balance scripts.
+export * from './types';
+export * from './random';
+export * from './state';
+export * from './stats';
+export * from './save';
+export * from './combat';
+export * from './inventory';
+export * from './shop';
+export * from './relics';
+export * from './progression';
+export * from './research';
+export * from './offline';
+export * from './events';
+export * from './criteria';
+export * from './achievements';
+export * from './mining';
+export * from './drones';
+export * from './garden';
+export * from './modifiers';
+export * from './adventure';
+export * from './status';
+export * from './bosses';
+export * from './drops';
+export * from './runs';
+export * from './skills';
+export * from './settings';
+export * from './validation';
@@ -0,0 +1,260 @@
+import { GameState, Weapon, Armor } from '../types/game';
+
+// Equipment functions
+export const equipWeapon = (state: GameState, weapon: Weapon): GameState => ({
+  ...state,
+  inventory: {
+    ...state.inventory,
+    currentWeapon: weapon
+  }
+});
+
+export const equipArmor = (state: GameState, armor: Armor): GameState => ({
+  ...state,
+  inventory: {
+    ...state.inventory,
+    currentArmor: armor
+  }
+});
+
+export const upgradeWeapon = (state: GameState, weaponId: string): GameState => {
+  const weapon = state.inventory.weapons.find(w => w.id === weaponId);
+  if (!weapon || state.gems < weapon.upgradeCost) return state;
+
+  const weaponIndex = state.inventory.weapons.findIndex(w => w.id === weaponId);
+  if (weaponIndex === -1) return state;
+
+  const updatedWeapons = [...state.inventory.weapons];
+  updatedWeapons[weaponIndex] = {
+    ...updatedWeapons[weaponIndex],
+    level: updatedWeapons[weaponIndex].level + 1,
+    upgradeCost: Math.floor(updatedWeapons[weaponIndex].upgradeCost * 1.5)
+  };
+
+  // Update current weapon if it's the one being upgraded
+  const newCurrentWeapon = state.inventory.currentWeapon?.id === weaponId
+    ? updatedWeapons[weaponIndex]
+    : state.inventory.currentWeapon;
+
+  return {
+    ...state,
+    gems: state.gems - weapon.upgradeCost,
+    statistics: {
+      ...state.statistics,
+      itemsUpgraded: state.statistics.itemsUpgraded + 1
+    },
+    inventory: {
+      ...state.inventory,
+      weapons: updatedWeapons,
+      currentWeapon: newCurrentWeapon
+    }
+  };
+};
+
+export const upgradeArmor = (state: GameState, armorId: string): GameState => {
+  const armor = state.inventory.armor.find(a => a.id === armorId);
+  if (!armor || state.gems < armor.upgradeCost) return state;
+
+  const armorIndex = state.inventory.armor.findIndex(a => a.id === armorId);
+  if (armorIndex === -1) return state;
+
+  const updatedArmor = [...state.inventory.armor];
+  updatedArmor[armorIndex] = {
+    ...updatedArmor[armorIndex],
+    level: updatedArmor[armorIndex].level + 1,
+    upgradeCost: Math.floor(updatedArmor[armorIndex].upgradeCost * 1.5)
+  };
+
+  // Update current armor if it's the one being upgraded
+  const newCurrentArmor = state.inventory.currentArmor?.id === armorId
+    ? updatedArmor[armorIndex]
+    : state.inventory.currentArmor;
+
+  return {
+    ...state,
+    gems: state.gems - armor.upgradeCost,
+    statistics: {
+      ...state.statistics,
+      itemsUpgraded: state.statistics.itemsUpgraded + 1
+    },
+    inventory: {
+      ...state.inventory,
+      armor: updatedArmor,
+      currentArmor: newCurrentArmor
+    }
+  };
+};
+
+export const sellWeapon = (state: GameState, weaponId: string): GameState => {
+  const weapon = state.inventory.weapons.find(w => w.id === weaponId);
+  if (!weapon || weapon.id === state.inventory.currentWeapon?.id) return state;
+
+  return {
+    ...state,
+    coins: state.coins + weapon.sellPrice,
+    statistics: {
+      ...state.statistics,
+      itemsSold: state.statistics.itemsSold + 1
+    },
+    inventory: {
+      ...state.inventory,
+      weapons: state.inventory.weapons.filter(w => w.id !== weaponId)
+    }
+  };
+};
+
+export const sellArmor = (state: GameState, armorId: string): GameState => {
+  const armor = state.inventory.armor.find(a => a.id === armorId);
+  if (!armor || armor.id === state.inventory.currentArmor?.id) return state;
+
+  return {
+    ...state,
+    coins: state.coins + armor.sellPrice,
+    statistics: {
+      ...state.statistics,
+      itemsSold: state.statistics.itemsSold + 1
+    },
+    inventory: {
+      ...state.inventory,
+      armor: state.inventory.armor.filter(a => a.id !== armorId)
+    }
+  };
+};
+
+export const discardItem = (state: GameState, itemId: string, type: 'weapon' | 'armor'): GameState => ({
+  ...state,
+  inventory: {
+    ...state.inventory,
+    weapons: type === 'weapon' ? state.inventory.weapons.filter(w => w.id !== itemId) : state.inventory.weapons,
+    armor: type === 'armor' ? state.inventory.armor.filter(a => a.id !== itemId) : state.inventory.armor
+  }
+});
+
+// Bulk actions
+export const bulkSell = (state: GameState, itemIds: string[], type: 'weapon' | 'armor'): GameState => {
+  let totalValue = 0;
+  let newWeapons = [...state.inventory.weapons];
+  let newArmor = [...state.inventory.armor];
+
+  if (type === 'weapon') {
+    itemIds.forEach(id => {
+      const weapon = newWeapons.find(w => w.id === id);
+      if (weapon && weapon.id !== state.inventory.currentWeapon?.id) {
+        totalValue += weapon.sellPrice;
+        newWeapons = newWeapons.filter(w => w.id !== id);
+      }
+    });
+  } else {
+    itemIds.forEach(id => {
+      const armor = newArmor.find(a => a.id === id);
+      if (armor && armor.id !== state.inventory.currentArmor?.id) {
+        totalValue += armor.sellPrice;
+        newArmor = newArmor.filter(a => a.id !== id);
+      }
+    });
+  }
+
+  const soldCount = state.inventory.weapons.length + state.inventory.armor.length - newWeapons.length - newArmor.length;
+
+  return {
+    ...state,
+    coins: state.coins + totalValue,
+    statistics: {
+      ...state.statistics,
+      itemsSold: state.statistics.itemsSold + soldCount
+    },
+    inventory: {
+      ...state.inventory,
+      weapons: newWeapons,
+      armor: newArmor
+    }
+  };
+};
+
+export const bulkUpgrade = (state: GameState, itemIds: string[], type: 'weapon' | 'armor'): GameState => {
+  let totalCost = 0;
+  const newWeapons = [...state.inventory.weapons];
+  const newArmor = [...state.inventory.armor];
+
+  let upgradedCount = 0;
+
+  if (type === 'weapon') {
+    itemIds.forEach(id => {
+      const weaponIndex = newWeapons.findIndex(w => w.id === id);
+      if (weaponIndex !== -1) {
+        upgradedCount++;
+        totalCost += newWeapons[weaponIndex].upgradeCost;
+        newWeapons[weaponIndex] = {
+          ...newWeapons[weaponIndex],
+          level: newWeapons[weaponIndex].level + 1,
+          upgradeCost: Math.floor(newWeapons[weaponIndex].upgradeCost * 1.5)
+        };
+      }
+    });
+  } else {
+    itemIds.forEach(id => {
+      const armorIndex = newArmor.findIndex(a => a.id === id);
+      if (armorIndex !== -1) {
+        upgradedCount++;
+        totalCost += newArmor[armorIndex].upgradeCost;
+        newArmor[armorIndex] = {
+          ...newArmor[armorIndex],
+          level: newArmor[armorIndex].level + 1,
+          upgradeCost: Math.floor(newArmor[armorIndex].upgradeCost * 1.5)
+        };
+      }
+    });
+  }
+
+  if (state.gems < totalCost) return state;
+
+  // Update current weapon/armor if they were upgraded
+  const newCurrentWeapon = state.inventory.currentWeapon
+    ? newWeapons.find(w => w.id === state.inventory.currentWeapon!.id) || state.inventory.currentWeapon
+    : null;
+
+  const newCurrentArmor = state.inventory.currentArmor
+    ? newArmor.find(a => a.id === state.inventory.currentArmor!.id) || state.inventory.currentArmor
+    : null;
+
+  return {
+    ...state,
+    gems: state.gems - totalCost,
+    statistics: {
+      ...state.statistics,
+      itemsUpgraded: state.statistics.itemsUpgraded + upgradedCount
+    },
+    inventory: {
+      ...state.inventory,
+      weapons: newWeapons,
+      armor: newArmor,
+      currentWeapon: newCurrentWeapon,
+      currentArmor: newCurrentArmor
+    }
+  };
+};
+
+// Put a newly found item in the inventory and catalogue it in the collection book
+export const addCollectedItem = (state: GameState, item: Weapon | Armor, type: 'weapon' | 'armor'): GameState => {
+  const { collectionBook } = state;
+  return {
+    ...state,
+    inventory: {
+      ...state.inventory,
+      weapons: type === 'weapon' ? [...state.inventory.weapons, item as Weapon] : state.inventory.weapons,
+      armor: type === 'armor' ? [...state.inventory.armor, item as Armor] : state.inventory.armor
+    },
+    collectionBook: {
+      ...collectionBook,
+      weapons: type === 'weapon' ? { ...collectionBook.weapons, [item.name]: true } : collectionBook.weapons,
+      armor: type === 'armor' ? { ...collectionBook.armor, [item.name]: true } : collectionBook.armor,
+      totalWeaponsFound: collectionBook.totalWeaponsFound + (type === 'weapon' ? 1 : 0),
+      totalArmorFound: collectionBook.totalArmorFound + (type === 'armor' ? 1 : 0),
+      rarityStats: { ...collectionBook.rarityStats, [item.rarity]: collectionBook.rarityStats[item.rarity] + 1 }
+    },
+    statistics: {
+      ...state.statistics,
+      itemsCollected: state.statistics.itemsCollected + 1
+    }
+  };
+};
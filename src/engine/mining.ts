@@ -0,0 +1,155 @@
+import { CraftingOre, GameState, Mining, MiningCell, MiningTool, OreType } from '../types/game';
+import { activeSkillEffects } from './modifiers';
+import { ActionResult, RandomSource } from './types';
+
+export const MINING_GRID_WIDTH = 6;
+export const MINING_GRID_HEIGHT = 5;
+
+// Each layer down makes every cell this much harder to break
+const HARDNESS_PER_DEPTH = 0.2;
+
+export interface OreDefinition {
+  name: string;
+  emoji: string;
+  color: string;
+  hardness: number; // at depth 1
+  minDepth: number;
+  weight: number; // how common among cells that aren't shiny
+}
+
+export const oreDefinitions: Record<OreType, OreDefinition> = {
+  stone: { name: 'Stone', emoji: '🪨', color: 'border-stone-500 bg-stone-800', hardness: 1, minDepth: 1, weight: 40 },
+  gem: { name: 'Gem', emoji: '💎', color: 'border-purple-400 bg-purple-900', hardness: 2, minDepth: 1, weight: 40 },
+  shiny_gem: { name: 'Shiny Gem', emoji: '✨', color: 'border-yellow-400 bg-yellow-900', hardness: 5, minDepth: 1, weight: 0 },
+  copper: { name: 'Copper Ore', emoji: '🟠', color: 'border-orange-500 bg-orange-950', hardness: 3, minDepth: 2, weight: 15 },
+  iron: { name: 'Iron Ore', emoji: '⚙️', color: 'border-slate-300 bg-slate-700', hardness: 5, minDepth: 4, weight: 10 },
+  mithril: { name: 'Mithril Ore', emoji: '🔷', color: 'border-cyan-300 bg-cyan-950', hardness: 8, minDepth: 7, weight: 5 }
+};
+
+const craftingOres: CraftingOre[] = ['copper', 'iron', 'mithril'];
+
+// Better tools take more hits off a cell per swing; the best owned tool is the one in use
+export const miningTools: MiningTool[] = [
+  { id: 'wooden_pickaxe', name: 'Wooden Pickaxe', description: 'A humble start. 1 hit per swing.', cost: 0, efficiency: 1, owned: true },
+  { id: 'stone_pickaxe', name: 'Stone Pickaxe', description: 'Breaks cells twice as fast.', cost: 2500, efficiency: 2, owned: false },
+  { id: 'iron_pickaxe', name: 'Iron Pickaxe', description: 'Makes short work of copper and iron.', cost: 25000, efficiency: 4, owned: false },
+  { id: 'diamond_drill', name: 'Diamond Drill', description: 'Chews through the deep layers.', cost: 250000, efficiency: 8, owned: false },
+  { id: 'plasma_drill', name: 'Plasma Drill', description: 'Nothing stands in its way.', cost: 2500000, efficiency: 16, owned: false }
+];
+
+export interface MiningResult {
+  gems: number;
+  shinyGems: number;
+  ore: CraftingOre | null;
+  broken: boolean; // false while the cell still needs more hits
+}
+
+export const getMiningEfficiency = (mining: Mining): number =>
+  Math.max(1, ...mining.tools.filter(tool => tool.owned).map(tool => tool.efficiency));
+
+const getCellHardness = (ore: OreType, depth: number): number =>
+  Math.ceil(oreDefinitions[ore].hardness * (1 + (depth - 1) * HARDNESS_PER_DEPTH));
+
+// Deeper layers hold bigger gem veins
+const getGemYield = (depth: number): number => 1 + Math.floor((depth - 1) / 2);
+
+const rollOre = (depth: number, shinyChance: number, rng: RandomSource): OreType => {
+  const available = (Object.keys(oreDefinitions) as OreType[])
+    .filter(ore => depth >= oreDefinitions[ore].minDepth && oreDefinitions[ore].weight > 0);
+  const total = available.reduce((sum, ore) => sum + oreDefinitions[ore].weight, 0);
+  let roll = rng() * total;
+  const ore = available.find(candidate => (roll -= oreDefinitions[candidate].weight) < 0) || 'stone';
+  // Any gem vein may turn out shiny (5% chance unless a skill improves it)
+  return ore === 'gem' && rng() < shinyChance ? 'shiny_gem' : ore;
+};
+
+export const generateMiningLayer = (depth: number, shinyChance: number, rng: RandomSource): MiningCell[][] =>
+  Array.from({ length: MINING_GRID_HEIGHT }, () =>
+    Array.from({ length: MINING_GRID_WIDTH }, () => {
+      const ore = rollOre(depth, shinyChance, rng);
+      const hardness = getCellHardness(ore, depth);
+      return { ore, hardness, hitsLeft: hardness };
+    })
+  );
+
+// A layer is done once everything but stone has been dug out
+export const isLayerCleared = (grid: MiningCell[][]): boolean =>
+  grid.length > 0 && grid.every(row => row.every(cell => cell.ore === 'stone' || cell.hitsLeft <= 0));
+
+// Dig the first layer, or descend to the next one once the current layer is cleared
+export const digNextLayer = (state: GameState, rng: RandomSource, now: Date = new Date()): GameState | null => {
+  const { mining } = state;
+  const firstLayer = mining.grid.length === 0;
+  if (!firstLayer && !isLayerCleared(mining.grid)) return null;
+
+  const depth = firstLayer ? mining.depth : mining.depth + 1;
+  const skill = activeSkillEffects(state, now);
+  return {
+    ...state,
+    mining: {
+      ...mining,
+      depth,
+      deepestDepth: Math.max(mining.deepestDepth, depth),
+      grid: generateMiningLayer(depth, skill.shinyChance, rng)
+    }
+  };
+};
+
+// Swing at the cell at (x, y); it pays out once its hardness is worn down
+export const mineGem = (state: GameState, x: number, y: number, now: Date = new Date()): ActionResult<MiningResult> | null => {
+  const { mining } = state;
+  const cell = mining.grid[y]?.[x];
+  if (!cell || cell.hitsLeft <= 0) return null;
+
+  const hitsLeft = Math.max(0, cell.hitsLeft - getMiningEfficiency(mining));
+  const grid = mining.grid.map((row, rowIndex) =>
+    rowIndex === y ? row.map((current, colIndex) => (colIndex === x ? { ...current, hitsLeft } : current)) : row
+  );
+
+  const broken = hitsLeft === 0;
+  const skill = activeSkillEffects(state, now);
+  const gems = broken && cell.ore === 'gem' ? Math.floor(getGemYield(mining.depth) * skill.gemMultiplier) : 0;
+  const shinyGems = broken && cell.ore === 'shiny_gem' ? 1 : 0;
+  const ore = broken && craftingOres.includes(cell.ore as CraftingOre) ? cell.ore as CraftingOre : null;
+
+  return {
+    state: {
+      ...state,
+      gems: state.gems + gems,
+      shinyGems: state.shinyGems + shinyGems,
+      mining: {
+        ...mining,
+        grid,
+        totalGemsMined: mining.totalGemsMined + gems,
+        totalShinyGemsMined: mining.totalShinyGemsMined + shinyGems,
+        ores: ore ? { ...mining.ores, [ore]: mining.ores[ore] + 1 } : mining.ores,
+        totalOresMined: mining.totalOresMined + (ore ? 1 : 0)
+      }
+    },
+    result: { gems, shinyGems, ore, broken }
+  };
+};
+
+export const buyMiningTool = (state: GameState, toolId: string): GameState | null => {
+  const tool = state.mining.tools.find(candidate => candidate.id === toolId);
+  if (!tool || tool.owned || state.coins < tool.cost) return null;
+
+  return {
+    ...state,
+    coins: state.coins - tool.cost,
+    mining: {
+      ...state.mining,
+      tools: state.mining.tools.map(candidate => (candidate.id === toolId ? { ...candidate, owned: true } : candidate))
+    }
+  };
+};
+
+export const exchangeShinyGems = (state: GameState, amount: number): GameState | null => {
+  if (state.shinyGems < amount) return null;
+
+  return {
+    ...state,
+    shinyGems: state.shinyGems - amount,
+    gems: state.gems + (amount * 10)
+  };
+};
@@ -0,0 +1,244 @@
+import { GameState, MenuSkill, RelicItem, Weapon } from '../types/game';
+import { generateRelicStock } from '../utils/gameUtils';
+import { generateId } from '../utils/random';
+import { RandomSource } from './types';
+
+type Rarity = Weapon['rarity'];
+
+// Every hook a menu skill can plug into. Neutral values leave the game unchanged.
+export interface SkillEffects {
+  coinMultiplier: number;
+  gemMultiplier: number;
+  xpMultiplier: number;
+  damageDealtMultiplier: number;
+  damageTakenMultiplier: number;
+  statMultiplier: number; // ATK, DEF and max HP
+  maxHpMultiplier: number;
+  durabilityLossMultiplier: number;
+  streakGainMultiplier: number;
+  protectsStreak: boolean;
+  answerTimeMultiplier: number;
+  removesWrongOption: boolean;
+  researchCostMultiplier: number;
+  gardenGrowthMultiplier: number;
+  shinyChance: number; // chance that a gem vein in a newly dug mining layer is shiny
+  enchantChance: number; // chance that epic+ chest items come enchanted
+  minChestRarity: Rarity | null;
+  chestRerolls: number; // extra rarity rolls per chest, keeping the best
+  duplicatesItems: boolean;
+  revivesOnDefeat: boolean;
+  guaranteedRelicRarity: RelicItem['rarity'] | null;
+  statusImmunity: boolean;
+  coinsPerMinute: number;
+  healPercentPerMinute: number;
+}
+
+export const NO_SKILL_EFFECTS: SkillEffects = {
+  coinMultiplier: 1,
+  gemMultiplier: 1,
+  xpMultiplier: 1,
+  damageDealtMultiplier: 1,
+  damageTakenMultiplier: 1,
+  statMultiplier: 1,
+  maxHpMultiplier: 1,
+  durabilityLossMultiplier: 1,
+  streakGainMultiplier: 1,
+  protectsStreak: false,
+  answerTimeMultiplier: 1,
+  removesWrongOption: false,
+  researchCostMultiplier: 1,
+  gardenGrowthMultiplier: 1,
+  shinyChance: 0.05,
+  enchantChance: 0,
+  minChestRarity: null,
+  chestRerolls: 0,
+  duplicatesItems: false,
+  revivesOnDefeat: false,
+  guaranteedRelicRarity: null,
+  statusImmunity: false,
+  coinsPerMinute: 0,
+  healPercentPerMinute: 0
+};
+
+export interface SkillDefinition {
+  durationHours: number;
+  description: string;
+  effects: Partial<SkillEffects>;
+  charges?: number; // uses before the skill ends early
+  onActivate?: (state: GameState, rng: RandomSource, now: Date) => GameState;
+}
+
+export const skillRegistry: Record<MenuSkill['type'], SkillDefinition> = {
+  coin_vacuum: { durationHours: 4, description: 'Get 15 free coins per minute of play time', effects: { coinsPerMinute: 15 } },
+  treasurer: { durationHours: 8, description: 'Guarantees next chest opened is epic or better', effects: { minChestRarity: 'epic' }, charges: 1 },
+  xp_surge: { durationHours: 24, description: 'Gives 300% XP gains for 24 hours', effects: { xpMultiplier: 3 } },
+  luck_gem: { durationHours: 1, description: 'Every gem vein in mining layers dug for 1 hour is a shiny gem', effects: { shinyChance: 1 } },
+  enchanter: { durationHours: 6, description: 'Epic+ chest items have 80% chance to be enchanted', effects: { enchantChance: 0.8 } },
+  time_warp: { durationHours: 12, description: 'Get 50% more time to answer questions for 12 hours', effects: { answerTimeMultiplier: 1.5 } },
+  golden_touch: { durationHours: 8, description: 'All coin rewards are doubled for 8 hours', effects: { coinMultiplier: 2 } },
+  knowledge_boost: { durationHours: 24, description: 'Knowledge streaks build 50% faster for 24 hours', effects: { streakGainMultiplier: 1.5 } },
+  durability_master: { durationHours: 6, description: 'Items lose no durability for 6 hours', effects: { durabilityLossMultiplier: 0 } },
+  relic_finder: { durationHours: 24, description: 'Next 3 Yojef Market refreshes have guaranteed legendary relics', effects: { guaranteedRelicRarity: 'legendary' }, charges: 3 },
+  stat_amplifier: { durationHours: 4, description: 'All stats (ATK, DEF, HP) increased by 50% for 4 hours', effects: { statMultiplier: 1.5 } },
+  question_master: { durationHours: 2, description: 'One wrong answer is removed from multiple-choice questions for 2 hours', effects: { removesWrongOption: true } },
+  gem_magnet: { durationHours: 3, description: 'Triple gem rewards from all sources for 3 hours', effects: { gemMultiplier: 3 } },
+  streak_guardian: { durationHours: 1, description: 'Knowledge streak cannot be broken for 1 hour', effects: { protectsStreak: true } },
+  revival_blessing: { durationHours: 8, description: 'Survive 3 defeats at half health', effects: { revivesOnDefeat: true }, charges: 3 },
+  zone_skipper: {
+    durationHours: 1,
+    description: 'Skip directly to zone +5 without fighting',
+    effects: {},
+    onActivate: state => ({
+      ...state,
+      zone: state.zone + 5,
+      statistics: { ...state.statistics, zonesReached: Math.max(state.statistics.zonesReached, state.zone + 5) }
+    })
+  },
+  item_duplicator: { durationHours: 8, description: 'Next item found is automatically duplicated', effects: { duplicatesItems: true }, charges: 1 },
+  research_accelerator: { durationHours: 6, description: 'Research costs 50% less for 6 hours', effects: { researchCostMultiplier: 0.5 } },
+  garden_booster: { durationHours: 2, description: 'Garden grows 5x faster for 2 hours', effects: { gardenGrowthMultiplier: 5 } },
+  market_refresh: {
+    durationHours: 1,
+    description: 'Instantly refresh Yojef Market with new relics',
+    effects: {},
+    onActivate: (state, rng, now) => ({
+      ...state,
+      yojefMarket: {
+        ...state.yojefMarket,
+        items: generateRelicStock(rng),
+        soldOutIds: [],
+        lastRefresh: now
+      }
+    })
+  },
+  coin_multiplier: { durationHours: 4, description: 'All coin gains are multiplied by 3x for 4 hours', effects: { coinMultiplier: 3 } },
+  gem_multiplier: { durationHours: 3, description: 'All gem gains are multiplied by 2.5x for 3 hours', effects: { gemMultiplier: 2.5 } },
+  xp_multiplier: { durationHours: 2, description: 'All experience gains are multiplied by 4x for 2 hours', effects: { xpMultiplier: 4 } },
+  damage_boost: { durationHours: 5, description: 'Deal 100% more damage in combat for 5 hours', effects: { damageDealtMultiplier: 2 } },
+  defense_boost: { durationHours: 6, description: 'Take 75% less damage in combat for 6 hours', effects: { damageTakenMultiplier: 0.25 } },
+  health_boost: { durationHours: 8, description: 'Maximum health increased by 200% for 8 hours', effects: { maxHpMultiplier: 3 } },
+  speed_boost: { durationHours: 3, description: 'Answer time increased by 100% for 3 hours', effects: { answerTimeMultiplier: 2 } },
+  luck_boost: { durationHours: 4, description: 'Chests roll rarity twice and shiny gems are 50% more common for 4 hours', effects: { chestRerolls: 1, shinyChance: 0.075 } },
+  magic_shield: { durationHours: 2, description: 'Immune to all negative effects for 2 hours', effects: { statusImmunity: true } },
+  auto_heal: { durationHours: 1, description: 'Automatically heal 25% HP every minute for 1 hour', effects: { healPercentPerMinute: 25 } }
+};
+
+export const menuSkillTypes = Object.keys(skillRegistry) as MenuSkill['type'][];
+
+const isSkillLive = (skill: MenuSkill, now: Date): boolean =>
+  now < skill.expiresAt && (skill.charges === undefined || skill.charges > 0);
+
+// Effects of the active menu skill, or neutral effects when none is running
+export const activeSkillEffects = (state: GameState, now: Date = new Date()): SkillEffects => {
+  const skill = state.skills.activeMenuSkill;
+  if (!skill || !isSkillLive(skill, now)) return NO_SKILL_EFFECTS;
+  return { ...NO_SKILL_EFFECTS, ...skillRegistry[skill.type].effects };
+};
+
+// Seconds of [from, to] during which the skill was active
+export const skillOverlapSeconds = (skill: MenuSkill, from: Date, to: Date): number => {
+  const start = Math.max(skill.activatedAt.getTime(), from.getTime());
+  const end = Math.min(skill.expiresAt.getTime(), to.getTime());
+  return Math.max(0, (end - start) / 1000);
+};
+
+type MultiplierEffect = 'coinMultiplier' | 'gemMultiplier' | 'xpMultiplier' | 'gardenGrowthMultiplier';
+
+// A skill multiplier averaged over [from, to], so a boost only counts for the part of a
+// catch-up stretch it was actually running
+export const averageSkillMultiplier = (state: GameState, effect: MultiplierEffect, from: Date, to: Date): number => {
+  const skill = state.skills.activeMenuSkill;
+  const seconds = (to.getTime() - from.getTime()) / 1000;
+  if (!skill || seconds <= 0 || (skill.charges !== undefined && skill.charges <= 0)) return 1;
+  const multiplier = { ...NO_SKILL_EFFECTS, ...skillRegistry[skill.type].effects }[effect];
+  return 1 + (multiplier - 1) * (skillOverlapSeconds(skill, from, to) / seconds);
+};
+
+// Create a skill of the given type and apply its activation effect
+export const activateMenuSkill = (state: GameState, type: MenuSkill['type'], rng: RandomSource, now: Date): GameState => {
+  const definition = skillRegistry[type];
+  const skill: MenuSkill = {
+    id: generateId(rng),
+    name: type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
+    description: definition.description,
+    duration: definition.durationHours,
+    activatedAt: now,
+    expiresAt: new Date(now.getTime() + definition.durationHours * 60 * 60 * 1000),
+    type,
+    charges: definition.charges,
+    ticksApplied: 0
+  };
+
+  const activated: GameState = { ...state, skills: { ...state.skills, activeMenuSkill: skill } };
+  return definition.onActivate ? definition.onActivate(activated, rng, now) : activated;
+};
+
+// Use up one charge of the active skill; it ends when the last one is spent
+export const consumeSkillCharge = (state: GameState): GameState => {
+  const skill = state.skills.activeMenuSkill;
+  if (!skill || skill.charges === undefined) return state;
+
+  const charges = skill.charges - 1;
+  return {
+    ...state,
+    skills: { ...state.skills, activeMenuSkill: charges > 0 ? { ...skill, charges } : null }
+  };
+};
+
+// Whole minutes of the skill's lifetime that have passed by `now`
+const elapsedSkillMinutes = (skill: MenuSkill, now: Date): number => {
+  const end = Math.min(now.getTime(), skill.expiresAt.getTime());
+  return Math.max(0, Math.floor((end - skill.activatedAt.getTime()) / 60000));
+};
+
+// Mark every elapsed minute as paid out, for time that was credited some other way (offline rewards)
+export const skipSkillTicks = (state: GameState, now: Date): GameState => {
+  const skill = state.skills.activeMenuSkill;
+  if (!skill) return state;
+  return { ...state, skills: { ...state.skills, activeMenuSkill: { ...skill, ticksApplied: elapsedSkillMinutes(skill, now) } } };
+};
+
+// Pay out per-minute effects that have come due and end the skill once it expires.
+// Returns the same state object when there is nothing to do.
+export const tickMenuSkill = (state: GameState, now: Date = new Date()): GameState => {
+  const skill = state.skills.activeMenuSkill;
+  if (!skill) return state;
+
+  let newState = state;
+  const effects = { ...NO_SKILL_EFFECTS, ...skillRegistry[skill.type].effects };
+  const dueTicks = elapsedSkillMinutes(skill, now) - (skill.ticksApplied || 0);
+
+  if (dueTicks > 0) {
+    const coins = effects.coinsPerMinute * dueTicks;
+    const heal = Math.floor(state.playerStats.maxHp * (effects.healPercentPerMinute / 100) * dueTicks);
+    newState = {
+      ...newState,
+      coins: newState.coins + coins,
+      playerStats: { ...newState.playerStats, hp: Math.min(newState.playerStats.maxHp, newState.playerStats.hp + heal) },
+      statistics: { ...newState.statistics, coinsEarned: newState.statistics.coinsEarned + coins },
+      skills: { ...newState.skills, activeMenuSkill: { ...skill, ticksApplied: (skill.ticksApplied || 0) + dueTicks } }
+    };
+  }
+
+  if (!isSkillLive(skill, now)) {
+    newState = { ...newState, skills: { ...newState.skills, activeMenuSkill: null } };
+  }
+
+  return newState;
+};
+
+// Player-facing summary of what the skill is doing right now
+export const describeSkillEffect = (skill: MenuSkill): string => {
+  const { description, effects } = skillRegistry[skill.type];
+  const ticks = skill.ticksApplied || 0;
+  if (skill.charges !== undefined) {
+    return `${description} (${skill.charges} use${skill.charges === 1 ? '' : 's'} left)`;
+  }
+  if (effects.coinsPerMinute) {
+    return `${description} (${(effects.coinsPerMinute * ticks).toLocaleString()} coins collected so far)`;
+  }
+  if (effects.healPercentPerMinute) {
+    return `${description} (${ticks} heal${ticks === 1 ? '' : 's'} so far)`;
+  }
+  return description;
+};
@@ -0,0 +1,108 @@
+import { GameState, OfflineRewardSource } from '../types/game';
+import { DRONE_OFFLINE_SOURCE, getDroneOutput } from './drones';
+import { NO_SKILL_EFFECTS, skillOverlapSeconds, skillRegistry, skipSkillTicks } from './modifiers';
+
+// Idle earnings are worth this many zone victories per hour
+const OFFLINE_VICTORIES_PER_HOUR = 5;
+// Absences shorter than this (reloads, quick tab switches) earn nothing
+const MIN_OFFLINE_SECONDS = 60;
+
+// Work out what the player earned between the last save and `now`, one entry per source.
+// Each layer scales everything below it, mirroring how combat rewards stack.
+export const calculateOfflineRewards = (state: GameState, now: Date): { seconds: number; breakdown: OfflineRewardSource[] } => {
+  const { lastSaveTime, maxOfflineHours } = state.offlineProgress;
+  const seconds = Math.min(Math.max(0, (now.getTime() - lastSaveTime.getTime()) / 1000), maxOfflineHours * 3600);
+  if (seconds < MIN_OFFLINE_SECONDS) return { seconds: 0, breakdown: [] };
+
+  const victories = (seconds / 3600) * OFFLINE_VICTORIES_PER_HOUR;
+  const breakdown: OfflineRewardSource[] = [];
+  let coins = 0;
+  let gems = 0;
+
+  const add = (source: string, extraCoins: number, extraGems: number) => {
+    const entry = { source, coins: Math.max(0, Math.floor(extraCoins)), gems: Math.max(0, Math.floor(extraGems)) };
+    if (entry.coins === 0 && entry.gems === 0) return;
+    breakdown.push(entry);
+    coins += entry.coins;
+    gems += entry.gems;
+  };
+
+  add(`Zone ${state.zone} patrols`, victories * (10 + state.zone * 5), victories * (1 + Math.floor(state.zone / 5)));
+
+  const { coinMultiplier, gemMultiplier } = state.research.bonuses;
+  add('Research', coins * (coinMultiplier - 1), gems * (gemMultiplier - 1));
+
+  add('Multipliers', coins * (state.multipliers.coins - 1), gems * (state.multipliers.gems - 1));
+
+  add('Garden of Growth', coins * (state.gardenOfGrowth.totalGrowthBonus / 100), 0);
+
+  // The active menu skill keeps working while away: reward multipliers and per-minute income
+  const skill = state.skills.activeMenuSkill;
+  if (skill) {
+    const effects = { ...NO_SKILL_EFFECTS, ...skillRegistry[skill.type].effects };
+    const activeSeconds = skillOverlapSeconds(skill, lastSaveTime, now);
+    const activeShare = activeSeconds / seconds;
+    add(
+      skill.name,
+      coins * (effects.coinMultiplier - 1) * activeShare + effects.coinsPerMinute * Math.floor(activeSeconds / 60),
+      gems * (effects.gemMultiplier - 1) * activeShare
+    );
+  }
+
+  // Drones fill their own storage, which the player collects at the mine, so this line is not paid out
+  const droneGems = Math.floor(getDroneOutput(state, seconds / 3600, now));
+  if (droneGems > 0) breakdown.push({ source: DRONE_OFFLINE_SOURCE, coins: 0, gems: droneGems, stored: true });
+
+  return { seconds, breakdown };
+};
+
+// Unclaimed rewards from an earlier absence are folded into the same lines
+const mergeBreakdowns = (previous: OfflineRewardSource[], next: OfflineRewardSource[]): OfflineRewardSource[] => {
+  const merged = previous.map(entry => ({ ...entry }));
+  next.forEach(entry => {
+    const existing = merged.find(other => other.source === entry.source);
+    if (existing) {
+      existing.coins += entry.coins;
+      existing.gems += entry.gems;
+    } else {
+      merged.push(entry);
+    }
+  });
+  return merged;
+};
+
+// Credit time away to the unclaimed offline rewards; claimOfflineRewards pays them out
+export const applyOfflineProgress = (state: GameState, now: Date = new Date()): GameState => {
+  const { seconds, breakdown } = calculateOfflineRewards(state, now);
+  if (breakdown.length === 0) return markSaved(state, now);
+
+  const payable = breakdown.filter(entry => !entry.stored);
+  // Drones mine into their storage for the same stretch and pick up from now
+  const { drones } = state.mining;
+  const droneGems = getDroneOutput(state, seconds / 3600, now);
+  return {
+    // Per-minute skill income for this stretch is in the breakdown, so it is not paid again live
+    ...skipSkillTicks(state, now),
+    mining: {
+      ...state.mining,
+      drones: drones.lastTick ? { ...drones, storedGems: drones.storedGems + droneGems, lastTick: now } : drones
+    },
+    offlineProgress: {
+      ...state.offlineProgress,
+      lastSaveTime: now,
+      offlineCoins: state.offlineProgress.offlineCoins + payable.reduce((sum, entry) => sum + entry.coins, 0),
+      offlineGems: state.offlineProgress.offlineGems + payable.reduce((sum, entry) => sum + entry.gems, 0),
+      offlineTime: state.offlineProgress.offlineTime + seconds,
+      breakdown: mergeBreakdowns(state.offlineProgress.breakdown, breakdown)
+    }
+  };
+};
+
+// Offline time is measured from the last write, so stamp it on every save
+export const markSaved = (state: GameState, now: Date = new Date()): GameState => ({
+  ...state,
+  offlineProgress: {
+    ...state.offlineProgress,
+    lastSaveTime: now
+  }
+});
@@ -0,0 +1,84 @@
+import { GameState } from '../types/game';
+
+// Daily rewards
+export const claimDailyReward = (state: GameState, now: Date = new Date()): GameState | null => {
+  const reward = state.dailyRewards.availableReward;
+  if (!reward) return null;
+
+  return {
+    ...state,
+    coins: state.coins + reward.coins,
+    gems: state.gems + reward.gems,
+    dailyRewards: {
+      ...state.dailyRewards,
+      availableReward: null,
+      lastClaimDate: now,
+      rewardHistory: [...state.dailyRewards.rewardHistory, { ...reward, claimed: true, claimDate: now }]
+    }
+  };
+};
+
+// Experience needed to go from `level` to the next one
+export const experienceForLevel = (level: number): number => Math.floor(100 * Math.pow(1.2, level - 1));
+
+// Add experience, leveling up (one skill point per level) as often as it allows
+export const grantExperience = (state: GameState, amount: number): GameState => {
+  let { level, experience, experienceToNext, skillPoints } = state.progression;
+  experience += Math.floor(amount);
+  while (experience >= experienceToNext) {
+    experience -= experienceToNext;
+    level += 1;
+    skillPoints += 1;
+    experienceToNext = experienceForLevel(level);
+  }
+
+  return {
+    ...state,
+    progression: { ...state.progression, level, experience, experienceToNext, skillPoints }
+  };
+};
+
+export const upgradeSkill = (state: GameState, skillId: string): GameState | null => {
+  if (state.progression.skillPoints < 1) return null;
+
+  return {
+    ...state,
+    progression: {
+      ...state.progression,
+      skillPoints: state.progression.skillPoints - 1,
+      unlockedSkills: [...state.progression.unlockedSkills, skillId]
+    }
+  };
+};
+
+export const prestige = (state: GameState): GameState | null => {
+  if (state.progression.level < 50) return null;
+
+  const prestigePoints = Math.floor(state.progression.level / 10);
+
+  return {
+    ...state,
+    progression: {
+      ...state.progression,
+      level: 1,
+      experience: 0,
+      experienceToNext: 100,
+      prestigeLevel: state.progression.prestigeLevel + 1,
+      prestigePoints: state.progression.prestigePoints + prestigePoints
+    }
+  };
+};
+
+// Offline progress
+export const claimOfflineRewards = (state: GameState): GameState => ({
+  ...state,
+  coins: state.coins + state.offlineProgress.offlineCoins,
+  gems: state.gems + state.offlineProgress.offlineGems,
+  offlineProgress: {
+    ...state.offlineProgress,
+    offlineCoins: 0,
+    offlineGems: 0,
+    offlineTime: 0,
+    breakdown: []
+  }
+});
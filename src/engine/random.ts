@@ -0,0 +1,43 @@
+import { GameState, RandomState } from '../types/game';
+import { RandomSource, createSeed, createSeededRandom } from '../utils/random';
+import { ActionResult } from './types';
+
+export const createRandomState = (seed: number = createSeed()): RandomState => ({
+  seed,
+  state: seed
+});
+
+const commitRandom = (state: GameState, random: RandomState): GameState => ({
+  ...state,
+  random
+});
+
+// Run an action with the save's own generator and store the advanced generator state
+// on the result, so the same save and the same actions always roll the same loot.
+export const withSeededRandom = (
+  state: GameState,
+  action: (state: GameState, rng: RandomSource) => GameState | null
+): GameState | null => {
+  const rng = createSeededRandom(state.random.state);
+  const newState = action(state, rng.next);
+  if (!newState) return null;
+
+  return commitRandom(newState, { ...state.random, state: rng.getState() });
+};
+
+export const withSeededOutcome = <T>(
+  state: GameState,
+  action: (state: GameState, rng: RandomSource) => ActionResult<T> | null
+): ActionResult<T> | null => {
+  const rng = createSeededRandom(state.random.state);
+  const outcome = action(state, rng.next);
+  if (!outcome) return null;
+
+  return {
+    ...outcome,
+    state: commitRandom(outcome.state, { ...state.random, state: rng.getState() })
+  };
+};
+
+// Start the save over from a known seed, e.g. to reproduce a reported bug
+export const reseed = (state: GameState, seed: number): GameState => commitRandom(state, createRandomState(seed));
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types/game';
+import { generateRelicItem } from '../utils/gameUtils';
+import { createSeededRandom } from '../utils/random';
+import { equipRelic, sellRelic } from './relics';
+import { createInitialGameState } from './state';
+import { validateGameState } from './validation';
+
+const withRelic = (): { state: GameState; relicId: string } => {
+  const seeded = createSeededRandom(1);
+  const relic = generateRelicItem(() => seeded.next(), 'rare');
+  const state = createInitialGameState();
+  return { state: { ...state, inventory: { ...state.inventory, relics: [relic] } }, relicId: relic.id };
+};
+
+describe('sellRelic', () => {
+  it('refuses to sell an equipped relic', () => {
+    const { state, relicId } = withRelic();
+    const equipped = equipRelic(state, relicId);
+    expect(equipped.inventory.equippedRelics.map(relic => relic.id)).toEqual([relicId]);
+
+    expect(sellRelic(equipped, relicId)).toBe(equipped);
+    expect(validateGameState(equipped).report.issues).toEqual([]);
+  });
+
+  it('sells an unequipped relic for half its cost', () => {
+    const { state, relicId } = withRelic();
+    const sold = sellRelic(state, relicId);
+
+    expect(sold.inventory.relics).toEqual([]);
+    expect(sold.gems - state.gems).toBe(Math.floor(state.inventory.relics[0].cost * 0.5));
+  });
+});
@@ -0,0 +1,126 @@
+import { GameState } from '../types/game';
+import { generateRelicStock } from '../utils/gameUtils';
+import { activeSkillEffects, consumeSkillCharge } from './modifiers';
+import { RandomSource } from './types';
+
+export const YOJEF_REFRESH_MINUTES = 5;
+export const YOJEF_MANUAL_REFRESH_COST = 100; // gems
+
+const REFRESH_MS = YOJEF_REFRESH_MINUTES * 60 * 1000;
+
+// Put a new stock on the shelves; Relic Finder guarantees a relic of its rarity and spends a charge
+const restockYojefMarket = (state: GameState, rng: RandomSource, now: Date, nextRefresh: Date, lastRefresh: Date = now): GameState => {
+  const { guaranteedRelicRarity } = activeSkillEffects(state, now);
+  const restocked: GameState = {
+    ...state,
+    yojefMarket: {
+      items: generateRelicStock(rng, guaranteedRelicRarity),
+      soldOutIds: [],
+      lastRefresh,
+      nextRefresh
+    }
+  };
+  return guaranteedRelicRarity ? consumeSkillCharge(restocked) : restocked;
+};
+
+export const isYojefRefreshDue = (state: GameState, now: Date = new Date()): boolean =>
+  state.yojefMarket.items.length === 0 || now >= state.yojefMarket.nextRefresh;
+
+// Scheduled refresh on a fixed cadence. After time away only the latest stock matters, so missed
+// refreshes are skipped over and the schedule stays on its original beat. Null when none is due.
+export const refreshYojefMarket = (state: GameState, rng: RandomSource, now: Date = new Date()): GameState | null => {
+  if (!isYojefRefreshDue(state, now)) return null;
+
+  const { nextRefresh } = state.yojefMarket;
+  const missed = Math.max(0, Math.floor((now.getTime() - nextRefresh.getTime()) / REFRESH_MS));
+  const lastRefresh = now >= nextRefresh ? new Date(nextRefresh.getTime() + missed * REFRESH_MS) : now;
+  return restockYojefMarket(state, rng, now, new Date(lastRefresh.getTime() + REFRESH_MS), lastRefresh);
+};
+
+// Pay to restock right away; the countdown starts over from now
+export const buyYojefRefresh = (state: GameState, rng: RandomSource, now: Date = new Date()): GameState | null => {
+  if (state.gems < YOJEF_MANUAL_REFRESH_COST) return null;
+
+  return restockYojefMarket({ ...state, gems: state.gems - YOJEF_MANUAL_REFRESH_COST }, rng, now, new Date(now.getTime() + REFRESH_MS));
+};
+
+export const isRelicSoldOut = (state: GameState, relicId: string): boolean => state.yojefMarket.soldOutIds.includes(relicId);
+
+export const purchaseRelic = (state: GameState, relicId: string): GameState | null => {
+  const relic = state.yojefMarket.items.find(item => item.id === relicId);
+  if (!relic || isRelicSoldOut(state, relicId) || state.gems < relic.cost) return null;
+
+  return {
+    ...state,
+    gems: state.gems - relic.cost,
+    inventory: {
+      ...state.inventory,
+      relics: [...state.inventory.relics, relic],
+      equippedRelics: [...state.inventory.equippedRelics, relic]
+    },
+    yojefMarket: {
+      ...state.yojefMarket,
+      soldOutIds: [...state.yojefMarket.soldOutIds, relicId]
+    }
+  };
+};
+
+export const upgradeRelic = (state: GameState, relicId: string): GameState => {
+  const relicIndex = state.inventory.equippedRelics.findIndex(r => r.id === relicId);
+  if (relicIndex === -1 || state.gems < state.inventory.equippedRelics[relicIndex].upgradeCost) return state;
+
+  const updatedRelics = [...state.inventory.equippedRelics];
+  const relic = updatedRelics[relicIndex];
+
+  updatedRelics[relicIndex] = {
+    ...relic,
+    level: relic.level + 1,
+    baseAtk: relic.baseAtk ? relic.baseAtk + 22 : undefined,
+    baseDef: relic.baseDef ? relic.baseDef + 15 : undefined,
+    upgradeCost: Math.floor(relic.upgradeCost * 1.5)
+  };
+
+  return {
+    ...state,
+    gems: state.gems - relic.upgradeCost,
+    inventory: {
+      ...state.inventory,
+      equippedRelics: updatedRelics
+    }
+  };
+};
+
+export const equipRelic = (state: GameState, relicId: string): GameState => {
+  const relic = state.inventory.relics.find(r => r.id === relicId);
+  if (!relic) return state;
+
+  return {
+    ...state,
+    inventory: {
+      ...state.inventory,
+      equippedRelics: [...state.inventory.equippedRelics, relic]
+    }
+  };
+};
+
+export const unequipRelic = (state: GameState, relicId: string): GameState => ({
+  ...state,
+  inventory: {
+    ...state.inventory,
+    equippedRelics: state.inventory.equippedRelics.filter(r => r.id !== relicId)
+  }
+});
+
+export const sellRelic = (state: GameState, relicId: string): GameState => {
+  const relic = state.inventory.relics.find(r => r.id === relicId);
+  if (!relic || state.inventory.equippedRelics.some(r => r.id === relicId)) return state;
+
+  return {
+    ...state,
+    gems: state.gems + Math.floor(relic.cost * 0.5),
+    inventory: {
+      ...state.inventory,
+      relics: state.inventory.relics.filter(r => r.id !== relicId)
+    }
+  };
+};
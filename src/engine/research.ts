@@ -0,0 +1,56 @@
+import { GameState, ResearchBranch } from '../types/game';
+import { calculateResearchCost, calculateTotalResearchBonuses } from '../utils/gameUtils';
+import { activeSkillEffects } from './modifiers';
+
+// Coins needed to go from `level` to the next one (level 1 → 2 costs 100)
+export const researchCostForLevel = (level: number): number => calculateResearchCost(level - 1);
+
+// Spend coins on research. Each coin is one point of research experience (more while
+// research is discounted), and every level reached grants a point to put into a branch.
+export const investInResearch = (state: GameState, coins: number, now: Date = new Date()): GameState | null => {
+  const amount = Math.floor(coins);
+  if (amount <= 0 || state.coins < amount) return null;
+
+  let { level, experience, experienceToNext, points } = state.research;
+  experience += Math.floor(amount / activeSkillEffects(state, now).researchCostMultiplier);
+  while (experience >= experienceToNext) {
+    experience -= experienceToNext;
+    level += 1;
+    points += 1;
+    experienceToNext = researchCostForLevel(level);
+  }
+
+  return {
+    ...state,
+    coins: state.coins - amount,
+    research: {
+      ...state.research,
+      level,
+      experience,
+      experienceToNext,
+      points,
+      totalSpent: state.research.totalSpent + amount
+    },
+    statistics: {
+      ...state.statistics,
+      totalResearchSpent: state.statistics.totalResearchSpent + amount
+    }
+  };
+};
+
+// Put one research point into a branch and recompute the bonuses it grants
+export const chooseResearchBranch = (state: GameState, branch: ResearchBranch): GameState | null => {
+  if (state.research.points < 1) return null;
+
+  const branches = { ...state.research.branches, [branch]: state.research.branches[branch] + 1 };
+
+  return {
+    ...state,
+    research: {
+      ...state.research,
+      points: state.research.points - 1,
+      branches,
+      bonuses: calculateTotalResearchBonuses(branches)
+    }
+  };
+};
@@ -0,0 +1,78 @@
+import { GameState, RunSummary } from '../types/game';
+
+export const BEST_RUNS_PER_MODE = 5;
+
+// Points for everything achieved during a run
+const RUN_SCORE_WEIGHTS = {
+  victory: 100,
+  bossDefeated: 250,
+  correctAnswer: 10,
+  zoneCleared: 50
+};
+
+export const calculateRunScore = (run: Omit<RunSummary, 'score' | 'startedAt' | 'endedAt'>): number =>
+  run.victories * RUN_SCORE_WEIGHTS.victory +
+  run.bossesDefeated * RUN_SCORE_WEIGHTS.bossDefeated +
+  run.correctAnswers * RUN_SCORE_WEIGHTS.correctAnswer +
+  Math.max(0, run.zoneReached - run.startZone) * RUN_SCORE_WEIGHTS.zoneCleared;
+
+// Open a run on the first fight after the last one ended; the free revival and survival lives come back with it
+export const startRun = (state: GameState, now: Date = new Date()): GameState => {
+  if (state.currentRun) return state;
+
+  const { gameMode } = state;
+  return {
+    ...state,
+    hasUsedRevival: false,
+    gameMode: gameMode.current === 'survival' ? { ...gameMode, survivalLives: gameMode.maxSurvivalLives } : gameMode,
+    currentRun: {
+      mode: state.gameMode.current,
+      startZone: state.zone,
+      startedAt: now,
+      startVictories: state.statistics.totalVictories,
+      startBossesDefeated: state.statistics.bossesDefeated,
+      startCorrectAnswers: state.statistics.correctAnswers,
+      startQuestionsAnswered: state.statistics.totalQuestionsAnswered,
+      livesLost: 0
+    }
+  };
+};
+
+// Close the current run: score it, keep it if it makes the mode's best-runs table, and show the summary
+export const endRun = (state: GameState, now: Date = new Date()): GameState => {
+  const run = state.currentRun;
+  if (!run) return state;
+
+  const totals = {
+    mode: run.mode,
+    startZone: run.startZone,
+    zoneReached: state.zone,
+    victories: state.statistics.totalVictories - run.startVictories,
+    bossesDefeated: state.statistics.bossesDefeated - run.startBossesDefeated,
+    correctAnswers: state.statistics.correctAnswers - run.startCorrectAnswers,
+    questionsAnswered: state.statistics.totalQuestionsAnswered - run.startQuestionsAnswered,
+    livesLost: run.livesLost
+  };
+  // A run abandoned before the first answer isn't worth a place on the table
+  if (totals.questionsAnswered === 0) return { ...state, currentRun: null };
+
+  const summary: RunSummary = { ...totals, score: calculateRunScore(totals), startedAt: run.startedAt, endedAt: now };
+  const best = [...(state.bestRuns[run.mode] || []), summary]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, BEST_RUNS_PER_MODE);
+
+  return {
+    ...state,
+    currentRun: null,
+    lastRunSummary: summary,
+    bestRuns: { ...state.bestRuns, [run.mode]: best }
+  };
+};
+
+export const loseSurvivalLife = (state: GameState): GameState => ({
+  ...state,
+  gameMode: { ...state.gameMode, survivalLives: Math.max(0, state.gameMode.survivalLives - 1) },
+  currentRun: state.currentRun ? { ...state.currentRun, livesLost: state.currentRun.livesLost + 1 } : null
+});
+
+export const dismissRunSummary = (state: GameState): GameState => ({ ...state, lastRunSummary: null });
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom } from '../utils/random';
+import { generateRelicItem, generateWeapon } from '../utils/gameUtils';
+import { CURRENT_SAVE_VERSION, migrateSave, serializeGameState } from './save';
+import { createInitialGameState } from './state';
+import { restoreGameState } from './validation';
+
+const seeded = () => {
+  const random = createSeededRandom(1);
+  return () => random.next();
+};
+
+describe('save round trip', () => {
+  it('restores a serialized state unchanged and without repairs', () => {
+    const rng = seeded();
+    const weapon = generateWeapon(false, 'epic', false, rng);
+    const relic = generateRelicItem(rng);
+    const initial = createInitialGameState();
+    const state = {
+      ...initial,
+      coins: 1234,
+      zone: 7,
+      inventory: { ...initial.inventory, weapons: [weapon], currentWeapon: weapon, relics: [relic], equippedRelics: [relic] }
+    };
+
+    const { state: restored, report } = restoreGameState(serializeGameState(state));
+    expect(report.issues).toEqual([]);
+    expect(restored).toEqual(state);
+    expect(restored.offlineProgress.lastSaveTime).toBeInstanceOf(Date);
+  });
+});
+
+describe('save migrations', () => {
+  it('brings an unversioned save up to the current schema', () => {
+    const plantedAt = '2025-06-01T00:00:00.000Z';
+    const legacy = {
+      coins: 50,
+      gardenOfGrowth: { isPlanted: true, plantedAt, growthCm: 12, seedCost: 100, maxGrowthCm: 500 },
+      mining: { nextNodeIsShiny: true },
+      inventory: { relics: [{ id: 'relic', type: 'weapon' }], equippedRelics: [] }
+    };
+
+    const migrated = migrateSave(legacy);
+    expect(migrated.saveVersion).toBe(CURRENT_SAVE_VERSION);
+    expect(migrated.mining).toEqual({});
+
+    const { state, report } = restoreGameState(JSON.stringify(legacy));
+    expect(report.issues).toEqual([]);
+    expect(state.coins).toBe(50);
+    expect(state.gardenOfGrowth.plots[0]).toMatchObject({ species: 'growth_tree', growthCm: 12 });
+    expect(state.gardenOfGrowth.plots[0].plantedAt).toEqual(new Date(plantedAt));
+    expect(state.gardenOfGrowth.lastGrowthUpdate).toEqual(new Date(plantedAt));
+    expect(state.inventory.relics[0].rarity).toBe('rare');
+  });
+
+  it('refuses a save from a newer version of the game', () => {
+    expect(() => migrateSave({ saveVersion: CURRENT_SAVE_VERSION + 1 })).toThrow(/newer than this game supports/);
+  });
+});
+
+describe('save validation', () => {
+  it('repairs corrupted values and reports each fix', () => {
+    const rng = seeded();
+    const weapon = generateWeapon(false, 'rare', false, rng);
+    const relic = generateRelicItem(rng);
+    const initial = createInitialGameState();
+    const tampered = {
+      ...initial,
+      coins: -5,
+      zone: 0,
+      inventory: { ...initial.inventory, currentWeapon: weapon, relics: [{ ...relic, rarity: 'cursed' }], equippedRelics: [] }
+    };
+
+    const { state, report } = restoreGameState(JSON.stringify(tampered));
+    expect(state.coins).toBe(initial.coins);
+    expect(state.zone).toBe(1);
+    expect(state.inventory.currentWeapon).toBeNull();
+    expect(state.inventory.relics[0].rarity).toBe('rare');
+    expect(report.issues.map(issue => issue.path)).toEqual([
+      'coins',
+      'zone',
+      `inventory.relics.${relic.id}.rarity`,
+      'inventory.currentWeapon'
+    ]);
+  });
+});
@@ -0,0 +1,264 @@
+import { GameState, Achievement, PlayerTag, DailyReward, MenuSkill, RunSummary } from '../types/game';
+import { createInitialGameState } from './state';
+
+// Shape of the JSON blob written to storage: the game state plus the schema version it was written with
+export type SaveBlob = { [key: string]: unknown; saveVersion?: number };
+
+interface SaveMigration {
+  version: number;
+  description: string;
+  migrate: (save: SaveBlob) => SaveBlob;
+}
+
+// Ordered list of upgrades. Each entry takes a save written at the previous version and returns
+// it in the shape of `version`. Never edit a shipped migration; append a new one instead.
+export const saveMigrations: SaveMigration[] = [
+  {
+    version: 1,
+    description: 'Unversioned saves from before the schema was tracked',
+    // Nothing to rename or reshape: every field they lack is filled in by the deep defaults
+    migrate: save => save
+  },
+  {
+    version: 2,
+    description: 'Single-plant garden becomes the first plot of the multi-plot garden',
+    migrate: save => {
+      const garden = save.gardenOfGrowth as { [key: string]: unknown } | undefined;
+      if (!garden || Array.isArray(garden.plots)) return save;
+
+      const plot = {
+        species: garden.isPlanted ? 'growth_tree' : null,
+        plantedAt: garden.isPlanted ? garden.plantedAt : null,
+        growthCm: typeof garden.growthCm === 'number' ? garden.growthCm : 0,
+        fertilizer: null,
+        fertilizerHoursRemaining: 0,
+        harvests: 0
+      };
+      // Planting time, seed cost and height cap now belong to each plot or species
+      const rest = { ...garden };
+      delete rest.plantedAt;
+      delete rest.seedCost;
+      delete rest.maxGrowthCm;
+      // Growth catches up from planting if the garden was never simulated
+      const lastGrowthUpdate = rest.lastGrowthUpdate ?? plot.plantedAt;
+      return { ...save, gardenOfGrowth: { ...rest, lastGrowthUpdate, plots: [plot] } };
+    }
+  },
+  {
+    version: 3,
+    description: 'Single mining node becomes a layered mining grid',
+    migrate: save => {
+      const mining = save.mining as { [key: string]: unknown } | undefined;
+      if (!mining || !('nextNodeIsShiny' in mining)) return save;
+
+      // The pre-rolled node is gone; the grid and tools are filled in by the deep defaults
+      const rest = { ...mining };
+      delete rest.nextNodeIsShiny;
+      return { ...save, mining: rest };
+    }
+  },
+  {
+    version: 4,
+    description: 'Relics gain a rarity; everything found so far was rare',
+    migrate: save => {
+      const withRarity = (relics: unknown) =>
+        Array.isArray(relics) ? relics.map(relic => ({ rarity: 'rare', ...relic })) : relics;
+      const inventory = save.inventory as { [key: string]: unknown } | undefined;
+      const market = save.yojefMarket as { [key: string]: unknown } | undefined;
+
+      return {
+        ...save,
+        ...(inventory && {
+          inventory: { ...inventory, relics: withRarity(inventory.relics), equippedRelics: withRarity(inventory.equippedRelics) }
+        }),
+        ...(market && { yojefMarket: { ...market, items: withRarity(market.items) } })
+      };
+    }
+  }
+];
+
+export const CURRENT_SAVE_VERSION = saveMigrations[saveMigrations.length - 1].version;
+
+export const getSaveVersion = (save: SaveBlob): number => {
+  return typeof save.saveVersion === 'number' ? save.saveVersion : 0;
+};
+
+export const migrateSave = (save: SaveBlob): SaveBlob => {
+  const fromVersion = getSaveVersion(save);
+  if (fromVersion > CURRENT_SAVE_VERSION) {
+    throw new Error(`Save version ${fromVersion} is newer than this game supports (${CURRENT_SAVE_VERSION})`);
+  }
+
+  return saveMigrations
+    .filter(migration => migration.version > fromVersion)
+    .reduce<SaveBlob>((current, migration) => {
+      try {
+        return { ...migration.migrate(current), saveVersion: migration.version };
+      } catch (error) {
+        throw new Error(`Save migration to version ${migration.version} (${migration.description}) failed: ${String(error)}`);
+      }
+    }, save);
+};
+
+const isPlainObject = (value: unknown): value is { [key: string]: unknown } => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+};
+
+// Overlay a saved value on its default, recursing into objects so fields added after the save
+// was written get their default instead of going missing. Saved keys the defaults don't know
+// about (e.g. per-category accuracy) are kept as they are.
+export const mergeWithDefaults = <T>(defaults: T, saved: unknown): T => {
+  if (saved === undefined) return defaults;
+  if (defaults === null || defaults === undefined) return saved as T;
+  if (defaults instanceof Date) return saved as T; // revived separately
+  if (Array.isArray(defaults)) return (Array.isArray(saved) ? saved : defaults) as T;
+
+  if (isPlainObject(defaults)) {
+    if (!isPlainObject(saved)) return defaults;
+
+    const merged: { [key: string]: unknown } = { ...saved };
+    Object.keys(defaults).forEach(key => {
+      merged[key] = mergeWithDefaults((defaults as { [key: string]: unknown })[key], saved[key]);
+    });
+    return merged as T;
+  }
+
+  return (typeof saved === typeof defaults ? saved : defaults) as T;
+};
+
+const toDate = (value: unknown, fallback: Date): Date => {
+  const date = value instanceof Date ? value : new Date(value as string);
+  return isNaN(date.getTime()) ? fallback : date;
+};
+
+const toOptionalDate = (value: unknown): Date | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const date = toDate(value, new Date(NaN));
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const toNullableDate = (value: unknown): Date | null => toOptionalDate(value) ?? null;
+
+// Achievements and tags added after the save was written appear locked; saved ones keep their progress
+const mergeById = <T extends { id: string }>(defaults: T[], saved: T[]): T[] => {
+  return defaults.map(def => {
+    const existing = saved.find(item => item.id === def.id);
+    return existing ? { ...def, ...existing } : def;
+  });
+};
+
+const reviveDailyReward = (reward: DailyReward): DailyReward => ({
+  ...reward,
+  claimDate: toOptionalDate(reward.claimDate)
+});
+
+const reviveMenuSkill = (skill: MenuSkill): MenuSkill => ({
+  ...skill,
+  activatedAt: toDate(skill.activatedAt, new Date()),
+  expiresAt: toDate(skill.expiresAt, new Date())
+});
+
+const reviveRunSummary = (run: RunSummary): RunSummary => ({
+  ...run,
+  startedAt: toDate(run.startedAt, new Date()),
+  endedAt: toDate(run.endedAt, new Date())
+});
+
+// JSON turns every Date into a string; bring back each Date-typed field of GameState
+export const reviveDates = (state: GameState, now: Date = new Date()): GameState => ({
+  ...state,
+  achievements: state.achievements.map((achievement: Achievement) => ({
+    ...achievement,
+    unlockedAt: toOptionalDate(achievement.unlockedAt)
+  })),
+  knowledgeStreak: {
+    ...state.knowledgeStreak,
+    lastCorrectTime: toOptionalDate(state.knowledgeStreak.lastCorrectTime)
+  },
+  statistics: {
+    ...state.statistics,
+    sessionStartTime: toDate(state.statistics.sessionStartTime, now)
+  },
+  yojefMarket: {
+    ...state.yojefMarket,
+    lastRefresh: toDate(state.yojefMarket.lastRefresh, now),
+    nextRefresh: toDate(state.yojefMarket.nextRefresh, now)
+  },
+  playerTags: state.playerTags.map((tag: PlayerTag) => ({
+    ...tag,
+    unlockedAt: toOptionalDate(tag.unlockedAt)
+  })),
+  dailyRewards: {
+    ...state.dailyRewards,
+    lastClaimDate: toNullableDate(state.dailyRewards.lastClaimDate),
+    availableReward: state.dailyRewards.availableReward ? reviveDailyReward(state.dailyRewards.availableReward) : null,
+    rewardHistory: state.dailyRewards.rewardHistory.map(reviveDailyReward)
+  },
+  offlineProgress: {
+    ...state.offlineProgress,
+    lastSaveTime: toDate(state.offlineProgress.lastSaveTime, now)
+  },
+  mining: {
+    ...state.mining,
+    drones: { ...state.mining.drones, lastTick: toNullableDate(state.mining.drones.lastTick) }
+  },
+  gardenOfGrowth: {
+    ...state.gardenOfGrowth,
+    plots: state.gardenOfGrowth.plots.map(plot => ({ ...plot, plantedAt: toNullableDate(plot.plantedAt) })),
+    lastWatered: toNullableDate(state.gardenOfGrowth.lastWatered),
+    lastGrowthUpdate: toNullableDate(state.gardenOfGrowth.lastGrowthUpdate)
+  },
+  skills: {
+    ...state.skills,
+    activeMenuSkill: state.skills.activeMenuSkill ? reviveMenuSkill(state.skills.activeMenuSkill) : null,
+    lastRollTime: toNullableDate(state.skills.lastRollTime),
+    sessionStartTime: toDate(state.skills.sessionStartTime, now)
+  },
+  currentRun: state.currentRun ? { ...state.currentRun, startedAt: toDate(state.currentRun.startedAt, now) } : null,
+  lastRunSummary: state.lastRunSummary ? reviveRunSummary(state.lastRunSummary) : null,
+  bestRuns: Object.fromEntries(
+    Object.entries(state.bestRuns).map(([mode, runs]) => [mode, runs.map(reviveRunSummary)])
+  ) as GameState['bestRuns']
+});
+
+export const serializeGameState = (state: GameState): string => {
+  return JSON.stringify({ ...state, saveVersion: CURRENT_SAVE_VERSION });
+};
+
+// Parse a stored blob into a complete GameState. Throws if the blob is unreadable or a
+// migration fails, so the caller can keep the original blob instead of overwriting it.
+export const deserializeGameState = (json: string): GameState => {
+  const parsed: unknown = JSON.parse(json);
+  if (!isPlainObject(parsed)) {
+    throw new Error('Save data is not an object');
+  }
+
+  const migrated = migrateSave(parsed);
+  delete migrated.saveVersion;
+
+  const defaults = createInitialGameState();
+  const merged = mergeWithDefaults(defaults, migrated);
+
+  return reviveDates({
+    ...merged,
+    achievements: mergeById(defaults.achievements, merged.achievements),
+    playerTags: mergeById(defaults.playerTags, merged.playerTags)
+  });
+};
+
+export interface SaveDiffEntry {
+  label: string;
+  current: number;
+  incoming: number;
+}
+
+// Headline numbers shown side by side before a save is overwritten
+export const compareSaves = (current: GameState, incoming: GameState): SaveDiffEntry[] => [
+  { label: 'Coins', current: current.coins, incoming: incoming.coins },
+  { label: 'Gems', current: current.gems, incoming: incoming.gems },
+  { label: 'Zone', current: current.zone, incoming: incoming.zone },
+  { label: 'Level', current: current.progression.level, incoming: incoming.progression.level },
+  { label: 'Weapons', current: current.inventory.weapons.length, incoming: incoming.inventory.weapons.length },
+  { label: 'Armor', current: current.inventory.armor.length, incoming: incoming.inventory.armor.length },
+  { label: 'Relics', current: current.inventory.relics.length, incoming: incoming.inventory.relics.length }
+];
@@ -0,0 +1,55 @@
+import { GameState, GameMode, GameSettings, CheatSettings } from '../types/game';
+import { endRun } from './runs';
+
+// Runs are scored per mode, so switching modes closes the one in progress
+export const setGameMode = (state: GameState, mode: GameMode['current']): GameState => {
+  const closed = state.currentRun && state.currentRun.mode !== mode ? endRun(state) : state;
+  return {
+    ...closed,
+    gameMode: {
+      ...closed.gameMode,
+      current: mode,
+      survivalLives: mode === 'survival' ? closed.gameMode.maxSurvivalLives : closed.gameMode.survivalLives
+    }
+  };
+};
+
+export const toggleCheat = (state: GameState, cheat: keyof CheatSettings): GameState => ({
+  ...state,
+  cheats: {
+    ...state.cheats,
+    [cheat]: !state.cheats[cheat]
+  }
+});
+
+export const updateSettings = (state: GameState, newSettings: Partial<GameSettings>): GameState => ({
+  ...state,
+  settings: {
+    ...state.settings,
+    ...newSettings
+  }
+});
+
+// Dev tools
+export const addCoins = (state: GameState, amount: number): GameState => ({
+  ...state,
+  coins: state.coins + amount
+});
+
+export const addGems = (state: GameState, amount: number): GameState => ({
+  ...state,
+  gems: state.gems + amount
+});
+
+export const teleportToZone = (state: GameState, zone: number): GameState => ({
+  ...state,
+  zone: Math.max(1, zone)
+});
+
+export const setExperience = (state: GameState, xp: number): GameState => ({
+  ...state,
+  progression: {
+    ...state.progression,
+    experience: Math.max(0, xp)
+  }
+});
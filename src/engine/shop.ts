@@ -0,0 +1,88 @@
+import { GameState, Weapon, Armor, ChestReward } from '../types/game';
+import { generateWeapon, generateArmor, getChestRarityWeights, generateMythicalWeapon, generateMythicalArmor } from '../utils/gameUtils';
+import { generateId } from '../utils/random';
+import { activeSkillEffects, consumeSkillCharge } from './modifiers';
+import { ActionResult, RandomSource } from './types';
+
+const rarities = ['common', 'rare', 'epic', 'legendary', 'mythical'] as const;
+type Rarity = typeof rarities[number];
+
+const rollChestRarity = (weights: number[], rng: RandomSource): Rarity => {
+  const random = rng() * 100;
+  let cumulative = 0;
+
+  for (let i = 0; i < weights.length; i++) {
+    cumulative += weights[i];
+    if (random <= cumulative) {
+      return rarities[i];
+    }
+  }
+  return 'common';
+};
+
+export const openChest = (state: GameState, cost: number, rng: RandomSource, now: Date = new Date()): ActionResult<ChestReward> | null => {
+  if (state.coins < cost) return null;
+
+  const skill = activeSkillEffects(state, now);
+  const weights = getChestRarityWeights(cost);
+
+  // Lucky skills roll again and keep the best; treasurer-style skills set a floor
+  let rarity = rollChestRarity(weights, rng);
+  for (let i = 0; i < skill.chestRerolls; i++) {
+    const reroll = rollChestRarity(weights, rng);
+    if (rarities.indexOf(reroll) > rarities.indexOf(rarity)) rarity = reroll;
+  }
+  if (skill.minChestRarity && rarities.indexOf(rarity) < rarities.indexOf(skill.minChestRarity)) {
+    rarity = skill.minChestRarity;
+  }
+
+  const enchanted = rarities.indexOf(rarity) >= rarities.indexOf('epic') && rng() < skill.enchantChance;
+  const isWeapon = rng() < 0.5;
+  const item = isWeapon ? generateWeapon(false, rarity, enchanted, rng) : generateArmor(false, rarity, enchanted, rng);
+  const items = skill.duplicatesItems ? [item, { ...item, id: generateId(rng) }] : [item];
+
+  let newState: GameState = {
+    ...state,
+    coins: state.coins - cost,
+    gems: state.gems + Math.floor((Math.floor(rng() * 10) + 5) * skill.gemMultiplier),
+    inventory: {
+      ...state.inventory,
+      weapons: isWeapon ? [...state.inventory.weapons, ...(items as Weapon[])] : state.inventory.weapons,
+      armor: !isWeapon ? [...state.inventory.armor, ...(items as Armor[])] : state.inventory.armor
+    },
+    statistics: {
+      ...state.statistics,
+      chestsOpened: state.statistics.chestsOpened + 1
+    }
+  };
+
+  // One-shot skills are used up by the next chest
+  if (skill.minChestRarity || skill.duplicatesItems) {
+    newState = consumeSkillCharge(newState);
+  }
+
+  return {
+    state: newState,
+    result: {
+      type: isWeapon ? 'weapon' : 'armor',
+      items
+    }
+  };
+};
+
+export const purchaseMythical = (state: GameState, cost: number, rng: RandomSource): GameState | null => {
+  if (state.coins < cost) return null;
+
+  const isWeapon = rng() < 0.5;
+  const item = isWeapon ? generateMythicalWeapon(rng) : generateMythicalArmor(rng);
+
+  return {
+    ...state,
+    coins: state.coins - cost,
+    inventory: {
+      ...state.inventory,
+      weapons: isWeapon ? [...state.inventory.weapons, item as Weapon] : state.inventory.weapons,
+      armor: !isWeapon ? [...state.inventory.armor, item as Armor] : state.inventory.armor
+    }
+  };
+};
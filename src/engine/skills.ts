@@ -0,0 +1,66 @@
+import { GameState, AdventureSkill } from '../types/game';
+import { pickRandom } from '../utils/random';
+import { adventureSkillRegistry } from './adventure';
+import { activateMenuSkill, menuSkillTypes } from './modifiers';
+import { RandomSource } from './types';
+
+// Skills
+export const rollSkill = (state: GameState, rng: RandomSource, now: Date = new Date()): GameState | null => {
+  if (state.coins < 100) return null;
+  const active = state.skills.activeMenuSkill;
+  if (active && now < active.expiresAt) return null;
+
+  const rolled = activateMenuSkill(
+    { ...state, coins: state.coins - 100 },
+    pickRandom(menuSkillTypes, rng),
+    rng,
+    now
+  );
+
+  return {
+    ...rolled,
+    skills: {
+      ...rolled.skills,
+      lastRollTime: now
+    }
+  };
+};
+
+// Adventure skills
+export const selectAdventureSkill = (state: GameState, skill: AdventureSkill): GameState => {
+  const { flag } = adventureSkillRegistry[skill.type];
+  const isActiveFlag = flag !== undefined && flag.endsWith('Active');
+
+  return {
+    ...state,
+    adventureSkills: {
+      ...state.adventureSkills,
+      selectedSkill: skill,
+      showSelectionModal: false,
+      skillEffects: isActiveFlag
+        ? { ...state.adventureSkills.skillEffects, [flag]: true }
+        : state.adventureSkills.skillEffects
+    }
+  };
+};
+
+export const skipAdventureSkills = (state: GameState): GameState => ({
+  ...state,
+  adventureSkills: {
+    ...state.adventureSkills,
+    selectedSkill: null,
+    showSelectionModal: false
+  }
+});
+
+export const consumeSkipCard = (state: GameState): GameState => ({
+  ...state,
+  combatLog: [...state.combatLog, 'You play your Skip Card!'],
+  adventureSkills: {
+    ...state.adventureSkills,
+    skillEffects: {
+      ...state.adventureSkills.skillEffects,
+      skipCardUsed: true
+    }
+  }
+});
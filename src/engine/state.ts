@@ -0,0 +1,223 @@
+import { GameState } from '../types/game';
+import { initializeAchievements } from '../utils/achievements';
+import { initializePlayerTags } from '../utils/playerTags';
+import { createAdventureSkillEffects } from './adventure';
+import { createEmptyPlot } from './garden';
+import { miningTools } from './mining';
+import { createRandomState } from './random';
+
+export const createInitialGameState = (): GameState => ({
+  coins: 500,
+  gems: 50,
+  shinyGems: 0,
+  zone: 1,
+  playerStats: {
+    hp: 100,
+    maxHp: 100,
+    atk: 20,
+    def: 10,
+    baseAtk: 20,
+    baseDef: 10,
+    baseHp: 100
+  },
+  inventory: {
+    weapons: [],
+    armor: [],
+    relics: [],
+    currentWeapon: null,
+    currentArmor: null,
+    equippedRelics: []
+  },
+  currentEnemy: null,
+  inCombat: false,
+  combatLog: [],
+  playerStatusEffects: [],
+  relicFragments: 0,
+  consumables: {
+    health_potion: 0,
+    ward_scroll: 0
+  },
+  lastLoot: [],
+  isPremium: false,
+  achievements: initializeAchievements(),
+  collectionBook: {
+    weapons: {},
+    armor: {},
+    totalWeaponsFound: 0,
+    totalArmorFound: 0,
+    rarityStats: {
+      common: 0,
+      rare: 0,
+      epic: 0,
+      legendary: 0,
+      mythical: 0
+    }
+  },
+  bestiary: {},
+  knowledgeStreak: {
+    current: 0,
+    best: 0,
+    multiplier: 1
+  },
+  gameMode: {
+    current: 'normal',
+    speedModeActive: false,
+    survivalLives: 3,
+    maxSurvivalLives: 3
+  },
+  statistics: {
+    totalQuestionsAnswered: 0,
+    correctAnswers: 0,
+    totalPlayTime: 0,
+    zonesReached: 1,
+    itemsCollected: 0,
+    coinsEarned: 0,
+    gemsEarned: 0,
+    shinyGemsEarned: 0,
+    chestsOpened: 0,
+    accuracyByCategory: {},
+    sessionStartTime: new Date(),
+    totalDeaths: 0,
+    totalVictories: 0,
+    longestStreak: 0,
+    fastestVictory: 0,
+    totalDamageDealt: 0,
+    totalDamageTaken: 0,
+    itemsUpgraded: 0,
+    itemsSold: 0,
+    totalResearchSpent: 0,
+    bossesDefeated: 0,
+    averageAccuracy: 0,
+    revivals: 0,
+    gemsFromDrones: 0
+  },
+  cheats: {
+    infiniteCoins: false,
+    infiniteGems: false,
+    obtainAnyItem: false
+  },
+  mining: {
+    totalGemsMined: 0,
+    totalShinyGemsMined: 0,
+    depth: 1,
+    deepestDepth: 0,
+    grid: [],
+    ores: { copper: 0, iron: 0, mithril: 0 },
+    totalOresMined: 0,
+    tools: miningTools.map(tool => ({ ...tool })),
+    drones: {
+      count: 0,
+      tier: 0,
+      storedGems: 0,
+      lastTick: null
+    }
+  },
+  yojefMarket: {
+    items: [],
+    soldOutIds: [],
+    lastRefresh: new Date(),
+    nextRefresh: new Date(Date.now() + 5 * 60 * 1000) // 5 minutes from now
+  },
+  playerTags: initializePlayerTags(),
+  dailyRewards: {
+    lastClaimDate: null,
+    currentStreak: 0,
+    maxStreak: 0,
+    availableReward: null,
+    rewardHistory: []
+  },
+  progression: {
+    level: 1,
+    experience: 0,
+    experienceToNext: 100,
+    skillPoints: 0,
+    unlockedSkills: [],
+    prestigeLevel: 0,
+    prestigePoints: 0,
+    masteryLevels: {}
+  },
+  offlineProgress: {
+    lastSaveTime: new Date(),
+    offlineCoins: 0,
+    offlineGems: 0,
+    offlineTime: 0,
+    maxOfflineHours: 24,
+    breakdown: []
+  },
+  gardenOfGrowth: {
+    plots: [createEmptyPlot()],
+    isPlanted: false,
+    growthCm: 0,
+    lastWatered: null,
+    lastGrowthUpdate: null,
+    waterHoursRemaining: 0,
+    hoursDry: 0,
+    totalGrowthBonus: 0,
+    atkGrowthBonus: 0,
+    xpGrowthBonus: 0,
+    totalHarvests: 0,
+    waterCost: 1000
+  },
+  settings: {
+    colorblindMode: false,
+    darkMode: true,
+    language: 'en',
+    notifications: true,
+    snapToGrid: false,
+    beautyMode: false
+  },
+  hasUsedRevival: false,
+  currentRun: null,
+  lastRunSummary: null,
+  bestRuns: {
+    normal: [],
+    blitz: [],
+    bloodlust: [],
+    survival: []
+  },
+  skills: {
+    activeMenuSkill: null,
+    lastRollTime: null,
+    playTimeThisSession: 0,
+    sessionStartTime: new Date()
+  },
+  adventureSkills: {
+    selectedSkill: null,
+    availableSkills: [],
+    showSelectionModal: false,
+    runVictories: 0,
+    skillEffects: createAdventureSkillEffects()
+  },
+  research: {
+    level: 1,
+    experience: 0,
+    experienceToNext: 100,
+    totalSpent: 0,
+    points: 0,
+    branches: {
+      atk: 0,
+      def: 0,
+      hp: 0,
+      coins: 0,
+      gems: 0,
+      xp: 0
+    },
+    bonuses: {
+      atk: 0,
+      def: 0,
+      hp: 0,
+      coinMultiplier: 1,
+      gemMultiplier: 1,
+      xpMultiplier: 1
+    }
+  },
+  multipliers: {
+    coins: 1,
+    gems: 1,
+    atk: 1,
+    def: 1,
+    hp: 1
+  },
+  random: createRandomState(),
+  achievementTrackers: {}
+});
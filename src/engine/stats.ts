@@ -0,0 +1,120 @@
+import { GameState, PlayerStats } from '../types/game';
+import { activeSkillEffects } from './modifiers';
+
+// Calculate total player stats including equipment and bonuses
+export const calculatePlayerStats = (state: GameState): PlayerStats => {
+  let totalAtk = state.playerStats.baseAtk;
+  let totalDef = state.playerStats.baseDef;
+  let totalHp = state.playerStats.baseHp;
+
+  // Add weapon attack
+  if (state.inventory.currentWeapon) {
+    const weaponAtk = state.inventory.currentWeapon.baseAtk + (state.inventory.currentWeapon.level - 1) * 10;
+    // Apply durability penalty (items lose effectiveness as durability decreases)
+    const durabilityMultiplier = state.inventory.currentWeapon.durability / state.inventory.currentWeapon.maxDurability;
+    totalAtk += Math.floor(weaponAtk * durabilityMultiplier);
+  }
+
+  // Add armor defense
+  if (state.inventory.currentArmor) {
+    const armorDef = state.inventory.currentArmor.baseDef + (state.inventory.currentArmor.level - 1) * 5;
+    // Apply durability penalty
+    const durabilityMultiplier = state.inventory.currentArmor.durability / state.inventory.currentArmor.maxDurability;
+    totalDef += Math.floor(armorDef * durabilityMultiplier);
+  }
+
+  // Add relic bonuses
+  state.inventory.equippedRelics.forEach(relic => {
+    if (relic.type === 'weapon' && relic.baseAtk) {
+      totalAtk += relic.baseAtk + (relic.level - 1) * 22;
+    } else if (relic.type === 'armor' && relic.baseDef) {
+      totalDef += relic.baseDef + (relic.level - 1) * 15;
+    }
+  });
+
+  // Add research bonuses
+  totalAtk += state.research.bonuses.atk;
+  totalDef += state.research.bonuses.def;
+  totalHp += state.research.bonuses.hp;
+
+  // Add garden bonuses
+  const gardenBonus = state.gardenOfGrowth.totalGrowthBonus / 100;
+  totalAtk = Math.floor(totalAtk * (1 + gardenBonus));
+  totalDef = Math.floor(totalDef * (1 + gardenBonus));
+  totalHp = Math.floor(totalHp * (1 + gardenBonus));
+  totalAtk = Math.floor(totalAtk * (1 + state.gardenOfGrowth.atkGrowthBonus / 100));
+
+  // Apply multipliers
+  totalAtk = Math.floor(totalAtk * state.multipliers.atk);
+  totalDef = Math.floor(totalDef * state.multipliers.def);
+  totalHp = Math.floor(totalHp * state.multipliers.hp);
+
+  // Apply the active menu skill
+  const skill = activeSkillEffects(state);
+  totalAtk = Math.floor(totalAtk * skill.statMultiplier);
+  totalDef = Math.floor(totalDef * skill.statMultiplier);
+  totalHp = Math.floor(totalHp * skill.statMultiplier * skill.maxHpMultiplier);
+
+  return {
+    ...state.playerStats,
+    atk: totalAtk,
+    def: totalDef,
+    maxHp: totalHp,
+    hp: Math.min(state.playerStats.hp, totalHp) // Don't exceed new max HP
+  };
+};
+
+// Return the state with its derived player stats brought up to date
+export const withPlayerStats = (state: GameState): GameState => ({
+  ...state,
+  playerStats: calculatePlayerStats(state)
+});
+
+// Reduce item durability during combat
+export const reduceDurability = (state: GameState, amount: number = 1): GameState => {
+  let newState = { ...state };
+
+  // Reduce weapon durability
+  if (newState.inventory.currentWeapon && newState.inventory.currentWeapon.durability > 0) {
+    const weaponIndex = newState.inventory.weapons.findIndex(w => w.id === newState.inventory.currentWeapon!.id);
+    if (weaponIndex !== -1) {
+      const updatedWeapons = [...newState.inventory.weapons];
+      updatedWeapons[weaponIndex] = {
+        ...updatedWeapons[weaponIndex],
+        durability: Math.max(0, updatedWeapons[weaponIndex].durability - amount)
+      };
+
+      newState = {
+        ...newState,
+        inventory: {
+          ...newState.inventory,
+          weapons: updatedWeapons,
+          currentWeapon: updatedWeapons[weaponIndex]
+        }
+      };
+    }
+  }
+
+  // Reduce armor durability
+  if (newState.inventory.currentArmor && newState.inventory.currentArmor.durability > 0) {
+    const armorIndex = newState.inventory.armor.findIndex(a => a.id === newState.inventory.currentArmor!.id);
+    if (armorIndex !== -1) {
+      const updatedArmor = [...newState.inventory.armor];
+      updatedArmor[armorIndex] = {
+        ...updatedArmor[armorIndex],
+        durability: Math.max(0, updatedArmor[armorIndex].durability - amount)
+      };
+
+      newState = {
+        ...newState,
+        inventory: {
+          ...newState.inventory,
+          armor: updatedArmor,
+          currentArmor: updatedArmor[armorIndex]
+        }
+      };
+    }
+  }
+
+  return newState;
+};
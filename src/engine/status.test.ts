@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types/game';
+import { generateEnemy } from '../utils/gameUtils';
+import { createSeededRandom } from '../utils/random';
+import { applyAttack } from './combat';
+import { createInitialGameState } from './state';
+import { withPlayerStats } from './stats';
+import { applyStatus, tickStatusEffects } from './status';
+
+const now = new Date('2026-01-01T12:00:00Z');
+
+// rng that always rolls the same value, so status abilities reliably fire (0) or never fire (0.99)
+const always = (value: number) => () => value;
+
+const inFight = (specialAbility?: string): GameState => {
+  const seeded = createSeededRandom(1);
+  const enemy = { ...generateEnemy(1, () => seeded.next()), specialAbility };
+  return { ...withPlayerStats(createInitialGameState()), currentEnemy: enemy, inCombat: true };
+};
+
+describe('tickStatusEffects', () => {
+  it('leaves effects applied this turn untouched until the next tick', () => {
+    const applied = applyStatus([], { type: 'poison', turns: 2, stacks: 1 });
+
+    const first = tickStatusEffects(applied, 100);
+    expect(first.damage).toBe(0);
+    expect(first.effects).toEqual([{ type: 'poison', turns: 2, stacks: 1 }]);
+
+    const second = tickStatusEffects(first.effects, 100);
+    expect(second.damage).toBe(3);
+    expect(second.effects).toEqual([{ type: 'poison', turns: 1, stacks: 1 }]);
+
+    expect(tickStatusEffects(second.effects, 100).effects).toEqual([]);
+  });
+
+  it('gives a re-applied effect its full duration again', () => {
+    const running = [{ type: 'burn' as const, turns: 1, stacks: 1 }];
+    const refreshed = tickStatusEffects(applyStatus(running, { type: 'burn', turns: 3, stacks: 1 }), 100);
+    expect(refreshed.effects).toEqual([{ type: 'burn', turns: 3, stacks: 1 }]);
+  });
+});
+
+describe('applyAttack status timing', () => {
+  it('keeps a one-turn crush stun for the next answer', () => {
+    const struck = applyAttack(inFight('crush'), false, always(0), undefined, now);
+    expect(struck.playerStatusEffects).toEqual([{ type: 'stun', turns: 1, stacks: 1 }]);
+
+    const stunned = applyAttack(struck, true, always(0.99), undefined, now);
+    expect(stunned.combatLog).toContain('You are stunned and cannot attack!');
+    expect(stunned.currentEnemy?.hp).toBe(struck.currentEnemy?.hp);
+    expect(stunned.playerStatusEffects).toEqual([]);
+  });
+
+  it('counts the first answer for an effect gained between answers', () => {
+    const regenerating = { ...inFight(), playerStatusEffects: applyStatus([], { type: 'regen', turns: 1, stacks: 1 }) };
+    const next = applyAttack(regenerating, true, always(0.99), undefined, now);
+    expect(next.playerStatusEffects).toEqual([]);
+  });
+});
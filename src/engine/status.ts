@@ -0,0 +1,174 @@
+import { Enemy, GameState, StatusEffect, StatusEffectType, Weapon } from '../types/game';
+import { activeSkillEffects } from './modifiers';
+import { RandomSource } from './types';
+
+// How a new application combines with one already running:
+// 'intensity' adds stacks and refreshes the duration, 'refresh' keeps one stack and takes
+// the longer duration, 'extend' adds the durations together.
+type StackingRule = 'intensity' | 'refresh' | 'extend';
+
+export interface StatusDefinition {
+  name: string;
+  description: string;
+  harmful: boolean;
+  stacking: StackingRule;
+  maxStacks: number;
+  maxTurns: number;
+}
+
+export const statusRegistry: Record<StatusEffectType, StatusDefinition> = {
+  poison: { name: 'Poison', description: 'Loses 3% max HP per stack each turn', harmful: true, stacking: 'intensity', maxStacks: 5, maxTurns: 5 },
+  burn: { name: 'Burn', description: 'Loses 6% max HP each turn', harmful: true, stacking: 'refresh', maxStacks: 1, maxTurns: 4 },
+  freeze: { name: 'Freeze', description: 'Deals 50% less damage', harmful: true, stacking: 'refresh', maxStacks: 1, maxTurns: 3 },
+  stun: { name: 'Stun', description: 'Cannot attack', harmful: true, stacking: 'refresh', maxStacks: 1, maxTurns: 2 },
+  shield: { name: 'Shield', description: 'Absorbs incoming damage until broken', harmful: false, stacking: 'intensity', maxStacks: 99, maxTurns: 10 },
+  regen: { name: 'Regen', description: 'Heals 5% max HP per stack each turn', harmful: false, stacking: 'intensity', maxStacks: 3, maxTurns: 5 },
+  vulnerability: { name: 'Vulnerable', description: 'Takes 50% more damage', harmful: true, stacking: 'extend', maxStacks: 1, maxTurns: 5 }
+};
+
+// Per-turn percentages of max HP
+const POISON_PERCENT_PER_STACK = 3;
+const BURN_PERCENT = 6;
+const REGEN_PERCENT_PER_STACK = 5;
+
+export const hasStatus = (effects: StatusEffect[] | undefined, type: StatusEffectType): boolean =>
+  (effects || []).some(effect => effect.type === type);
+
+// Add an effect, following its stacking rule. It starts ticking on the next answer.
+export const applyStatus = (effects: StatusEffect[] | undefined, incoming: StatusEffect): StatusEffect[] => {
+  const current = effects || [];
+  const { stacking, maxStacks, maxTurns } = statusRegistry[incoming.type];
+  const existing = current.find(effect => effect.type === incoming.type);
+  if (!existing) {
+    return [...current, {
+      ...incoming,
+      stacks: Math.min(maxStacks, incoming.stacks),
+      turns: Math.min(maxTurns, incoming.turns),
+      appliedThisTurn: true
+    }];
+  }
+
+  let merged: StatusEffect;
+  switch (stacking) {
+    case 'intensity':
+      merged = {
+        ...existing,
+        stacks: Math.min(maxStacks, existing.stacks + incoming.stacks),
+        turns: Math.min(maxTurns, Math.max(existing.turns, incoming.turns)),
+        ...(incoming.amount !== undefined && { amount: (existing.amount || 0) + incoming.amount })
+      };
+      break;
+    case 'extend':
+      merged = { ...existing, turns: Math.min(maxTurns, existing.turns + incoming.turns) };
+      break;
+    default:
+      merged = { ...existing, turns: Math.min(maxTurns, Math.max(existing.turns, incoming.turns)) };
+  }
+
+  return current.map(effect => (effect === existing ? { ...merged, appliedThisTurn: true } : effect));
+};
+
+// Put an effect on the player; an active Magic Shield-style skill wards off harmful ones
+export const inflictOnPlayer = (state: GameState, effect: StatusEffect, log: string[], now: Date = new Date()): GameState => {
+  const { name, harmful } = statusRegistry[effect.type];
+  if (harmful && activeSkillEffects(state, now).statusImmunity) {
+    log.push(`Your magic shield wards off ${name.toLowerCase()}!`);
+    return state;
+  }
+
+  log.push(harmful ? `You are afflicted with ${name.toLowerCase()}!` : `You gain ${name.toLowerCase()}!`);
+  return { ...state, playerStatusEffects: applyStatus(state.playerStatusEffects, effect) };
+};
+
+// Enemies weak to an effect take it with double the stacks and one extra turn
+export const inflictOnEnemy = (enemy: Enemy, effect: StatusEffect, log: string[]): Enemy => {
+  const { name, harmful } = statusRegistry[effect.type];
+  const weak = harmful && !!enemy.weaknesses?.includes(effect.type);
+  log.push(harmful ? `${enemy.name} is afflicted with ${name.toLowerCase()}!` : `${enemy.name} gains ${name.toLowerCase()}!`);
+  if (weak) log.push(`${enemy.name} is weak to ${name.toLowerCase()}. It's super effective!`);
+  const applied = weak ? { ...effect, stacks: effect.stacks * 2, turns: effect.turns + 1 } : effect;
+  return { ...enemy, statusEffects: applyStatus(enemy.statusEffects, applied) };
+};
+
+// Scale the damage an attacker deals by its own effects (0 while stunned)
+export const outgoingDamageMultiplier = (effects: StatusEffect[] | undefined): number => {
+  if (hasStatus(effects, 'stun')) return 0;
+  return hasStatus(effects, 'freeze') ? 0.5 : 1;
+};
+
+// Damage that gets through a defender's effects, and what is left of its shield
+export const absorbIncomingDamage = (
+  effects: StatusEffect[] | undefined,
+  damage: number
+): { damage: number; effects: StatusEffect[]; absorbed: number } => {
+  let remaining = hasStatus(effects, 'vulnerability') ? Math.floor(damage * 1.5) : damage;
+  let absorbed = 0;
+
+  const next = (effects || []).flatMap(effect => {
+    if (effect.type !== 'shield' || remaining <= 0) return [effect];
+    absorbed = Math.min(effect.amount || 0, remaining);
+    remaining -= absorbed;
+    const amount = (effect.amount || 0) - absorbed;
+    return amount > 0 ? [{ ...effect, amount }] : [];
+  });
+
+  return { damage: remaining, effects: next, absorbed };
+};
+
+// Count effects applied so far as already running, e.g. ones gained between answers
+export const settleStatusEffects = (effects: StatusEffect[] | undefined): StatusEffect[] =>
+  (effects || []).map(effect => {
+    if (!effect.appliedThisTurn) return effect;
+    const settled = { ...effect };
+    delete settled.appliedThisTurn;
+    return settled;
+  });
+
+// Advance every effect by one turn: deal damage over time, heal, and drop what wore off.
+// Effects applied during this answer are left alone until the next one.
+export const tickStatusEffects = (
+  effects: StatusEffect[] | undefined,
+  maxHp: number
+): { effects: StatusEffect[]; damage: number; healing: number } => {
+  let damage = 0;
+  let healing = 0;
+
+  for (const effect of effects || []) {
+    if (effect.appliedThisTurn) continue;
+    if (effect.type === 'poison') damage += Math.max(1, Math.floor(maxHp * POISON_PERCENT_PER_STACK * effect.stacks / 100));
+    if (effect.type === 'burn') damage += Math.max(1, Math.floor(maxHp * BURN_PERCENT / 100));
+    if (effect.type === 'regen') healing += Math.max(1, Math.floor(maxHp * REGEN_PERCENT_PER_STACK * effect.stacks / 100));
+  }
+
+  return {
+    effects: settleStatusEffects((effects || []).map(effect => (effect.appliedThisTurn ? effect : { ...effect, turns: effect.turns - 1 })))
+      .filter(effect => effect.turns > 0),
+    damage,
+    healing
+  };
+};
+
+// Statuses enemies bring through `Enemy.specialAbility`, used whenever they attack
+export interface EnemyStatusAbility {
+  description: string;
+  target: 'player' | 'self';
+  chance: number;
+  effect: StatusEffect;
+}
+
+export const enemyStatusAbilities: Record<string, EnemyStatusAbility> = {
+  venom: { description: 'Attacks may poison you', target: 'player', chance: 0.5, effect: { type: 'poison', turns: 3, stacks: 1 } },
+  inferno: { description: 'Attacks may set you on fire', target: 'player', chance: 0.35, effect: { type: 'burn', turns: 3, stacks: 1 } },
+  frostbite: { description: 'Attacks may freeze you', target: 'player', chance: 0.3, effect: { type: 'freeze', turns: 2, stacks: 1 } },
+  crush: { description: 'Attacks may stun you', target: 'player', chance: 0.2, effect: { type: 'stun', turns: 1, stacks: 1 } },
+  curse: { description: 'Attacks may leave you vulnerable', target: 'player', chance: 0.35, effect: { type: 'vulnerability', turns: 2, stacks: 1 } },
+  regenerate: { description: 'Regenerates while attacking', target: 'self', chance: 0.5, effect: { type: 'regen', turns: 3, stacks: 1 } }
+};
+
+// Odds that a hit from an enchanted weapon passes its effect on
+const ENCHANTMENT_PROC_CHANCE = 0.2;
+
+export const rollWeaponEnchantment = (weapon: Weapon | null, rng: RandomSource): StatusEffect | null => {
+  if (!weapon?.isEnchanted || rng() >= ENCHANTMENT_PROC_CHANCE) return null;
+  return { type: weapon.enchantmentEffect || 'burn', turns: 2, stacks: 1 };
+};
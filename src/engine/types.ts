@@ -0,0 +1,9 @@
+import { GameState } from '../types/game';
+
+export type { RandomSource } from '../utils/random';
+
+// Outcome of an action that also reports something back to the caller (e.g. the chest contents)
+export interface ActionResult<T> {
+  state: GameState;
+  result: T;
+}
@@ -0,0 +1,174 @@
+import { GameState, Weapon, Armor, RelicItem, ResearchSystem } from '../types/game';
+import { calculateTotalResearchBonuses } from '../utils/gameUtils';
+import { createInitialGameState } from './state';
+import { deserializeGameState } from './save';
+
+export interface RepairIssue {
+  path: string;
+  problem: string;
+  fix: string;
+}
+
+export interface RepairReport {
+  issues: RepairIssue[];
+}
+
+const RARITIES: Weapon['rarity'][] = ['common', 'rare', 'epic', 'legendary', 'mythical'];
+const RELIC_TYPES: RelicItem['type'][] = ['weapon', 'armor'];
+const RELIC_RARITIES: RelicItem['rarity'][] = ['rare', 'epic', 'legendary', 'mythical'];
+
+// Fields that must be at least 1 rather than merely non-negative
+const MINIMUM_ONE = new Set(['zone', 'progression.level', 'research.level']);
+
+type Node = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is Node => {
+  return typeof value === 'object' && value !== null && !(value instanceof Date);
+};
+
+const getDefaultAt = (defaults: unknown, path: string[]): unknown => {
+  return path.reduce<unknown>((node, key) => (isObject(node) ? node[key] : undefined), defaults);
+};
+
+// Walk every number in the state and replace anything non-finite or negative with its default
+const repairNumbers = (node: unknown, path: string[], defaults: GameState, issues: RepairIssue[]): unknown => {
+  if (typeof node === 'number') {
+    const joined = path.join('.');
+    const minimum = MINIMUM_ONE.has(joined) ? 1 : 0;
+    if (Number.isFinite(node) && node >= minimum) return node;
+
+    const fallback = getDefaultAt(defaults, path);
+    const replacement = typeof fallback === 'number' && Number.isFinite(fallback) && fallback >= minimum ? fallback : minimum;
+    issues.push({ path: joined, problem: `invalid number (${node})`, fix: `reset to ${replacement}` });
+    return replacement;
+  }
+
+  if (Array.isArray(node)) {
+    return node.map((item, index) => repairNumbers(item, [...path, String(index)], defaults, issues));
+  }
+
+  if (isObject(node)) {
+    const repaired: Node = {};
+    Object.keys(node).forEach(key => {
+      repaired[key] = repairNumbers(node[key], [...path, key], defaults, issues);
+    });
+    return repaired;
+  }
+
+  return node;
+};
+
+const repairItemList = <T extends Weapon | Armor>(items: unknown, path: string, issues: RepairIssue[]): T[] => {
+  if (!Array.isArray(items)) {
+    issues.push({ path, problem: 'not a list', fix: 'emptied' });
+    return [];
+  }
+
+  return items
+    .filter((item, index) => {
+      const valid = isObject(item) && typeof item.id === 'string';
+      if (!valid) issues.push({ path: `${path}.${index}`, problem: 'malformed item', fix: 'removed' });
+      return valid;
+    })
+    .map((item: T) => {
+      let repaired = item;
+      if (!RARITIES.includes(item.rarity)) {
+        issues.push({ path: `${path}.${item.id}.rarity`, problem: `unknown rarity "${item.rarity}"`, fix: 'set to common' });
+        repaired = { ...repaired, rarity: 'common' };
+      }
+      if (repaired.durability > repaired.maxDurability) {
+        issues.push({ path: `${path}.${item.id}.durability`, problem: 'above maximum durability', fix: 'capped' });
+        repaired = { ...repaired, durability: repaired.maxDurability };
+      }
+      return repaired;
+    });
+};
+
+const repairRelicList = (relics: unknown, path: string, issues: RepairIssue[]): RelicItem[] => {
+  if (!Array.isArray(relics)) {
+    issues.push({ path, problem: 'not a list', fix: 'emptied' });
+    return [];
+  }
+
+  return relics
+    .filter((relic, index) => {
+      const valid = isObject(relic) && typeof relic.id === 'string' && RELIC_TYPES.includes(relic.type as RelicItem['type']);
+      if (!valid) issues.push({ path: `${path}.${index}`, problem: 'malformed relic', fix: 'removed' });
+      return valid;
+    })
+    .map((relic: RelicItem) => {
+      if (RELIC_RARITIES.includes(relic.rarity)) return relic;
+      issues.push({ path: `${path}.${relic.id}.rarity`, problem: `unknown rarity "${relic.rarity}"`, fix: 'set to rare' });
+      return { ...relic, rarity: 'rare' };
+    });
+};
+
+// The equipped item must be one of the carried items; re-point it at the inventory copy or unequip it
+const repairEquipped = <T extends Weapon | Armor>(equipped: T | null, items: T[], path: string, issues: RepairIssue[]): T | null => {
+  if (!equipped) return null;
+
+  const owned = isObject(equipped) ? items.find(item => item.id === equipped.id) : undefined;
+  if (!owned) {
+    issues.push({ path, problem: 'equipped item is not in the inventory', fix: 'unequipped' });
+    return null;
+  }
+  return owned;
+};
+
+// Research bonuses are derived from the branch levels, so they are rebuilt rather than trusted
+const repairResearchBonuses = (research: ResearchSystem, issues: RepairIssue[]): ResearchSystem => {
+  const bonuses = calculateTotalResearchBonuses(research.branches);
+  const changed = (Object.keys(bonuses) as (keyof ResearchSystem['bonuses'])[])
+    .filter(key => research.bonuses[key] !== bonuses[key]);
+  if (changed.length === 0) return research;
+
+  issues.push({ path: 'research.bonuses', problem: `${changed.join(', ')} did not match the research branches`, fix: 'recalculated' });
+  return { ...research, bonuses };
+};
+
+// Check a loaded GameState for corrupted or tampered values. Repairs everything it can in place
+// of discarding the save, and lists each repair so the player can be told what changed.
+export const validateGameState = (state: GameState): { state: GameState; report: RepairReport } => {
+  const issues: RepairIssue[] = [];
+  const defaults = createInitialGameState();
+
+  const numeric = repairNumbers(state, [], defaults, issues) as GameState;
+
+  const weapons = repairItemList<Weapon>(numeric.inventory.weapons, 'inventory.weapons', issues);
+  const armor = repairItemList<Armor>(numeric.inventory.armor, 'inventory.armor', issues);
+  const relics = repairRelicList(numeric.inventory.relics, 'inventory.relics', issues);
+  const equippedRelics = repairRelicList(numeric.inventory.equippedRelics, 'inventory.equippedRelics', issues)
+    .filter((relic, index, list) => {
+      if (!relics.some(owned => owned.id === relic.id)) {
+        issues.push({ path: `inventory.equippedRelics.${relic.id}`, problem: 'equipped relic is not owned', fix: 'unequipped' });
+        return false;
+      }
+      if (list.findIndex(other => other.id === relic.id) !== index) {
+        issues.push({ path: `inventory.equippedRelics.${relic.id}`, problem: 'relic equipped twice', fix: 'duplicate removed' });
+        return false;
+      }
+      return true;
+    });
+
+  const repaired: GameState = {
+    ...numeric,
+    inventory: {
+      ...numeric.inventory,
+      weapons,
+      armor,
+      relics,
+      equippedRelics,
+      currentWeapon: repairEquipped(numeric.inventory.currentWeapon, weapons, 'inventory.currentWeapon', issues),
+      currentArmor: repairEquipped(numeric.inventory.currentArmor, armor, 'inventory.currentArmor', issues)
+    },
+    research: repairResearchBonuses(numeric.research, issues),
+    yojefMarket: { ...numeric.yojefMarket, items: repairRelicList(numeric.yojefMarket.items, 'yojefMarket.items', issues) }
+  };
+
+  return { state: repaired, report: { issues } };
+};
+
+// The full load path for stored or imported save JSON: migrate, fill defaults, then repair
+export const restoreGameState = (json: string): { state: GameState; report: RepairReport } => {
+  return validateGameState(deserializeGameState(json));
+};
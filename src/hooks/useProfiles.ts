@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ProfileIndex } from '../types/game';
+import { restoreGameState } from '../engine';
+import AsyncStorage from '../utils/storage';
+import {
+  createProfileEntry,
+  getProfileStorageKey,
+  readProfileIndex,
+  updateProfileIndex
+} from '../utils/profileStorage';
+import { copySnapshots, readSaveCandidates, removeSave } from '../utils/saveStore';
+
+const useProfiles = () => {
+  const [index, setIndex] = useState<ProfileIndex | null>(null);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+
+  const refreshProfiles = useCallback(async () => {
+    setIndex(await readProfileIndex());
+  }, []);
+
+  useEffect(() => {
+    refreshProfiles();
+  }, [refreshProfiles]);
+
+  const updateIndex = useCallback(async (updater: (index: ProfileIndex) => ProfileIndex) => {
+    // Queued with the game's own slot summary writes, against a fresh read of the index
+    setIndex(await updateProfileIndex(updater));
+  }, []);
+
+  const createProfile = useCallback(async (name: string) => {
+    const profile = createProfileEntry(name);
+    await updateIndex(current => ({ ...current, profiles: [...current.profiles, profile] }));
+    return profile.id;
+  }, [updateIndex]);
+
+  const renameProfile = useCallback(async (profileId: string, name: string) => {
+    await updateIndex(current => ({
+      ...current,
+      profiles: current.profiles.map(profile => (profile.id === profileId ? { ...profile, name } : profile))
+    }));
+  }, [updateIndex]);
+
+  const duplicateProfile = useCallback(async (profileId: string) => {
+    const source = index?.profiles.find(profile => profile.id === profileId);
+    if (!source) return;
+
+    let copy = { ...createProfileEntry(`${source.name} (copy)`), zone: source.zone, level: source.level, lastPlayed: source.lastPlayed };
+    // Copy what loading the slot would pick: the newest stored copy that still restores
+    for (const candidate of await readSaveCandidates(getProfileStorageKey(profileId))) {
+      try {
+        const { state } = restoreGameState(candidate.data);
+        await AsyncStorage.setItem(getProfileStorageKey(copy.id), candidate.data);
+        copy = { ...copy, zone: state.zone, level: state.progression.level };
+        break;
+      } catch (error) {
+        console.error(`Error reading ${candidate.label} to duplicate, trying an older copy:`, error);
+      }
+    }
+    await copySnapshots(getProfileStorageKey(profileId), getProfileStorageKey(copy.id));
+    await updateIndex(current => ({ ...current, profiles: [...current.profiles, copy] }));
+  }, [index, updateIndex]);
+
+  const deleteProfile = useCallback(async (profileId: string) => {
+    await removeSave(getProfileStorageKey(profileId));
+    await updateIndex(current => ({
+      profiles: current.profiles.filter(profile => profile.id !== profileId),
+      lastProfileId: current.lastProfileId === profileId ? null : current.lastProfileId
+    }));
+  }, [updateIndex]);
+
+  const selectProfile = useCallback(async (profileId: string) => {
+    await updateIndex(current => ({ ...current, lastProfileId: profileId }));
+    setActiveProfileId(profileId);
+  }, [updateIndex]);
+
+  // Back to the picker; the summaries are re-read so they show the run just played
+  const leaveProfile = useCallback(() => {
+    setActiveProfileId(null);
+    refreshProfiles();
+  }, [refreshProfiles]);
+
+  return {
+    profiles: index?.profiles ?? [],
+    lastProfileId: index?.lastProfileId ?? null,
+    isLoading: index === null,
+    activeProfileId,
+    createProfile,
+    renameProfile,
+    duplicateProfile,
+    deleteProfile,
+    selectProfile,
+    leaveProfile,
+  };
+};
+
+export default useProfiles;
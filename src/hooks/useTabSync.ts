@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { openTabChannel, TabChannel, TAB_ID } from '../utils/tabSync';
+
+// How long a new tab waits for an existing writer to answer before taking the lock itself
+const WRITER_REPLY_MS = 300;
+// State is mirrored to read-only tabs at most this often
+const PUBLISH_INTERVAL_MS = 300;
+
+interface TabSyncOptions {
+  // Serialized state of this tab, sent to tabs that join while it is the writer
+  getState: () => string | null;
+  onRemoteState: (data: string) => void;
+}
+
+// Single-writer lock for a profile across browser tabs. The newest claim wins, so
+// "take over" is simply a fresh claim.
+const useTabSync = (profileId: string | null, { getState, onRemoteState }: TabSyncOptions) => {
+  const [isWriter, setIsWriter] = useState(true);
+  const channelRef = useRef<TabChannel | null>(null);
+  const claimedAtRef = useRef<number | null>(null);
+  const publishTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latestOptions = useRef({ getState, onRemoteState });
+  latestOptions.current = { getState, onRemoteState };
+
+  const claim = useCallback(() => {
+    if (!profileId) return;
+    claimedAtRef.current = Date.now();
+    setIsWriter(true);
+    channelRef.current?.post({ type: 'claim', profileId, claimedAt: claimedAtRef.current });
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!profileId) return;
+
+    const publishCurrentState = () => {
+      const data = latestOptions.current.getState();
+      if (data) channelRef.current?.post({ type: 'state', profileId, data });
+    };
+
+    // Claimed for ourselves unless a writer answers the hello below in time
+    const joinTimer = setTimeout(claim, WRITER_REPLY_MS);
+    const channel = openTabChannel(message => {
+      if (message.profileId !== profileId) return;
+
+      switch (message.type) {
+        case 'hello':
+          // A tab just opened this profile: tell it who is writing and what the state is
+          if (claimedAtRef.current !== null) {
+            channel?.post({ type: 'claim', profileId, claimedAt: claimedAtRef.current });
+            publishCurrentState();
+          }
+          break;
+        case 'claim':
+          clearTimeout(joinTimer);
+          if (claimedAtRef.current === null || message.claimedAt > claimedAtRef.current ||
+              (message.claimedAt === claimedAtRef.current && message.tabId > TAB_ID)) {
+            claimedAtRef.current = null;
+            setIsWriter(false);
+          }
+          break;
+        case 'release':
+          if (claimedAtRef.current === null) claim();
+          break;
+        case 'state':
+          if (claimedAtRef.current === null) latestOptions.current.onRemoteState(message.data);
+          break;
+      }
+    });
+
+    if (!channel) {
+      clearTimeout(joinTimer);
+      claimedAtRef.current = Date.now();
+      setIsWriter(true);
+      return;
+    }
+
+    channelRef.current = channel;
+    claimedAtRef.current = null;
+    setIsWriter(false);
+    channel.post({ type: 'hello', profileId });
+
+    // Closing the tab skips effect cleanup, so hand the lock over on pagehide as well
+    const release = () => {
+      if (claimedAtRef.current !== null) channel.post({ type: 'release', profileId });
+    };
+    window.addEventListener('pagehide', release);
+
+    return () => {
+      clearTimeout(joinTimer);
+      if (publishTimerRef.current) {
+        clearTimeout(publishTimerRef.current);
+        publishTimerRef.current = null;
+      }
+      window.removeEventListener('pagehide', release);
+      release();
+      claimedAtRef.current = null;
+      channelRef.current = null;
+      channel.close();
+    };
+  }, [profileId, claim]);
+
+  // Mirror the writer's state to the other tabs, batching rapid changes
+  const publishState = useCallback(() => {
+    if (!profileId || claimedAtRef.current === null || !channelRef.current || publishTimerRef.current) return;
+
+    publishTimerRef.current = setTimeout(() => {
+      publishTimerRef.current = null;
+      const data = latestOptions.current.getState();
+      if (data && claimedAtRef.current !== null) {
+        channelRef.current?.post({ type: 'state', profileId, data });
+      }
+    }, PUBLISH_INTERVAL_MS);
+  }, [profileId]);
+
+  return {
+    isWriter,
+    takeOver: claim,
+    publishState,
+  };
+};
+
+export default useTabSync;
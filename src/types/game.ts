@@ -8,9 +8,14 @@ export interface GameState {
   currentEnemy: Enemy | null;
   inCombat: boolean;
   combatLog: string[];
+  playerStatusEffects: StatusEffect[];
+  relicFragments: number;
+  consumables: Record<ConsumableType, number>;
+  lastLoot: LootDrop[]; // drops from the last fight, shown on the loot screen until dismissed
   isPremium: boolean;
   achievements: Achievement[];
   collectionBook: CollectionBook;
+  bestiary: Record<string, BestiaryRecord>; // encounters and defeats per bestiary entry
   knowledgeStreak: KnowledgeStreak;
   gameMode: GameMode;
   statistics: Statistics;
@@ -23,11 +28,16 @@ export interface GameState {
   offlineProgress: OfflineProgress;
   gardenOfGrowth: GardenOfGrowth;
   settings: GameSettings;
-  hasUsedRevival: boolean;
+  hasUsedRevival: boolean; // the free once-per-run revival has been spent
+  currentRun: RunProgress | null;
+  lastRunSummary: RunSummary | null; // shown until dismissed
+  bestRuns: Record<GameMode['current'], RunSummary[]>; // highest scores first
   skills: SkillsSystem;
   adventureSkills: AdventureSkillsState;
   research: ResearchSystem;
   multipliers: Multipliers;
+  random: RandomState;
+  achievementTrackers: { [definitionId: string]: CriteriaTracker };
 }
 
 export interface PlayerStats {
@@ -62,6 +72,7 @@ export interface Weapon {
   maxDurability: number;
   isEnchanted?: boolean;
   enchantmentMultiplier?: number;
+  enchantmentEffect?: StatusEffectType; // status an enchanted weapon can inflict on hit
 }
 
 export interface Armor {
@@ -83,6 +94,7 @@ export interface RelicItem {
   id: string;
   name: string;
   type: 'weapon' | 'armor';
+  rarity: 'rare' | 'epic' | 'legendary' | 'mythical';
   baseAtk?: number;
   baseDef?: number;
   level: number;
@@ -98,11 +110,44 @@ export interface Enemy {
   atk: number;
   def: number;
   zone: number;
-  isPoisoned?: boolean;
-  poisonTurns?: number;
+  statusEffects?: StatusEffect[];
   canDropItems?: boolean;
   isBoss?: boolean;
-  specialAbility?: string;
+  bossAbilities?: BossAbility[];
+  isEnraged?: boolean;
+  shieldPhasesUsed?: number; // shield phases already triggered this fight
+  specialAbility?: string; // key into the engine's enemy status abilities
+  questionSeed?: number; // seeds the trivia questions drawn during this encounter
+  bestiaryId?: string;
+  weaknesses?: StatusEffectType[]; // statuses that land twice as hard
+  preferredCategories?: string[]; // trivia categories this enemy likes to ask
+}
+
+export interface BestiaryRecord {
+  encountered: number;
+  defeated: number;
+}
+
+export type ConsumableType = 'health_potion' | 'ward_scroll';
+
+export interface LootDrop {
+  kind: 'weapon' | 'armor' | 'relic_fragment' | 'consumable';
+  name: string;
+  quantity: number;
+  rarity?: Weapon['rarity'];
+  consumable?: ConsumableType;
+}
+
+export type BossAbility = 'enrage' | 'shield_phases' | 'hard_questions' | 'streak_steal';
+
+export type StatusEffectType = 'poison' | 'burn' | 'freeze' | 'stun' | 'shield' | 'regen' | 'vulnerability';
+
+export interface StatusEffect {
+  type: StatusEffectType;
+  turns: number; // answers left before it wears off
+  stacks: number;
+  amount?: number; // damage a shield still absorbs
+  appliedThisTurn?: boolean; // skips the tick of the answer it arrived on, so it lasts `turns` full answers
 }
 
 export interface ChestReward {
@@ -127,6 +172,38 @@ export interface Achievement {
   };
 }
 
+// Something that happened in play, derived from each state change and fed to achievement criteria
+export type GameEvent =
+  | { type: 'answerSubmitted'; correct: boolean; category?: string }
+  | { type: 'enemyDefeated'; zone: number }
+  | { type: 'playerDefeated'; zone: number }
+  | { type: 'chestOpened' }
+  | { type: 'itemSold' }
+  | { type: 'itemUpgraded' }
+  | { type: 'zoneEntered'; zone: number }
+  | { type: 'gemMined'; shiny: boolean };
+
+export type GameEventType = GameEvent['type'];
+
+// Matches events of one type whose payload has all the listed values
+export interface EventMatcher {
+  type: GameEventType;
+  where?: { [field: string]: string | number | boolean };
+}
+
+// Declarative unlock conditions for achievements and tags
+export type AchievementCriteria =
+  | { kind: 'counter'; event: EventMatcher; target: number; scope?: 'lifetime' | 'session' } // N matching events
+  | { kind: 'threshold'; path: string; target: number } // a GameState number (e.g. 'statistics.chestsOpened') reaches target
+  | { kind: 'streak'; event: EventMatcher; breaksOn: EventMatcher; target: number } // N in a row without a breaking event
+  | { kind: 'window'; event: EventMatcher; target: number; windowSeconds: number }; // N within a sliding time window
+
+export interface CriteriaTracker {
+  count: number;
+  eventTimes: number[]; // only kept for window criteria
+  sessionStart?: number; // session-scoped counters reset when this no longer matches
+}
+
 export interface CollectionBook {
   weapons: { [key: string]: boolean };
   armor: { [key: string]: boolean };
@@ -155,6 +232,33 @@ export interface GameMode {
   maxSurvivalLives: number;
 }
 
+// A run lasts from the first fight until defeat (or the last survival life). Progress is
+// measured against the statistics as they stood when it started.
+export interface RunProgress {
+  mode: GameMode['current'];
+  startZone: number;
+  startedAt: Date;
+  startVictories: number;
+  startBossesDefeated: number;
+  startCorrectAnswers: number;
+  startQuestionsAnswered: number;
+  livesLost: number;
+}
+
+export interface RunSummary {
+  mode: GameMode['current'];
+  startZone: number;
+  zoneReached: number;
+  victories: number;
+  bossesDefeated: number;
+  correctAnswers: number;
+  questionsAnswered: number;
+  livesLost: number;
+  score: number;
+  startedAt: Date;
+  endedAt: Date;
+}
+
 export interface Statistics {
   totalQuestionsAnswered: number;
   correctAnswers: number;
@@ -181,8 +285,10 @@ export interface Statistics {
   itemsUpgraded: number;
   itemsSold: number;
   totalResearchSpent: number;
+  bossesDefeated: number;
   averageAccuracy: number;
   revivals: number;
+  gemsFromDrones: number;
 }
 
 export interface CheatSettings {
@@ -191,9 +297,32 @@ export interface CheatSettings {
   obtainAnyItem: boolean;
 }
 
+export type CraftingOre = 'copper' | 'iron' | 'mithril';
+export type OreType = 'stone' | 'gem' | 'shiny_gem' | CraftingOre;
+
+export interface MiningCell {
+  ore: OreType;
+  hardness: number; // hits it takes with efficiency 1
+  hitsLeft: number; // 0 once dug out
+}
+
 export interface Mining {
   totalGemsMined: number;
   totalShinyGemsMined: number;
+  depth: number; // layer currently being dug, from 1
+  deepestDepth: number;
+  grid: MiningCell[][]; // rows of the current layer; empty until the first layer is dug
+  ores: Record<CraftingOre, number>;
+  totalOresMined: number;
+  tools: MiningTool[];
+  drones: MiningDrones;
+}
+
+export interface MiningDrones {
+  count: number;
+  tier: number; // index into the drone tiers; every drone shares it
+  storedGems: number; // mined but not yet collected, fractional until collection
+  lastTick: Date | null; // null until the first drone is bought
 }
 
 export interface MiningTool {
@@ -207,6 +336,7 @@ export interface MiningTool {
 
 export interface YojefMarket {
   items: RelicItem[];
+  soldOutIds: string[]; // bought since the last refresh; they stay on display as sold out
   lastRefresh: Date;
   nextRefresh: Date;
 }
@@ -258,18 +388,42 @@ export interface OfflineProgress {
   offlineGems: number;
   offlineTime: number;
   maxOfflineHours: number;
+  breakdown: OfflineRewardSource[]; // where the unclaimed rewards came from
 }
 
-export interface GardenOfGrowth {
-  isPlanted: boolean;
+export interface OfflineRewardSource {
+  source: string;
+  coins: number;
+  gems: number;
+  stored?: boolean; // already credited elsewhere (drone storage); listed for information only
+}
+
+export type PlantSpecies = 'growth_tree' | 'atk_vine' | 'gem_flower' | 'xp_mushroom';
+
+export type FertilizerType = 'compost' | 'miracle_grow';
+
+export interface GardenPlot {
+  species: PlantSpecies | null; // null while the plot is empty
   plantedAt: Date | null;
-  lastWatered: Date | null;
-  waterHoursRemaining: number;
   growthCm: number;
-  totalGrowthBonus: number;
-  seedCost: number;
-  waterCost: number;
-  maxGrowthCm: number;
+  fertilizer: FertilizerType | null;
+  fertilizerHoursRemaining: number;
+  harvests: number;
+}
+
+export interface GardenOfGrowth {
+  plots: GardenPlot[]; // unlocked plots, in unlock order
+  isPlanted: boolean; // any plot has a plant
+  growthCm: number; // tallest plant
+  lastWatered: Date | null;
+  lastGrowthUpdate: Date | null; // how far the growth simulation has run
+  waterHoursRemaining: number; // shared by every plot
+  hoursDry: number; // since the water ran out; plants wilt after a while
+  totalGrowthBonus: number; // % to all stats
+  atkGrowthBonus: number; // % to ATK
+  xpGrowthBonus: number; // % to XP from victories
+  totalHarvests: number;
+  waterCost: number; // for one day; longer bundles are discounted
 }
 
 export interface GameSettings {
@@ -297,12 +451,15 @@ export interface MenuSkill {
   expiresAt: Date;
   type: 'coin_vacuum' | 'treasurer' | 'xp_surge' | 'luck_gem' | 'enchanter' | 'time_warp' | 'golden_touch' | 'knowledge_boost' | 'durability_master' | 'relic_finder' | 'stat_amplifier' | 'question_master' | 'gem_magnet' | 'streak_guardian' | 'revival_blessing' | 'zone_skipper' | 'item_duplicator' | 'research_accelerator' | 'garden_booster' | 'market_refresh' | 'coin_multiplier' | 'gem_multiplier' | 'xp_multiplier' | 'damage_boost' | 'defense_boost' | 'health_boost' | 'speed_boost' | 'luck_boost' | 'magic_shield' | 'auto_heal';
   isExpired?: boolean;
+  charges?: number; // uses left for skills that end after a number of uses
+  ticksApplied?: number; // per-minute effects already paid out
 }
 
 export interface AdventureSkillsState {
   selectedSkill: AdventureSkill | null;
   availableSkills: AdventureSkill[];
   showSelectionModal: boolean;
+  runVictories: number; // enemies defeated since the adventure began
   skillEffects: {
     skipCardUsed: boolean;
     metalShieldUsed: boolean;
@@ -354,11 +511,15 @@ export interface TriviaQuestion {
 }
 
 // Missing interfaces that were referenced but not defined
+export type ResearchBranch = 'atk' | 'def' | 'hp' | 'coins' | 'gems' | 'xp';
+
 export interface ResearchSystem {
   level: number;
   experience: number;
   experienceToNext: number;
   totalSpent: number;
+  points: number; // earned by leveling, spent on branches
+  branches: Record<ResearchBranch, number>;
   bonuses: {
     atk: number;
     def: number;
@@ -375,4 +536,24 @@ export interface Multipliers {
   atk: number;
   def: number;
   hp: number;
-}
\ No newline at end of file
+}
+
+export interface RandomState {
+  seed: number; // seed the save was started with, enough to replay it from scratch
+  state: number; // current generator state, advanced by every roll
+}
+
+// Summary of one save slot, stored apart from its GameState so the picker can list slots cheaply
+export interface SaveProfile {
+  id: string;
+  name: string;
+  zone: number;
+  level: number;
+  createdAt: Date;
+  lastPlayed: Date | null;
+}
+
+export interface ProfileIndex {
+  profiles: SaveProfile[];
+  lastProfileId: string | null;
+}
@@ -1,6 +1,11 @@
-import { Achievement, GameState } from '../types/game';
+import { Achievement, AchievementCriteria, GameState } from '../types/game';
 
-export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt' | 'progress'>[] = [
+// Definitions with `criteria` are pure data: the engine tracks and unlocks them without a case below
+export type AchievementDefinition = Omit<Achievement, 'unlocked' | 'unlockedAt' | 'progress'> & {
+  criteria?: AchievementCriteria;
+};
+
+export const achievementDefinitions: AchievementDefinition[] = [
   // Basic Progression
   {
     id: 'first_victory',
@@ -16,7 +21,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     description: 'Reach Zone 10',
     icon: '🗺️',
     maxProgress: 10,
-    reward: { coins: 200, gems: 10 }
+    reward: { coins: 200, gems: 10 },
+    criteria: { kind: 'threshold', path: 'zone', target: 10 }
   },
   {
     id: 'zone_master_25',
@@ -24,7 +30,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     description: 'Reach Zone 25',
     icon: '⚔️',
     maxProgress: 25,
-    reward: { coins: 500, gems: 25 }
+    reward: { coins: 500, gems: 25 },
+    criteria: { kind: 'threshold', path: 'zone', target: 25 }
   },
   {
     id: 'zone_master_50',
@@ -32,7 +39,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     description: 'Reach Zone 50 and unlock Premium',
     icon: '👑',
     maxProgress: 50,
-    reward: { coins: 1000, gems: 50, special: 'Premium Access' }
+    reward: { coins: 1000, gems: 50, special: 'Premium Access' },
+    criteria: { kind: 'threshold', path: 'zone', target: 50 }
   },
   {
     id: 'zone_master_100',
@@ -40,7 +48,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     description: 'Reach Zone 100',
     icon: '🏔️',
     maxProgress: 100,
-    reward: { coins: 2000, gems: 100 }
+    reward: { coins: 2000, gems: 100 },
+    criteria: { kind: 'threshold', path: 'zone', target: 100 }
   },
   {
     id: 'zone_master_250',
@@ -48,7 +57,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     description: 'Reach Zone 250',
     icon: '🌋',
     maxProgress: 250,
-    reward: { coins: 5000, gems: 250 }
+    reward: { coins: 5000, gems: 250 },
+    criteria: { kind: 'threshold', path: 'zone', target: 250 }
   },
   {
     id: 'zone_master_500',
@@ -56,7 +66,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     description: 'Reach Zone 500',
     icon: '🌌',
     maxProgress: 500,
-    reward: { coins: 10000, gems: 500 }
+    reward: { coins: 10000, gems: 500 },
+    criteria: { kind: 'threshold', path: 'zone', target: 500 }
   },
 
   // Collection Achievements
@@ -220,7 +231,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     description: 'Open 10 chests',
     icon: '🗝️',
     maxProgress: 10,
-    reward: { coins: 200, gems: 10 }
+    reward: { coins: 200, gems: 10 },
+    criteria: { kind: 'threshold', path: 'statistics.chestsOpened', target: 10 }
   },
   {
     id: 'chest_opener_50',
@@ -228,7 +240,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     description: 'Open 50 chests',
     icon: '📦',
     maxProgress: 50,
-    reward: { coins: 1000, gems: 50 }
+    reward: { coins: 1000, gems: 50 },
+    criteria: { kind: 'threshold', path: 'statistics.chestsOpened', target: 50 }
   },
   {
     id: 'chest_opener_100',
@@ -236,7 +249,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     description: 'Open 100 chests',
     icon: '🏛️',
     maxProgress: 100,
-    reward: { coins: 2500, gems: 125 }
+    reward: { coins: 2500, gems: 125 },
+    criteria: { kind: 'threshold', path: 'statistics.chestsOpened', target: 100 }
   },
 
   // Accuracy Achievements
@@ -403,6 +417,58 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     reward: { coins: 5000, gems: 250 }
   },
 
+  // Event Achievements
+  {
+    id: 'flawless_five',
+    name: 'Flawless Five',
+    description: 'Defeat 5 enemies in a row without a wrong answer',
+    icon: '🎖️',
+    maxProgress: 5,
+    reward: { coins: 750, gems: 35 },
+    criteria: {
+      kind: 'streak',
+      event: { type: 'enemyDefeated' },
+      breaksOn: { type: 'answerSubmitted', where: { correct: false } },
+      target: 5
+    }
+  },
+  {
+    id: 'merchant_session_10',
+    name: 'Clearance Sale',
+    description: 'Sell 10 items in a single session',
+    icon: '🏷️',
+    maxProgress: 10,
+    reward: { coins: 400, gems: 20 },
+    criteria: { kind: 'counter', event: { type: 'itemSold' }, target: 10, scope: 'session' }
+  },
+  {
+    id: 'chest_frenzy',
+    name: 'Chest Frenzy',
+    description: 'Open 5 chests within one minute',
+    icon: '🎁',
+    maxProgress: 5,
+    reward: { coins: 600, gems: 30 },
+    criteria: { kind: 'window', event: { type: 'chestOpened' }, target: 5, windowSeconds: 60 }
+  },
+  {
+    id: 'blacksmith_25',
+    name: 'Blacksmith',
+    description: 'Upgrade items 25 times',
+    icon: '🔨',
+    maxProgress: 25,
+    reward: { coins: 1000, gems: 50 },
+    criteria: { kind: 'threshold', path: 'statistics.itemsUpgraded', target: 25 }
+  },
+  {
+    id: 'shiny_streak_3',
+    name: 'Lucky Strike',
+    description: 'Mine 3 shiny gems within 30 seconds',
+    icon: '🍀',
+    maxProgress: 3,
+    reward: { coins: 1500, gems: 75 },
+    criteria: { kind: 'window', event: { type: 'gemMined', where: { shiny: true } }, target: 3, windowSeconds: 30 }
+  },
+
   // Garden Achievements
   {
     id: 'gardener_first',
@@ -435,7 +501,7 @@ export const checkAchievements = (gameState: GameState): Achievement[] => {
   
   achievementDefinitions.forEach(def => {
     const existing = gameState.achievements.find(a => a.id === def.id);
-    if (existing?.unlocked) return;
+    if (existing?.unlocked || def.criteria) return;
 
     let progress = 0;
     let shouldUnlock = false;
@@ -445,30 +511,6 @@ export const checkAchievements = (gameState: GameState): Achievement[] => {
         progress = gameState.zone > 1 ? 1 : 0;
         shouldUnlock = progress >= 1;
         break;
-      case 'zone_master_10':
-        progress = Math.min(gameState.zone, 10);
-        shouldUnlock = gameState.zone >= 10;
-        break;
-      case 'zone_master_25':
-        progress = Math.min(gameState.zone, 25);
-        shouldUnlock = gameState.zone >= 25;
-        break;
-      case 'zone_master_50':
-        progress = Math.min(gameState.zone, 50);
-        shouldUnlock = gameState.zone >= 50;
-        break;
-      case 'zone_master_100':
-        progress = Math.min(gameState.zone, 100);
-        shouldUnlock = gameState.zone >= 100;
-        break;
-      case 'zone_master_250':
-        progress = Math.min(gameState.zone, 250);
-        shouldUnlock = gameState.zone >= 250;
-        break;
-      case 'zone_master_500':
-        progress = Math.min(gameState.zone, 500);
-        shouldUnlock = gameState.zone >= 500;
-        break;
       case 'collector_25':
         progress = Math.min(gameState.collectionBook.totalWeaponsFound + gameState.collectionBook.totalArmorFound, 25);
         shouldUnlock = progress >= 25;
@@ -541,18 +583,6 @@ export const checkAchievements = (gameState: GameState): Achievement[] => {
         progress = Math.min(gameState.statistics.gemsEarned, 10000);
         shouldUnlock = gameState.statistics.gemsEarned >= 10000;
         break;
-      case 'chest_opener_10':
-        progress = Math.min(gameState.statistics.chestsOpened, 10);
-        shouldUnlock = gameState.statistics.chestsOpened >= 10;
-        break;
-      case 'chest_opener_50':
-        progress = Math.min(gameState.statistics.chestsOpened, 50);
-        shouldUnlock = gameState.statistics.chestsOpened >= 50;
-        break;
-      case 'chest_opener_100':
-        progress = Math.min(gameState.statistics.chestsOpened, 100);
-        shouldUnlock = gameState.statistics.chestsOpened >= 100;
-        break;
       case 'accuracy_master_90':
         const totalAnswered90 = gameState.statistics.totalQuestionsAnswered;
         if (totalAnswered90 >= 50) {
@@ -661,8 +691,14 @@ export const checkAchievements = (gameState: GameState): Achievement[] => {
 };
 
 export const initializeAchievements = (): Achievement[] => {
-  return achievementDefinitions.map(def => ({
-    ...def,
+  // Criteria stay on the definitions so saves only carry progress
+  return achievementDefinitions.map(({ id, name, description, icon, maxProgress, reward }) => ({
+    id,
+    name,
+    description,
+    icon,
+    maxProgress,
+    reward,
     unlocked: false,
     progress: 0
   }));
@@ -0,0 +1,300 @@
+import { StatusEffectType } from '../types/game';
+
+interface EnemyStatBlock {
+  hp: number;
+  atk: number;
+  def: number;
+}
+
+export interface BestiaryDefinition {
+  id: string;
+  name: string;
+  minZone: number;
+  maxZone?: number; // open-ended when omitted
+  base: EnemyStatBlock; // stats at zone 0
+  perZone: EnemyStatBlock; // linear gain per zone
+  growth: EnemyStatBlock; // compounding multiplier per zone past zone 10
+  weaknesses: StatusEffectType[];
+  preferredCategories: string[];
+  art: string;
+  lore: string;
+}
+
+// Zone from which stats start compounding
+export const BESTIARY_GROWTH_START_ZONE = 10;
+
+export const bestiaryDefinitions: BestiaryDefinition[] = [
+  {
+    id: 'goblin_warrior',
+    name: 'Goblin Warrior',
+    minZone: 1,
+    maxZone: 8,
+    base: { hp: 200, atk: 20, def: 0 },
+    perZone: { hp: 15, atk: 8, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['burn'],
+    preferredCategories: ['Food', 'Animals'],
+    art: 'goblin',
+    lore: 'Scrappy raiders who guard the first trails and quiz travellers about their lunch.'
+  },
+  {
+    id: 'shadow_wolf',
+    name: 'Shadow Wolf',
+    minZone: 3,
+    maxZone: 12,
+    base: { hp: 170, atk: 24, def: 0 },
+    perZone: { hp: 13, atk: 9, def: 1 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['stun'],
+    preferredCategories: ['Animals', 'Geography'],
+    art: 'wolf',
+    lore: 'A pack hunter that slips between shadows. It knows every path through the wild.'
+  },
+  {
+    id: 'stone_golem',
+    name: 'Stone Golem',
+    minZone: 6,
+    maxZone: 16,
+    base: { hp: 260, atk: 16, def: 4 },
+    perZone: { hp: 18, atk: 7, def: 3 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['freeze', 'vulnerability'],
+    preferredCategories: ['Science', 'Geography'],
+    art: 'golem',
+    lore: 'Carved from the mountain itself, it remembers how every rock was formed.'
+  },
+  {
+    id: 'fire_imp',
+    name: 'Fire Imp',
+    minZone: 11,
+    maxZone: 21,
+    base: { hp: 180, atk: 24, def: 0 },
+    perZone: { hp: 14, atk: 9, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['freeze'],
+    preferredCategories: ['Science', 'Entertainment'],
+    art: 'imp',
+    lore: 'A mischievous spark that loves tricks, riddles and setting things alight.'
+  },
+  {
+    id: 'ice_troll',
+    name: 'Ice Troll',
+    minZone: 16,
+    maxZone: 26,
+    base: { hp: 240, atk: 18, def: 2 },
+    perZone: { hp: 17, atk: 8, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['burn'],
+    preferredCategories: ['Geography', 'Sports'],
+    art: 'troll',
+    lore: 'A hulking brute from the frozen north who has memorised every winter game.'
+  },
+  {
+    id: 'dark_mage',
+    name: 'Dark Mage',
+    minZone: 21,
+    maxZone: 31,
+    base: { hp: 170, atk: 26, def: 0 },
+    perZone: { hp: 13, atk: 9, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['stun', 'vulnerability'],
+    preferredCategories: ['Literature', 'Language'],
+    art: 'mage',
+    lore: 'A scholar of forbidden tomes. Its spells are only as strong as its vocabulary.'
+  },
+  {
+    id: 'lightning_drake',
+    name: 'Lightning Drake',
+    minZone: 26,
+    maxZone: 36,
+    base: { hp: 200, atk: 22, def: 0 },
+    perZone: { hp: 15, atk: 9, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['freeze'],
+    preferredCategories: ['Science', 'Technology'],
+    art: 'drake',
+    lore: 'A storm-born wyrm that crackles with questions about how electricity works.'
+  },
+  {
+    id: 'void_wraith',
+    name: 'Void Wraith',
+    minZone: 31,
+    maxZone: 41,
+    base: { hp: 180, atk: 22, def: 0 },
+    perZone: { hp: 14, atk: 8, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['burn', 'stun'],
+    preferredCategories: ['History', 'Time'],
+    art: 'wraith',
+    lore: 'The echo of a forgotten age, drifting through the void and reliving old battles.'
+  },
+  {
+    id: 'crystal_beast',
+    name: 'Crystal Beast',
+    minZone: 36,
+    maxZone: 46,
+    base: { hp: 230, atk: 18, def: 3 },
+    perZone: { hp: 16, atk: 8, def: 3 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['vulnerability'],
+    preferredCategories: ['Math', 'Science'],
+    art: 'crystal',
+    lore: 'Its facets are cut at perfect angles. It counts everything it sees.'
+  },
+  {
+    id: 'ancient_dragon',
+    name: 'Ancient Dragon',
+    minZone: 41,
+    maxZone: 51,
+    base: { hp: 240, atk: 22, def: 2 },
+    perZone: { hp: 17, atk: 9, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['freeze', 'poison'],
+    preferredCategories: ['History', 'Literature'],
+    art: 'dragon',
+    lore: 'It has hoarded knowledge for a thousand years and expects you to know your history.'
+  },
+  {
+    id: 'chaos_lord',
+    name: 'Chaos Lord',
+    minZone: 46,
+    maxZone: 56,
+    base: { hp: 200, atk: 24, def: 0 },
+    perZone: { hp: 15, atk: 9, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['stun'],
+    preferredCategories: ['Entertainment', 'Music'],
+    art: 'chaos',
+    lore: 'Ruler of a realm where nothing stays still, least of all the soundtrack.'
+  },
+  {
+    id: 'nightmare_king',
+    name: 'Nightmare King',
+    minZone: 51,
+    maxZone: 61,
+    base: { hp: 210, atk: 22, def: 0 },
+    perZone: { hp: 15, atk: 8, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['burn', 'vulnerability'],
+    preferredCategories: ['Literature', 'Art'],
+    art: 'nightmare',
+    lore: 'A monarch of bad dreams who paints them from the stories it has read.'
+  },
+  {
+    id: 'abyssal_terror',
+    name: 'Abyssal Terror',
+    minZone: 56,
+    maxZone: 66,
+    base: { hp: 230, atk: 20, def: 2 },
+    perZone: { hp: 16, atk: 8, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['poison'],
+    preferredCategories: ['Animals', 'Geography'],
+    art: 'abyss',
+    lore: 'Risen from the deepest trench, it knows every creature of the ocean floor.'
+  },
+  {
+    id: 'cosmic_horror',
+    name: 'Cosmic Horror',
+    minZone: 61,
+    maxZone: 71,
+    base: { hp: 200, atk: 22, def: 0 },
+    perZone: { hp: 15, atk: 9, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['freeze', 'stun'],
+    preferredCategories: ['Science', 'Math'],
+    art: 'cosmic',
+    lore: 'A thing from between the stars. Its questions span light-years.'
+  },
+  {
+    id: 'reality_bender',
+    name: 'Reality Bender',
+    minZone: 66,
+    maxZone: 76,
+    base: { hp: 180, atk: 24, def: 0 },
+    perZone: { hp: 14, atk: 9, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['vulnerability'],
+    preferredCategories: ['Art', 'Language'],
+    art: 'bender',
+    lore: 'It twists the world like clay and words like riddles.'
+  },
+  {
+    id: 'dimension_lord',
+    name: 'Dimension Lord',
+    minZone: 71,
+    maxZone: 81,
+    base: { hp: 220, atk: 20, def: 2 },
+    perZone: { hp: 16, atk: 8, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['stun', 'poison'],
+    preferredCategories: ['Math', 'Time'],
+    art: 'dimension',
+    lore: 'Keeper of the folds between worlds, obsessed with measuring time and space.'
+  },
+  {
+    id: 'eternal_guardian',
+    name: 'Eternal Guardian',
+    minZone: 76,
+    maxZone: 86,
+    base: { hp: 260, atk: 18, def: 4 },
+    perZone: { hp: 18, atk: 7, def: 3 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['poison', 'vulnerability'],
+    preferredCategories: ['History', 'Body'],
+    art: 'guardian',
+    lore: 'A sentinel that has stood watch since the first age and never once slept.'
+  },
+  {
+    id: 'void_emperor',
+    name: 'Void Emperor',
+    minZone: 81,
+    base: { hp: 210, atk: 22, def: 2 },
+    perZone: { hp: 15, atk: 8, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['burn'],
+    preferredCategories: ['History', 'Geography'],
+    art: 'emperor',
+    lore: 'It conquered the void one empire at a time and remembers each of them.'
+  },
+  {
+    id: 'chaos_incarnate',
+    name: 'Chaos Incarnate',
+    minZone: 86,
+    base: { hp: 200, atk: 24, def: 0 },
+    perZone: { hp: 15, atk: 9, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['freeze'],
+    preferredCategories: ['Entertainment', 'Sports'],
+    art: 'incarnate',
+    lore: 'Pure disorder given form. It changes the rules of every game it plays.'
+  },
+  {
+    id: 'reality_destroyer',
+    name: 'Reality Destroyer',
+    minZone: 91,
+    base: { hp: 220, atk: 22, def: 2 },
+    perZone: { hp: 16, atk: 9, def: 2 },
+    growth: { hp: 1.1, atk: 1.08, def: 1.05 },
+    weaknesses: ['stun'],
+    preferredCategories: ['Technology', 'Science'],
+    art: 'destroyer',
+    lore: 'The end of all things. It wants to know how the world works before it unmakes it.'
+  }
+];
+
+export const getBestiaryDefinition = (id: string): BestiaryDefinition | undefined =>
+  bestiaryDefinitions.find(definition => definition.id === id);
+
+// Every enemy whose range covers the zone; past the last range, the open-ended ones
+export const getBestiaryCandidates = (zone: number): BestiaryDefinition[] =>
+  bestiaryDefinitions.filter(definition => zone >= definition.minZone && (definition.maxZone === undefined || zone <= definition.maxZone));
+
+export const getBestiaryStats = (definition: BestiaryDefinition, zone: number): EnemyStatBlock => {
+  const scale = (stat: keyof EnemyStatBlock) => {
+    const linear = definition.base[stat] + definition.perZone[stat] * zone;
+    const compounding = Math.pow(definition.growth[stat], Math.max(0, zone - BESTIARY_GROWTH_START_ZONE));
+    return Math.floor(linear * compounding);
+  };
+  return { hp: scale('hp'), atk: scale('atk'), def: scale('def') };
+};
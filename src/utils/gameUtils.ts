@@ -1,5 +1,10 @@
-import { Weapon, Armor, Enemy, RelicItem } from '../types/game';
+import { Weapon, Armor, Enemy, RelicItem, ResearchBranch, ResearchSystem, StatusEffectType, BossAbility } from '../types/game';
 import { getColorblindRarityClass, getRaritySymbol } from './colorblindUtils';
+import { RandomSource, generateId, pickRandom } from './random';
+import { bestiaryDefinitions, getBestiaryCandidates, getBestiaryStats } from './bestiary';
+
+// Statuses an enchanted weapon can inflict on hit
+const weaponEnchantmentEffects: StatusEffectType[] = ['poison', 'burn', 'freeze', 'vulnerability'];
 
 const weaponNames = {
   common: ['Rusty Sword', 'Wooden Club', 'Stone Axe', 'Iron Dagger'],
@@ -40,14 +45,6 @@ const relicNames = {
   ]
 };
 
-const enemyNames = [
-  'Goblin Warrior', 'Shadow Wolf', 'Stone Golem', 'Fire Imp',
-  'Ice Troll', 'Dark Mage', 'Lightning Drake', 'Void Wraith',
-  'Crystal Beast', 'Ancient Dragon', 'Chaos Lord', 'Nightmare King',
-  'Abyssal Terror', 'Cosmic Horror', 'Reality Bender', 'Dimension Lord',
-  'Eternal Guardian', 'Void Emperor', 'Chaos Incarnate', 'Reality Destroyer'
-];
-
 const getDurabilityByRarity = (rarity: string): number => {
   const durabilityMap = {
     common: 50,
@@ -59,7 +56,7 @@ const getDurabilityByRarity = (rarity: string): number => {
   return durabilityMap[rarity as keyof typeof durabilityMap] || 50;
 };
 
-export const generateWeapon = (forceChroma = false, forceRarity?: string, forceEnchanted = false): Weapon => {
+export const generateWeapon = (forceChroma: boolean, forceRarity: string | undefined, forceEnchanted: boolean, rng: RandomSource): Weapon => {
   let rarity: 'common' | 'rare' | 'epic' | 'legendary' | 'mythical';
   
   if (forceRarity) {
@@ -67,7 +64,7 @@ export const generateWeapon = (forceChroma = false, forceRarity?: string, forceE
   } else {
     const rarities = ['common', 'rare', 'epic', 'legendary', 'mythical'] as const;
     const weights = [40, 30, 20, 8, 2];
-    const random = Math.random() * 100;
+    const random = rng() * 100;
     
     rarity = 'common';
     let cumulative = 0;
@@ -82,13 +79,13 @@ export const generateWeapon = (forceChroma = false, forceRarity?: string, forceE
   }
 
   const names = weaponNames[rarity];
-  const name = names[Math.floor(Math.random() * names.length)];
+  const name = pickRandom(names, rng);
   
   const baseAtkMap = { common: 15, rare: 25, epic: 40, legendary: 60, mythical: 100 };
   const upgradeCostMap = { common: 5, rare: 10, epic: 20, legendary: 40, mythical: 50 };
-  let baseAtk = baseAtkMap[rarity] + Math.floor(Math.random() * 10);
+  let baseAtk = baseAtkMap[rarity] + Math.floor(rng() * 10);
   
-  const isEnchanted = forceEnchanted || Math.random() < 0.05;
+  const isEnchanted = forceEnchanted || rng() < 0.05;
   let enchantmentMultiplier = 1;
   
   if (isEnchanted) {
@@ -100,7 +97,7 @@ export const generateWeapon = (forceChroma = false, forceRarity?: string, forceE
   const maxDurability = getDurabilityByRarity(rarity);
 
   return {
-    id: Math.random().toString(36).substr(2, 9),
+    id: generateId(rng),
     name: isEnchanted ? `Enchanted ${name}` : name,
     rarity,
     baseAtk,
@@ -112,10 +109,11 @@ export const generateWeapon = (forceChroma = false, forceRarity?: string, forceE
     maxDurability,
     isEnchanted,
     enchantmentMultiplier,
+    enchantmentEffect: isEnchanted ? pickRandom(weaponEnchantmentEffects, rng) : undefined,
   };
 };
 
-export const generateArmor = (forceChroma = false, forceRarity?: string, forceEnchanted = false): Armor => {
+export const generateArmor = (forceChroma: boolean, forceRarity: string | undefined, forceEnchanted: boolean, rng: RandomSource): Armor => {
   let rarity: 'common' | 'rare' | 'epic' | 'legendary' | 'mythical';
   
   if (forceRarity) {
@@ -123,7 +121,7 @@ export const generateArmor = (forceChroma = false, forceRarity?: string, forceEn
   } else {
     const rarities = ['common', 'rare', 'epic', 'legendary', 'mythical'] as const;
     const weights = [40, 30, 20, 8, 2];
-    const random = Math.random() * 100;
+    const random = rng() * 100;
     
     rarity = 'common';
     let cumulative = 0;
@@ -138,13 +136,13 @@ export const generateArmor = (forceChroma = false, forceRarity?: string, forceEn
   }
 
   const names = armorNames[rarity];
-  const name = names[Math.floor(Math.random() * names.length)];
+  const name = pickRandom(names, rng);
   
   const baseDefMap = { common: 8, rare: 15, epic: 25, legendary: 40, mythical: 70 };
   const upgradeCostMap = { common: 5, rare: 10, epic: 20, legendary: 40, mythical: 50 };
-  let baseDef = baseDefMap[rarity] + Math.floor(Math.random() * 5);
+  let baseDef = baseDefMap[rarity] + Math.floor(rng() * 5);
   
-  const isEnchanted = forceEnchanted || Math.random() < 0.05;
+  const isEnchanted = forceEnchanted || rng() < 0.05;
   let enchantmentMultiplier = 1;
   
   if (isEnchanted) {
@@ -156,7 +154,7 @@ export const generateArmor = (forceChroma = false, forceRarity?: string, forceEn
   const maxDurability = getDurabilityByRarity(rarity);
 
   return {
-    id: Math.random().toString(36).substr(2, 9),
+    id: generateId(rng),
     name: isEnchanted ? `Enchanted ${name}` : name,
     rarity,
     baseDef,
@@ -171,17 +169,27 @@ export const generateArmor = (forceChroma = false, forceRarity?: string, forceEn
   };
 };
 
-export const generateRelicItem = (): RelicItem => {
-  const isWeapon = Math.random() < 0.5;
+// Relic power scales with rarity; rare is what chests, drops and the forge hand out
+const relicRarityMultipliers: Record<RelicItem['rarity'], number> = {
+  rare: 1,
+  epic: 1.3,
+  legendary: 1.7,
+  mythical: 2.2
+};
+
+export const generateRelicItem = (rng: RandomSource, rarity: RelicItem['rarity'] = 'rare'): RelicItem => {
+  const isWeapon = rng() < 0.5;
   const names = isWeapon ? relicNames.weapons : relicNames.armor;
-  const name = names[Math.floor(Math.random() * names.length)];
+  const name = pickRandom(names, rng);
+  const multiplier = relicRarityMultipliers[rarity];
   
   if (isWeapon) {
-    const baseAtk = 120 + Math.floor(Math.random() * 60);
+    const baseAtk = Math.floor((120 + Math.floor(rng() * 60)) * multiplier);
     return {
-      id: Math.random().toString(36).substr(2, 9),
+      id: generateId(rng),
       name,
       type: 'weapon',
+      rarity,
       baseAtk,
       level: 1,
       upgradeCost: 50, // Increased from 25
@@ -189,11 +197,12 @@ export const generateRelicItem = (): RelicItem => {
       description: 'A powerful relic weapon from ancient times'
     };
   } else {
-    const baseDef = 90 + Math.floor(Math.random() * 45);
+    const baseDef = Math.floor((90 + Math.floor(rng() * 45)) * multiplier);
     return {
-      id: Math.random().toString(36).substr(2, 9),
+      id: generateId(rng),
       name,
       type: 'armor',
+      rarity,
       baseDef,
       level: 1,
       upgradeCost: 50, // Increased from 25
@@ -203,26 +212,78 @@ export const generateRelicItem = (): RelicItem => {
   }
 };
 
-export const generateMythicalWeapon = (): Weapon => {
-  return generateWeapon(false, 'mythical');
+export const YOJEF_STOCK_SIZE = 5;
+
+const relicStockWeights: { rarity: RelicItem['rarity']; weight: number }[] = [
+  { rarity: 'rare', weight: 60 },
+  { rarity: 'epic', weight: 28 },
+  { rarity: 'legendary', weight: 10 },
+  { rarity: 'mythical', weight: 2 }
+];
+
+const rollRelicRarity = (rng: RandomSource): RelicItem['rarity'] => {
+  let roll = rng() * relicStockWeights.reduce((sum, entry) => sum + entry.weight, 0);
+  return relicStockWeights.find(entry => (roll -= entry.weight) < 0)?.rarity || 'rare';
 };
 
-export const generateMythicalArmor = (): Armor => {
-  return generateArmor(false, 'mythical');
+// A fresh Yojef Market stock; a guaranteed rarity (e.g. from Relic Finder) takes the first slot
+export const generateRelicStock = (rng: RandomSource, guaranteedRarity: RelicItem['rarity'] | null = null): RelicItem[] =>
+  Array.from({ length: YOJEF_STOCK_SIZE }, (_, index) =>
+    generateRelicItem(rng, index === 0 && guaranteedRarity ? guaranteedRarity : rollRelicRarity(rng))
+  );
+
+export const generateMythicalWeapon = (rng: RandomSource): Weapon => {
+  return generateWeapon(false, 'mythical', false, rng);
 };
 
-export const generateEnemy = (zone: number): Enemy => {
-  const nameIndex = Math.min(Math.floor((zone - 1) / 5), enemyNames.length - 1);
-  const name = enemyNames[nameIndex];
-  
-  let hp = 200 + (zone * 15);
-  let atk = 20 + (zone * 8);
-  let def = Math.floor(zone * 2);
-  
-  if (zone >= 10) {
-    hp = Math.floor(hp * Math.pow(1.1, zone - 10));
-    atk = Math.floor(atk * Math.pow(1.08, zone - 10));
-    def = Math.floor(def * Math.pow(1.05, zone - 10));
+export const generateMythicalArmor = (rng: RandomSource): Armor => {
+  return generateArmor(false, 'mythical', false, rng);
+};
+
+// Every 5th zone is guarded by a boss, every 10th by a major boss with the full ability set
+export const isBossZone = (zone: number): boolean => zone % 5 === 0;
+export const isMajorBossZone = (zone: number): boolean => zone % 10 === 0;
+
+const bossTitles = ['Warlord', 'Tyrant', 'Overlord', 'Sovereign'];
+
+// Status abilities bosses rotate through, keyed like the engine's enemy status abilities
+const bossStatusAbilities = ['venom', 'inferno', 'frostbite', 'curse', 'crush', 'regenerate'];
+
+const getBossAbilities = (zone: number): BossAbility[] => {
+  if (isMajorBossZone(zone)) return ['enrage', 'shield_phases', 'hard_questions', 'streak_steal'];
+  return zone % 20 === 5 ? ['enrage', 'hard_questions'] : ['shield_phases', 'streak_steal'];
+};
+
+// Enemies come from the bestiary: any entry whose zone range covers the zone can appear
+export const generateEnemy = (zone: number, rng: RandomSource): Enemy => {
+  const candidates = getBestiaryCandidates(zone);
+  const definition = candidates.length > 0 ? pickRandom(candidates, rng) : bestiaryDefinitions[bestiaryDefinitions.length - 1];
+  const { name } = definition;
+  const { hp, atk, def } = getBestiaryStats(definition, zone);
+  const catalogFields = {
+    bestiaryId: definition.id,
+    weaknesses: definition.weaknesses,
+    preferredCategories: definition.preferredCategories
+  };
+
+  if (isBossZone(zone)) {
+    const major = isMajorBossZone(zone);
+    const bossIndex = Math.floor(zone / 5) - 1;
+    return {
+      name: `${name} ${bossTitles[bossIndex % bossTitles.length]}`,
+      hp: Math.floor(hp * (major ? 4 : 2.5)),
+      maxHp: Math.floor(hp * (major ? 4 : 2.5)),
+      atk: Math.floor(atk * (major ? 1.5 : 1.3)),
+      def: Math.floor(def * (major ? 1.5 : 1.2)),
+      zone,
+      statusEffects: [],
+      canDropItems: true,
+      isBoss: true,
+      bossAbilities: getBossAbilities(zone),
+      shieldPhasesUsed: 0,
+      specialAbility: bossStatusAbilities[bossIndex % bossStatusAbilities.length],
+      ...catalogFields
+    };
   }
   
   return {
@@ -232,9 +293,9 @@ export const generateEnemy = (zone: number): Enemy => {
     atk,
     def,
     zone,
-    isPoisoned: false,
-    poisonTurns: 0,
+    statusEffects: [],
     canDropItems: zone >= 10,
+    ...catalogFields
   };
 };
 
@@ -303,12 +364,14 @@ export const getRepairCost = (item: Weapon | Armor): number => {
   return Math.ceil(baseCost * rarityMultiplier[item.rarity]);
 };
 
-// Calculate total stat bonuses from research
-export const calculateTotalResearchBonuses = (research: { level: number }): { atk: number; def: number; hp: number } => {
-  const bonus = calculateResearchBonus(research.level);
+// Calculate total stat and reward bonuses from the levels put into each research branch
+export const calculateTotalResearchBonuses = (branches: Record<ResearchBranch, number>): ResearchSystem['bonuses'] => {
   return {
-    atk: bonus,
-    def: bonus,
-    hp: bonus
+    atk: calculateResearchBonus(branches.atk),
+    def: calculateResearchBonus(branches.def),
+    hp: calculateResearchBonus(branches.hp) * 2,
+    coinMultiplier: 1 + branches.coins * 0.1,
+    gemMultiplier: 1 + branches.gems * 0.05,
+    xpMultiplier: 1 + branches.xp * 0.1
   };
 };
\ No newline at end of file
@@ -1,34 +1,43 @@
-import { PlayerTag, GameState } from '../types/game';
+import { PlayerTag, GameState, AchievementCriteria } from '../types/game';
 
-export const tagDefinitions: Omit<PlayerTag, 'unlocked' | 'unlockedAt'>[] = [
+// Tags with `criteria` unlock from data alone, like criteria-based achievements
+export type TagDefinition = Omit<PlayerTag, 'unlocked' | 'unlockedAt'> & {
+  criteria?: AchievementCriteria;
+};
+
+export const tagDefinitions: TagDefinition[] = [
   // Zone-based tags
   {
     id: 'zone_explorer',
     name: 'Zone Explorer',
     description: 'Reach Zone 25',
     icon: '🗺️',
-    color: 'text-green-400'
+    color: 'text-green-400',
+    criteria: { kind: 'threshold', path: 'zone', target: 25 }
   },
   {
     id: 'zone_master',
     name: 'Zone Master',
     description: 'Reach Zone 100',
     icon: '🏔️',
-    color: 'text-blue-400'
+    color: 'text-blue-400',
+    criteria: { kind: 'threshold', path: 'zone', target: 100 }
   },
   {
     id: 'zone_legend',
     name: 'Zone Legend',
     description: 'Reach Zone 250',
     icon: '🌋',
-    color: 'text-red-400'
+    color: 'text-red-400',
+    criteria: { kind: 'threshold', path: 'zone', target: 250 }
   },
   {
     id: 'zone_god',
     name: 'Zone God',
     description: 'Reach Zone 500',
     icon: '🌌',
-    color: 'text-purple-400'
+    color: 'text-purple-400',
+    criteria: { kind: 'threshold', path: 'zone', target: 500 }
   },
 
   // Wealth tags
@@ -210,6 +219,21 @@ export const tagDefinitions: Omit<PlayerTag, 'unlocked' | 'unlockedAt'>[] = [
     color: 'text-red-400'
   },
 
+  // Event tags
+  {
+    id: 'unstoppable',
+    name: 'Unstoppable',
+    description: 'Defeat 25 enemies in a row without being defeated',
+    icon: '🌪️',
+    color: 'text-red-500',
+    criteria: {
+      kind: 'streak',
+      event: { type: 'enemyDefeated' },
+      breaksOn: { type: 'playerDefeated' },
+      target: 25
+    }
+  },
+
   // Time-based tags
   {
     id: 'dedicated_player',
@@ -225,23 +249,11 @@ export const checkPlayerTags = (gameState: GameState): PlayerTag[] => {
   
   tagDefinitions.forEach(def => {
     const existing = gameState.playerTags.find(t => t.id === def.id);
-    if (existing?.unlocked) return;
+    if (existing?.unlocked || def.criteria) return;
 
     let shouldUnlock = false;
 
     switch (def.id) {
-      case 'zone_explorer':
-        shouldUnlock = gameState.zone >= 25;
-        break;
-      case 'zone_master':
-        shouldUnlock = gameState.zone >= 100;
-        break;
-      case 'zone_legend':
-        shouldUnlock = gameState.zone >= 250;
-        break;
-      case 'zone_god':
-        shouldUnlock = gameState.zone >= 500;
-        break;
       case 'coin_collector':
         shouldUnlock = gameState.statistics.coinsEarned >= 10000;
         break;
@@ -332,8 +344,13 @@ export const checkPlayerTags = (gameState: GameState): PlayerTag[] => {
 };
 
 export const initializePlayerTags = (): PlayerTag[] => {
-  return tagDefinitions.map(def => ({
-    ...def,
+  // Criteria stay on the definitions so saves only carry unlock state
+  return tagDefinitions.map(({ id, name, description, icon, color }) => ({
+    id,
+    name,
+    description,
+    icon,
+    color,
     unlocked: false
   }));
 };
\ No newline at end of file
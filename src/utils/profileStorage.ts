@@ -0,0 +1,101 @@
+import { GameState, ProfileIndex, SaveProfile } from '../types/game';
+import AsyncStorage from './storage';
+import { generateId } from './random';
+
+const PROFILE_INDEX_KEY = 'hugoland_profiles';
+// Where the single save lived before profiles existed
+const LEGACY_STORAGE_KEY = 'hugoland_game_state';
+
+export const getProfileStorageKey = (profileId: string): string => `hugoland_game_state_${profileId}`;
+
+const emptyIndex = (): ProfileIndex => ({ profiles: [], lastProfileId: null });
+
+export const createProfileEntry = (name: string, now: Date = new Date()): SaveProfile => ({
+  id: generateId(),
+  name,
+  zone: 1,
+  level: 1,
+  createdAt: now,
+  lastPlayed: null
+});
+
+const reviveProfile = (profile: SaveProfile): SaveProfile => ({
+  ...profile,
+  createdAt: new Date(profile.createdAt),
+  lastPlayed: profile.lastPlayed ? new Date(profile.lastPlayed) : null
+});
+
+// A slot's "last played" only moves once it is this far behind, so autosaves don't rewrite the index
+const LAST_PLAYED_RESOLUTION_MS = 60 * 1000;
+
+const saveProfileIndex = async (index: ProfileIndex): Promise<void> => {
+  await AsyncStorage.setItem(PROFILE_INDEX_KEY, JSON.stringify(index));
+};
+
+// Read the slot list. The first time this runs on a device that already has a save,
+// that save is moved into a profile so nobody loses progress.
+const loadProfileIndex = async (): Promise<ProfileIndex> => {
+  const stored = await AsyncStorage.getItem(PROFILE_INDEX_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored) as ProfileIndex;
+      return {
+        profiles: (parsed.profiles || []).map(reviveProfile),
+        lastProfileId: parsed.lastProfileId ?? null
+      };
+    } catch (error) {
+      console.error('Error reading profile list:', error);
+      return emptyIndex();
+    }
+  }
+
+  const index = emptyIndex();
+  const legacySave = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacySave) {
+    const profile = createProfileEntry('Player 1');
+    await AsyncStorage.setItem(getProfileStorageKey(profile.id), legacySave);
+    await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+    index.profiles.push(profile);
+    index.lastProfileId = profile.id;
+  }
+
+  await saveProfileIndex(index);
+  return index;
+};
+
+// Every read and write of the index goes through here, one at a time, so a rename made while
+// the game records a save can't be overwritten by a stale copy. Returning the same index skips the write.
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+export const updateProfileIndex = (updater: (index: ProfileIndex) => ProfileIndex): Promise<ProfileIndex> => {
+  const update = indexQueue.then(async () => {
+    const current = await loadProfileIndex();
+    const updated = updater(current);
+    if (updated !== current) await saveProfileIndex(updated);
+    return updated;
+  });
+  indexQueue = update.catch(() => undefined);
+  return update;
+};
+
+export const readProfileIndex = (): Promise<ProfileIndex> => updateProfileIndex(index => index);
+
+// Keep the picker's summary of a slot in step with its save
+export const recordProfileSave = async (profileId: string, state: GameState, now: Date = new Date()): Promise<void> => {
+  await updateProfileIndex(index => {
+    const profile = index.profiles.find(candidate => candidate.id === profileId);
+    const unchanged = !profile || (
+      profile.zone === state.zone &&
+      profile.level === state.progression.level &&
+      !!profile.lastPlayed && now.getTime() - profile.lastPlayed.getTime() < LAST_PLAYED_RESOLUTION_MS
+    );
+    if (unchanged) return index;
+
+    return {
+      ...index,
+      profiles: index.profiles.map(candidate =>
+        candidate === profile ? { ...candidate, zone: state.zone, level: state.progression.level, lastPlayed: now } : candidate
+      )
+    };
+  });
+};
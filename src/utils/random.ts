@@ -0,0 +1,37 @@
+// Source of uniformly distributed numbers in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+export interface SeededRandom {
+  next: RandomSource;
+  getState: () => number;
+}
+
+// Mulberry32: tiny, fast and good enough for loot rolls. The whole generator state is one
+// 32-bit integer, so it can be stored in the save and resumed exactly.
+export const createSeededRandom = (state: number): SeededRandom => {
+  let current = state >>> 0;
+
+  return {
+    next: () => {
+      current = (current + 0x6d2b79f5) >>> 0;
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => current
+  };
+};
+
+export const createSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// Derive an independent seed from a parent seed, e.g. one per combat encounter
+export const deriveSeed = (rng: RandomSource): number => Math.floor(rng() * 4294967296) >>> 0;
+
+export const generateId = (rng: RandomSource = Math.random): string => {
+  return rng().toString(36).substr(2, 9);
+};
+
+export const pickRandom = <T>(items: readonly T[], rng: RandomSource = Math.random): T => {
+  return items[Math.floor(rng() * items.length)];
+};
@@ -0,0 +1,86 @@
+import { GameState } from '../types/game';
+import { CURRENT_SAVE_VERSION, serializeGameState } from '../engine';
+
+// Portable save format: HUGOLAND-SAVE|v<save version>|<checksum>|<base64 gzip of the save JSON>
+const SAVE_FILE_HEADER = 'HUGOLAND-SAVE';
+const SEPARATOR = '|';
+
+export const SAVE_FILE_EXTENSION = '.hugoland';
+
+// 32-bit FNV-1a over the uncompressed JSON; catches truncated or hand-edited files
+const checksum = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const encodeSaveFile = async (state: GameState): Promise<string> => {
+  const json = serializeGameState(state);
+  const compressed = await pipeThrough(new TextEncoder().encode(json), new CompressionStream('gzip'));
+  return [SAVE_FILE_HEADER, `v${CURRENT_SAVE_VERSION}`, checksum(json), toBase64(compressed)].join(SEPARATOR);
+};
+
+// Unpack an exported save back into the stored JSON form. Throws a player-readable error
+// when the text is not a save, comes from a newer game version, or fails its checksum.
+export const decodeSaveFile = async (text: string): Promise<string> => {
+  const parts = text.trim().split(SEPARATOR);
+  if (parts.length !== 4 || parts[0] !== SAVE_FILE_HEADER) {
+    throw new Error('This is not a Hugoland save file.');
+  }
+
+  const [, versionTag, expectedChecksum, payload] = parts;
+  const version = parseInt(versionTag.slice(1), 10);
+  if (!versionTag.startsWith('v') || isNaN(version)) {
+    throw new Error('The save file header is damaged.');
+  }
+  if (version > CURRENT_SAVE_VERSION) {
+    throw new Error(`This save was made with a newer version of the game (save v${version}).`);
+  }
+
+  let json: string;
+  try {
+    json = new TextDecoder().decode(await pipeThrough(fromBase64(payload), new DecompressionStream('gzip')));
+  } catch {
+    throw new Error('The save data is corrupted and could not be unpacked.');
+  }
+
+  if (checksum(json) !== expectedChecksum) {
+    throw new Error('The save data failed its checksum. It may be incomplete or edited.');
+  }
+
+  return json;
+};
+
+export const downloadSaveFile = (contents: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
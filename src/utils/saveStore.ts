@@ -0,0 +1,106 @@
+import AsyncStorage from './storage';
+
+// Crash-safe layout for one save slot:
+//   <key>_pending           the write in progress; only present if a tab died mid-save
+//   <key>                   the last complete save
+//   <key>_snapshot_<time>   periodic copies kept for rollback, listed in <key>_snapshots
+const PENDING_SUFFIX = '_pending';
+const SNAPSHOT_INDEX_SUFFIX = '_snapshots';
+const SNAPSHOT_SUFFIX = '_snapshot_';
+
+export const MAX_SNAPSHOTS = 5;
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SaveSnapshot {
+  key: string;
+  savedAt: Date;
+  zone: number;
+  coins: number;
+}
+
+export interface SaveCandidate {
+  label: string;
+  data: string;
+}
+
+export const listSnapshots = async (saveKey: string): Promise<SaveSnapshot[]> => {
+  const stored = await AsyncStorage.getItem(saveKey + SNAPSHOT_INDEX_SUFFIX);
+  if (!stored) return [];
+
+  try {
+    return (JSON.parse(stored) as SaveSnapshot[]).map(snapshot => ({ ...snapshot, savedAt: new Date(snapshot.savedAt) }));
+  } catch (error) {
+    console.error('Error reading snapshot list:', error);
+    return [];
+  }
+};
+
+export const readSnapshot = (snapshotKey: string): Promise<string | null> => AsyncStorage.getItem(snapshotKey);
+
+// Copy the save aside if the newest snapshot is old enough, dropping the oldest beyond the limit
+const takeSnapshot = async (saveKey: string, data: string, summary: { zone: number; coins: number }, now: Date) => {
+  const snapshots = await listSnapshots(saveKey);
+  if (snapshots.length > 0 && now.getTime() - snapshots[0].savedAt.getTime() < SNAPSHOT_INTERVAL_MS) return;
+
+  const snapshot: SaveSnapshot = { key: `${saveKey}${SNAPSHOT_SUFFIX}${now.getTime()}`, savedAt: now, ...summary };
+  if (!(await AsyncStorage.setItem(snapshot.key, data))) return;
+
+  const kept = [snapshot, ...snapshots];
+  await AsyncStorage.setItem(saveKey + SNAPSHOT_INDEX_SUFFIX, JSON.stringify(kept.slice(0, MAX_SNAPSHOTS)));
+  await Promise.all(kept.slice(MAX_SNAPSHOTS).map(old => AsyncStorage.removeItem(old.key)));
+};
+
+// Write-ahead save: the full blob lands in the pending key first, and only once that succeeded
+// is the main key replaced. A tab killed at any point leaves at least one complete copy.
+export const writeSave = async (
+  saveKey: string,
+  data: string,
+  summary: { zone: number; coins: number },
+  now: Date = new Date()
+): Promise<boolean> => {
+  if (!(await AsyncStorage.setItem(saveKey + PENDING_SUFFIX, data))) return false;
+  if (!(await AsyncStorage.setItem(saveKey, data))) return false;
+  await AsyncStorage.removeItem(saveKey + PENDING_SUFFIX);
+
+  await takeSnapshot(saveKey, data, summary, now);
+  return true;
+};
+
+// Every stored copy of a slot, newest first, for the loader to try in turn
+export const readSaveCandidates = async (saveKey: string): Promise<SaveCandidate[]> => {
+  const candidates: SaveCandidate[] = [];
+
+  const pending = await AsyncStorage.getItem(saveKey + PENDING_SUFFIX);
+  if (pending) candidates.push({ label: 'an unfinished save', data: pending });
+
+  const main = await AsyncStorage.getItem(saveKey);
+  if (main) candidates.push({ label: 'the last save', data: main });
+
+  for (const snapshot of await listSnapshots(saveKey)) {
+    const data = await readSnapshot(snapshot.key);
+    if (data) candidates.push({ label: `the backup from ${snapshot.savedAt.toLocaleString()}`, data });
+  }
+
+  return candidates;
+};
+
+// Give another slot its own copies of this slot's rollback points
+export const copySnapshots = async (fromKey: string, toKey: string): Promise<void> => {
+  const copies: SaveSnapshot[] = [];
+  for (const snapshot of await listSnapshots(fromKey)) {
+    const data = await readSnapshot(snapshot.key);
+    const copy = { ...snapshot, key: `${toKey}${SNAPSHOT_SUFFIX}${snapshot.savedAt.getTime()}` };
+    if (data && (await AsyncStorage.setItem(copy.key, data))) copies.push(copy);
+  }
+  if (copies.length > 0) await AsyncStorage.setItem(toKey + SNAPSHOT_INDEX_SUFFIX, JSON.stringify(copies));
+};
+
+export const removeSave = async (saveKey: string): Promise<void> => {
+  const snapshots = await listSnapshots(saveKey);
+  await Promise.all([
+    AsyncStorage.removeItem(saveKey),
+    AsyncStorage.removeItem(saveKey + PENDING_SUFFIX),
+    AsyncStorage.removeItem(saveKey + SNAPSHOT_INDEX_SUFFIX),
+    ...snapshots.map(snapshot => AsyncStorage.removeItem(snapshot.key))
+  ]);
+};
@@ -1,25 +1,159 @@
-// Browser-based AsyncStorage implementation
+// Pluggable key/value storage. IndexedDB is used when the browser offers it; localStorage
+// (about 5MB per origin) is kept as the fallback backend.
+export interface StorageAdapter {
+  name: string;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type StorageProblem = 'quotaExceeded' | 'writeFailed';
+
+type StorageListener = (problem: StorageProblem, error: unknown) => void;
+
+const KEY_PREFIX = 'hugoland_';
+// Set in localStorage once its saves have been copied into IndexedDB
+const MIGRATED_FLAG = 'hugoland_storage_migrated';
+
+const DB_NAME = 'hugoland';
+const STORE_NAME = 'keyval';
+
+export const isQuotaExceeded = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22;
+};
+
+export const localStorageAdapter: StorageAdapter = {
+  name: 'localStorage',
+  getItem: async (key) => localStorage.getItem(key),
+  setItem: async (key, value) => localStorage.setItem(key, value),
+  removeItem: async (key) => localStorage.removeItem(key),
+  clear: async () => localStorage.clear()
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked'));
+  });
+};
+
+export const createIndexedDBAdapter = (db: IDBDatabase): StorageAdapter => {
+  // Resolve once the transaction commits, so quota errors raised at commit time are not lost
+  const write = (action: (store: IDBObjectStore) => void): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      action(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () => reject(transaction.error);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    name: 'IndexedDB',
+    getItem: async (key) => {
+      const value = await requestToPromise(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: (key, value) => write(store => store.put(value, key)),
+    removeItem: (key) => write(store => store.delete(key)),
+    clear: () => write(store => store.clear())
+  };
+};
+
+// One-time copy of the game's localStorage keys into the new backend, freeing the old quota
+const migrateFromLocalStorage = async (adapter: StorageAdapter): Promise<void> => {
+  if (localStorage.getItem(MIGRATED_FLAG)) return;
+
+  const keys = Object.keys(localStorage).filter(key => key.startsWith(KEY_PREFIX) && key !== MIGRATED_FLAG);
+  for (const key of keys) {
+    const value = localStorage.getItem(key);
+    if (value !== null) {
+      await adapter.setItem(key, value);
+    }
+  }
+
+  localStorage.setItem(MIGRATED_FLAG, new Date().toISOString());
+  keys.forEach(key => localStorage.removeItem(key));
+};
+
+const createDefaultAdapter = async (): Promise<StorageAdapter> => {
+  try {
+    const adapter = createIndexedDBAdapter(await openDatabase());
+    await migrateFromLocalStorage(adapter);
+    return adapter;
+  } catch (error) {
+    console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+    return localStorageAdapter;
+  }
+};
+
+// Storage facade used by the rest of the game
 class AsyncStorage {
+  private static adapter: Promise<StorageAdapter> | null = null;
+  private static listeners: StorageListener[] = [];
+
+  static setAdapter(adapter: StorageAdapter) {
+    this.adapter = Promise.resolve(adapter);
+  }
+
+  static getAdapter(): Promise<StorageAdapter> {
+    if (!this.adapter) {
+      this.adapter = createDefaultAdapter();
+    }
+    return this.adapter;
+  }
+
+  // Be told when a write fails, e.g. to warn the player that progress is not being saved
+  static subscribe(listener: StorageListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
   static async getItem(key: string): Promise<string | null> {
     try {
-      return localStorage.getItem(key);
+      return await (await this.getAdapter()).getItem(key);
     } catch (error) {
       console.error('Error getting item from storage:', error);
       return null;
     }
   }
 
-  static async setItem(key: string, value: string): Promise<void> {
+  // Resolves to false when the write failed, so multi-step writes can stop early
+  static async setItem(key: string, value: string): Promise<boolean> {
     try {
-      localStorage.setItem(key, value);
+      await (await this.getAdapter()).setItem(key, value);
+      return true;
     } catch (error) {
       console.error('Error setting item in storage:', error);
+      const problem: StorageProblem = isQuotaExceeded(error) ? 'quotaExceeded' : 'writeFailed';
+      this.listeners.forEach(listener => listener(problem, error));
+      return false;
     }
   }
 
   static async removeItem(key: string): Promise<void> {
     try {
-      localStorage.removeItem(key);
+      await (await this.getAdapter()).removeItem(key);
     } catch (error) {
       console.error('Error removing item from storage:', error);
     }
@@ -27,11 +161,11 @@ class AsyncStorage {
 
   static async clear(): Promise<void> {
     try {
-      localStorage.clear();
+      await (await this.getAdapter()).clear();
     } catch (error) {
       console.error('Error clearing storage:', error);
     }
   }
 }
 
-export default AsyncStorage;
\ No newline at end of file
+export default AsyncStorage;
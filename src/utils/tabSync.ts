@@ -0,0 +1,37 @@
+import { generateId } from './random';
+
+// Messages exchanged between tabs playing the same profile. Only the writer tab saves;
+// the others mirror its state and can claim the lock for themselves.
+export type TabMessage =
+  | { type: 'hello'; profileId: string; tabId: string }
+  | { type: 'claim'; profileId: string; tabId: string; claimedAt: number }
+  | { type: 'release'; profileId: string; tabId: string }
+  | { type: 'state'; profileId: string; tabId: string; data: string };
+
+// Distributes Omit over the union so each message keeps its own fields
+type WithoutTabId<M> = M extends TabMessage ? Omit<M, 'tabId'> : never;
+type OutgoingMessage = WithoutTabId<TabMessage>;
+
+export interface TabChannel {
+  post: (message: OutgoingMessage) => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'hugoland_tabs';
+
+export const TAB_ID = generateId();
+
+// Returns null where BroadcastChannel is unsupported; every tab then acts as its own writer
+export const openTabChannel = (onMessage: (message: TabMessage) => void): TabChannel | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    if (event.data.tabId !== TAB_ID) onMessage(event.data);
+  };
+
+  return {
+    post: message => channel.postMessage({ ...message, tabId: TAB_ID }),
+    close: () => channel.close()
+  };
+};
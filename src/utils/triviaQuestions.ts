@@ -1,3 +1,5 @@
+import { RandomSource } from './random';
+
 export interface TriviaQuestion {
   id: string;
   question: string;
@@ -701,34 +703,40 @@ export const triviaQuestions: TriviaQuestion[] = [
   }
 ];
 
-export const getRandomQuestion = (difficulty?: 'easy' | 'medium' | 'hard'): TriviaQuestion => {
+export const getRandomQuestion = (difficulty: 'easy' | 'medium' | 'hard' | undefined, rng: RandomSource, categories?: string[]): TriviaQuestion => {
   let filteredQuestions = triviaQuestions;
   
   if (difficulty) {
     filteredQuestions = triviaQuestions.filter(q => q.difficulty === difficulty);
   }
+
+  // Narrow to the preferred categories when any question of this difficulty matches
+  if (categories && categories.length > 0) {
+    const preferred = filteredQuestions.filter(q => categories.includes(q.category));
+    if (preferred.length > 0) filteredQuestions = preferred;
+  }
   
-  const randomIndex = Math.floor(Math.random() * filteredQuestions.length);
+  const randomIndex = Math.floor(rng() * filteredQuestions.length);
   return filteredQuestions[randomIndex];
 };
 
-export const getQuestionByZone = (zone: number): TriviaQuestion => {
+export const getQuestionByZone = (zone: number, rng: RandomSource, categories?: string[]): TriviaQuestion => {
   // Much easier progression - mostly easy questions for longer
   if (zone <= 10) {
-    return getRandomQuestion('easy');
+    return getRandomQuestion('easy', rng, categories);
   }
   // Medium questions for zones 11-25
   else if (zone <= 25) {
     // 70% easy, 30% medium for smoother transition
-    return Math.random() < 0.7 ? getRandomQuestion('easy') : getRandomQuestion('medium');
+    return rng() < 0.7 ? getRandomQuestion('easy', rng, categories) : getRandomQuestion('medium', rng, categories);
   }
   // Hard questions only for very high zones (26+)
   else {
     // 40% easy, 40% medium, 20% hard
-    const rand = Math.random();
-    if (rand < 0.4) return getRandomQuestion('easy');
-    if (rand < 0.8) return getRandomQuestion('medium');
-    return getRandomQuestion('hard');
+    const rand = rng();
+    if (rand < 0.4) return getRandomQuestion('easy', rng, categories);
+    if (rand < 0.8) return getRandomQuestion('medium', rng, categories);
+    return getRandomQuestion('hard', rng, categories);
   }
 };
 
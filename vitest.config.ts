@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// The engine is framework-free, so its tests run in plain Node without the app's Vite plugins
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+});